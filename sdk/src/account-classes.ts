@@ -0,0 +1,208 @@
+/**
+ * Stealth account classes
+ *
+ * An account class describes the contract deployed at a stealth address:
+ * its class hash, the constructor calldata and address salt built from the
+ * stealth public key, and the DEPLOY_ACCOUNT payload that deploys it. The
+ * stealth address is the counterfactual address of that deployment, so the
+ * deployer is always zero: a stealth account deploys itself.
+ *
+ * Every scheme has a default layout (see StealthScheme.constructorCalldata),
+ * which a bare class hash stands for. Descriptors cover other layouts, such
+ * as Argent accounts or an application's own contract. Scanners derive the
+ * address of every candidate class and record the class that matched, so
+ * withdrawals deploy the right contract. Paymaster withdrawals have the
+ * account sign an outside execution (SNIP-9), which only classes declaring
+ * `outsideExecution` support.
+ */
+
+import { hash, type DeployAccountContractPayload } from "starknet";
+import { getScheme, starkScheme } from "./schemes";
+import { normalizeAddress } from "./validation";
+
+/**
+ * A stealth account contract and how to deploy it for a stealth public key
+ */
+export interface StealthAccountClass {
+  /** Short name, e.g. "argent" */
+  readonly name: string;
+  /** Class hash of the account contract */
+  readonly classHash: string;
+  /** Scheme of the keys the account verifies */
+  readonly schemeId: bigint;
+  /** Whether the account implements outside execution (SNIP-9) */
+  readonly outsideExecution: boolean;
+  /** Constructor calldata of the account of a stealth public key */
+  constructorCalldata(stealthPubKey: bigint): bigint[];
+  /** Address salt of the account of a stealth public key */
+  addressSalt(stealthPubKey: bigint): bigint;
+  /** DEPLOY_ACCOUNT payload of the account of a stealth public key */
+  deployPayload(stealthPubKey: bigint): DeployAccountContractPayload;
+}
+
+/**
+ * Options for defineAccountClass
+ */
+export interface AccountClassOptions {
+  /** Short name, e.g. "argent" */
+  name: string;
+  /** Class hash of the account contract */
+  classHash: string;
+  /** Scheme of the keys the account verifies (default: STARK) */
+  schemeId?: bigint;
+  /** Whether the account implements outside execution (SNIP-9) (default: false) */
+  outsideExecution?: boolean;
+  /** Constructor calldata of the account of a stealth public key */
+  constructorCalldata(stealthPubKey: bigint): bigint[];
+  /** Address salt (default: the scheme's salt, the public key for STARK) */
+  addressSalt?(stealthPubKey: bigint): bigint;
+  /**
+   * DEPLOY_ACCOUNT payload (default: the class hash, constructor calldata
+   * and salt)
+   */
+  deployPayload?(stealthPubKey: bigint): DeployAccountContractPayload;
+}
+
+/**
+ * Account classes to derive stealth addresses with: a class hash (the
+ * scheme's default layout), a descriptor, or several descriptors (those of
+ * other schemes are ignored)
+ */
+export type AccountClasses = string | StealthAccountClass | readonly StealthAccountClass[];
+
+/**
+ * Define a stealth account class
+ * @param options - Class hash, scheme, calldata and salt rules
+ * @returns The account class
+ * @throws UnsupportedSchemeError if the scheme is not registered
+ */
+export function defineAccountClass(options: AccountClassOptions): StealthAccountClass {
+  const scheme = getScheme(options.schemeId);
+  const { name, classHash, constructorCalldata, outsideExecution = false } = options;
+  const addressSalt = options.addressSalt ?? scheme.addressSalt;
+  return {
+    name,
+    classHash,
+    schemeId: scheme.id,
+    outsideExecution,
+    constructorCalldata,
+    addressSalt,
+    deployPayload:
+      options.deployPayload ??
+      ((stealthPubKey) => ({
+        classHash,
+        constructorCalldata: constructorCalldata(stealthPubKey).map((felt) => felt.toString()),
+        addressSalt: addressSalt(stealthPubKey).toString(),
+      })),
+  };
+}
+
+/**
+ * The default account layout of a scheme: `[public_key]` for STARK (the
+ * Amora StealthAccount, and OpenZeppelin's account), an EthAccount for
+ * secp256k1. Neither implements outside execution.
+ * @param classHash - Class hash of the account contract
+ * @param schemeId - The scheme (default: STARK)
+ * @returns The account class, named after the scheme
+ * @throws UnsupportedSchemeError if the scheme is not registered
+ */
+export function schemeAccountClass(classHash: string, schemeId?: bigint): StealthAccountClass {
+  const scheme = getScheme(schemeId);
+  return defineAccountClass({
+    name: scheme.name,
+    classHash,
+    schemeId: scheme.id,
+    constructorCalldata: scheme.constructorCalldata,
+  });
+}
+
+/**
+ * An Argent account (v0.4) owned by the stealth key, without a guardian:
+ * constructor `[Signer::Starknet(public_key), Option::None]`. It implements
+ * outside execution, so it can withdraw through a paymaster.
+ * @param classHash - Class hash of the Argent account contract
+ * @returns The account class
+ */
+export function argentAccountClass(classHash: string): StealthAccountClass {
+  return defineAccountClass({
+    name: "argent",
+    classHash,
+    schemeId: starkScheme.id,
+    outsideExecution: true,
+    constructorCalldata: (stealthPubKey) => [0n, stealthPubKey, 1n],
+  });
+}
+
+/**
+ * Compute the stealth address of an account class for a stealth public key
+ * @param accountClass - The account class
+ * @param stealthPubKey - The stealth public key
+ * @param salt - Optional salt (defaults to the class's salt)
+ * @returns The contract address as a hex string
+ */
+export function computeAccountAddress(
+  accountClass: StealthAccountClass,
+  stealthPubKey: bigint,
+  salt?: bigint
+): string {
+  // address = pedersen(
+  //   "STARKNET_CONTRACT_ADDRESS",
+  //   deployer_address,
+  //   salt,
+  //   class_hash,
+  //   pedersen(constructor_calldata)
+  // )
+  return hash.calculateContractAddressFromHash(
+    (salt ?? accountClass.addressSalt(stealthPubKey)).toString(),
+    accountClass.classHash,
+    accountClass.constructorCalldata(stealthPubKey).map((felt) => felt.toString()),
+    0 // deployer_address = 0 for counterfactual deployment
+  );
+}
+
+/**
+ * Resolve account classes to the descriptors of one scheme
+ * @param classes - A class hash, a descriptor or several descriptors
+ * @param schemeId - The scheme (default: STARK)
+ * @returns The scheme's account classes, in the given order
+ * @throws UnsupportedSchemeError if the scheme is not registered
+ */
+export function resolveAccountClasses(
+  classes: AccountClasses,
+  schemeId?: bigint
+): StealthAccountClass[] {
+  const scheme = getScheme(schemeId);
+  if (typeof classes === "string") {
+    return [schemeAccountClass(classes, scheme.id)];
+  }
+  const list = isAccountClassList(classes) ? classes : [classes];
+  return list.filter((accountClass) => accountClass.schemeId === scheme.id);
+}
+
+/**
+ * Narrow account classes to a list (Array.isArray does not narrow readonly arrays)
+ */
+function isAccountClassList(
+  classes: StealthAccountClass | readonly StealthAccountClass[]
+): classes is readonly StealthAccountClass[] {
+  return Array.isArray(classes);
+}
+
+/**
+ * Find the account class whose stealth address for a public key is a given address
+ * @param classes - The candidate account classes
+ * @param stealthPubKey - The stealth public key
+ * @param address - The announced stealth address
+ * @returns The matching class, or undefined if none matches
+ */
+export function matchAccountClass(
+  classes: readonly StealthAccountClass[],
+  stealthPubKey: bigint,
+  address: string
+): StealthAccountClass | undefined {
+  const expected = normalizeAddress(address);
+  return classes.find(
+    (accountClass) =>
+      normalizeAddress(computeAccountAddress(accountClass, stealthPubKey)) === expected
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * Announcement event fetching
+ *
+ * Reads Announcement events from the Amora registry. Wide block ranges are
+ * split into sub-ranges, each sub-range follows the RPC continuation tokens
+ * until exhausted, and sub-ranges are fetched with bounded concurrency.
+ */
+
+import type { RpcProvider } from "starknet";
+import type { Announcement } from "./stealth";
+import { tryDecodeMetadata } from "./metadata";
+import { AmoraError, MalformedAnnouncementError } from "./errors";
+import { validateAnnouncement } from "./validation";
+
+/** Default number of events requested per getEvents page */
+export const DEFAULT_EVENTS_CHUNK_SIZE = 1000;
+
+/** Default number of blocks covered by a single sub-range query */
+export const DEFAULT_BLOCK_RANGE_SIZE = 10_000;
+
+/** Default number of sub-ranges fetched in parallel */
+export const DEFAULT_FETCH_CONCURRENCY = 4;
+
+/**
+ * Progress report emitted while fetching announcements
+ */
+export interface FetchAnnouncementsProgress {
+  /** First block of the full range being fetched */
+  fromBlock: number;
+  /** Last block of the full range being fetched */
+  toBlock: number;
+  /** Number of sub-ranges fully fetched so far */
+  completedRanges: number;
+  /** Total number of sub-ranges */
+  totalRanges: number;
+  /** Number of blocks covered by the completed sub-ranges */
+  blocksFetched: number;
+  /** Total number of blocks in the range */
+  totalBlocks: number;
+  /** Announcements parsed so far */
+  announcementsFound: number;
+}
+
+/**
+ * Options for fetching announcements
+ */
+export interface FetchAnnouncementsOptions {
+  /** Events requested per getEvents page (default 1000) */
+  chunkSize?: number;
+  /** Maximum number of blocks per sub-range query (default 10000) */
+  blockRangeSize?: number;
+  /** Maximum number of sub-ranges fetched in parallel (default 4) */
+  concurrency?: number;
+  /** Called each time a sub-range completes */
+  onProgress?: (progress: FetchAnnouncementsProgress) => void;
+  /** Aborts the fetch; the returned promise rejects with the signal's reason */
+  signal?: AbortSignal;
+  /**
+   * Called for each event that cannot be decoded as an announcement; the
+   * event is skipped either way
+   */
+  onDecodeError?: (error: MalformedAnnouncementError) => void;
+}
+
+/**
+ * An inclusive block range
+ */
+export interface BlockRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+/**
+ * Raw event shape returned by starknet_getEvents
+ */
+export interface AnnouncementEvent {
+  data: string[];
+  block_hash?: string;
+  block_number?: number;
+  transaction_hash?: string;
+}
+
+/**
+ * Split an inclusive block range into consecutive sub-ranges
+ * @param fromBlock - First block (inclusive)
+ * @param toBlock - Last block (inclusive)
+ * @param rangeSize - Maximum number of blocks per sub-range
+ * @returns The sub-ranges in ascending order (empty if fromBlock > toBlock)
+ */
+export function splitBlockRange(
+  fromBlock: number,
+  toBlock: number,
+  rangeSize: number
+): BlockRange[] {
+  if (!Number.isInteger(rangeSize) || rangeSize <= 0) {
+    throw new Error(`Invalid block range size: ${rangeSize}`);
+  }
+
+  const ranges: BlockRange[] = [];
+  for (let start = fromBlock; start <= toBlock; start += rangeSize) {
+    ranges.push({
+      fromBlock: start,
+      toBlock: Math.min(start + rangeSize - 1, toBlock),
+    });
+  }
+  return ranges;
+}
+
+/**
+ * Parse a raw Announcement event into an Announcement
+ * Event data format: [stealth_address, caller, ephemeral_pubkey, view_tag, metadata_len, ...metadata]
+ * @param event - The raw event
+ * @returns The parsed announcement, or null if the event is too short
+ * @throws MalformedAnnouncementError if a field is not a felt or the
+ *   announcement fails validation (see validateAnnouncement)
+ */
+export function parseAnnouncementEvent(
+  event: AnnouncementEvent
+): Announcement | null {
+  const data = event.data;
+  if (data.length < 4) return null;
+
+  const stealthAddress = data[0];
+  // data[1] is caller (not needed for scanning)
+  let ephemeralPubKey: bigint;
+  let viewTag: number;
+  const metadata: bigint[] = [];
+  try {
+    ephemeralPubKey = BigInt(data[2]);
+    viewTag = Number(BigInt(data[3]));
+
+    // Parse metadata (remaining data after the fixed fields)
+    const metadataLen = Number(BigInt(data[4] || "0"));
+    for (let i = 0; i < metadataLen && i + 5 < data.length; i++) {
+      metadata.push(BigInt(data[i + 5]));
+    }
+  } catch (e) {
+    throw new MalformedAnnouncementError(
+      `Malformed announcement event: ${e instanceof Error ? e.message : String(e)}`,
+      event,
+      { cause: e }
+    );
+  }
+
+  const announcement: Announcement = {
+    stealthAddress,
+    ephemeralPubKey,
+    viewTag,
+    metadata,
+    decodedMetadata: tryDecodeMetadata(metadata),
+    blockNumber: event.block_number,
+    transactionHash: event.transaction_hash,
+    blockHash: event.block_hash,
+    // Events without a block number come from the pending block
+    ...(event.block_number === undefined && { finality: "PENDING" as const }),
+  };
+
+  try {
+    validateAnnouncement(announcement);
+  } catch (e) {
+    if (!(e instanceof AmoraError)) throw e;
+    throw new MalformedAnnouncementError(
+      `Malformed announcement event: ${e.message}`,
+      event,
+      { cause: e }
+    );
+  }
+
+  return announcement;
+}
+
+/**
+ * Fetch every announcement emitted by a registry within a block range
+ * @param provider - RPC provider
+ * @param registryAddress - Address of the Amora registry contract
+ * @param fromBlock - Starting block number
+ * @param toBlock - Ending block number (or "latest")
+ * @param options - Paging, concurrency, progress and cancellation options
+ * @returns Announcements in chain order
+ */
+export async function fetchAnnouncementEvents(
+  provider: RpcProvider,
+  registryAddress: string,
+  fromBlock: number,
+  toBlock: number | "latest" = "latest",
+  options: FetchAnnouncementsOptions = {}
+): Promise<Announcement[]> {
+  const {
+    chunkSize = DEFAULT_EVENTS_CHUNK_SIZE,
+    blockRangeSize = DEFAULT_BLOCK_RANGE_SIZE,
+    concurrency = DEFAULT_FETCH_CONCURRENCY,
+    onProgress,
+    signal,
+    onDecodeError,
+  } = options;
+
+  signal?.throwIfAborted();
+
+  const lastBlock =
+    toBlock === "latest" ? await provider.getBlockNumber() : toBlock;
+  signal?.throwIfAborted();
+
+  const ranges = splitBlockRange(fromBlock, lastBlock, blockRangeSize);
+  const totalBlocks = Math.max(lastBlock - fromBlock + 1, 0);
+  const results: Announcement[][] = new Array(ranges.length);
+
+  let completedRanges = 0;
+  let blocksFetched = 0;
+  let announcementsFound = 0;
+
+  const tasks = ranges.map((range, index) => async () => {
+    const announcements = await fetchRange(
+      provider,
+      registryAddress,
+      range,
+      chunkSize,
+      signal,
+      onDecodeError
+    );
+    results[index] = announcements;
+
+    completedRanges++;
+    blocksFetched += range.toBlock - range.fromBlock + 1;
+    announcementsFound += announcements.length;
+    onProgress?.({
+      fromBlock,
+      toBlock: lastBlock,
+      completedRanges,
+      totalRanges: ranges.length,
+      blocksFetched,
+      totalBlocks,
+      announcementsFound,
+    });
+  });
+
+  await runWithConcurrency(tasks, concurrency, signal);
+
+  return results.flat();
+}
+
+/**
+ * Fetch all pages of events within a single sub-range
+ */
+async function fetchRange(
+  provider: RpcProvider,
+  registryAddress: string,
+  range: BlockRange,
+  chunkSize: number,
+  signal: AbortSignal | undefined,
+  onDecodeError: ((error: MalformedAnnouncementError) => void) | undefined
+): Promise<Announcement[]> {
+  const announcements: Announcement[] = [];
+  const eventCounts = new Map<string, number>();
+  let continuationToken: string | undefined;
+
+  do {
+    signal?.throwIfAborted();
+
+    const eventsResponse = await provider.getEvents({
+      from_block: { block_number: range.fromBlock },
+      to_block: { block_number: range.toBlock },
+      address: registryAddress,
+      keys: [],
+      chunk_size: chunkSize,
+      continuation_token: continuationToken,
+    });
+
+    for (const event of eventsResponse.events) {
+      // Index of this event among the registry events of its transaction
+      const txKey = event.transaction_hash ?? "";
+      const eventIndex = eventCounts.get(txKey) ?? 0;
+      eventCounts.set(txKey, eventIndex + 1);
+
+      try {
+        const announcement = parseAnnouncementEvent(event);
+        if (announcement !== null) {
+          announcement.eventIndex = eventIndex;
+          announcements.push(announcement);
+        }
+      } catch (e) {
+        // Skip malformed events, reporting them to the caller
+        if (!(e instanceof MalformedAnnouncementError)) throw e;
+        onDecodeError?.(e);
+      }
+    }
+
+    continuationToken = eventsResponse.continuation_token;
+  } while (continuationToken);
+
+  return announcements;
+}
+
+/**
+ * Run async tasks with at most `limit` in flight at once
+ * @param tasks - The tasks to run
+ * @param limit - Maximum number of tasks in flight
+ * @param signal - Optional signal to stop starting new tasks
+ * @throws The first task error; no new tasks start once one has failed
+ */
+export async function runWithConcurrency(
+  tasks: (() => Promise<void>)[],
+  limit: number,
+  signal: AbortSignal | undefined
+): Promise<void> {
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid concurrency: ${limit}`);
+  }
+
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < tasks.length) {
+      signal?.throwIfAborted();
+      const task = tasks[next++];
+      try {
+        await task();
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from(
+    { length: Math.min(limit, tasks.length) },
+    worker
+  );
+  await Promise.all(workers);
+}
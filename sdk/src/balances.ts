@@ -0,0 +1,146 @@
+/**
+ * Balance discovery for scanned stealth payments
+ *
+ * Reads the current token balance of each payment's stealth address. Reads
+ * are deduplicated per (address, token) and issued concurrently, and the
+ * results are summed per token for a portfolio view. A failed read is
+ * reported on its entries rather than failing the whole call.
+ */
+
+import type { ProviderInterface } from "starknet";
+import type { StealthPayment } from "./stealth";
+import type { ViewingKeyMatch } from "./viewing-key";
+import { runWithConcurrency } from "./announcements";
+import { normalizeAddress } from "./validation";
+
+/**
+ * Default number of balance reads in flight at once
+ */
+export const DEFAULT_BALANCE_CONCURRENCY = 8;
+
+/**
+ * Options for balance discovery
+ */
+export interface GetBalancesOptions {
+  /** Maximum number of balance reads in flight at once */
+  concurrency?: number;
+  /** Signal to cancel the remaining reads */
+  signal?: AbortSignal;
+}
+
+/**
+ * The balance of one token at one payment's stealth address
+ */
+export interface PaymentBalance<T extends StealthPayment | ViewingKeyMatch = StealthPayment> {
+  /** The scanned payment */
+  payment: T;
+  /** The payment's stealth address */
+  stealthAddress: string;
+  /** The token address */
+  token: string;
+  /** The current balance (0 if the read failed) */
+  balance: bigint;
+  /** Why the balance could not be read, if it could not */
+  error?: Error;
+}
+
+/**
+ * Balances of a set of payments
+ */
+export interface BalancesResult<T extends StealthPayment | ViewingKeyMatch = StealthPayment> {
+  /** One entry per (payment, token) pair, in payment order */
+  balances: PaymentBalance<T>[];
+  /** Total balance per token address, over the reads that succeeded */
+  totals: Map<string, bigint>;
+  /** Payments skipped because no token was given and their metadata has none */
+  unknownToken: T[];
+}
+
+/**
+ * Decode a u256 returned by a contract call
+ * Accepts [low, high] arrays, {low, high} objects and plain numbers.
+ * @param value - The raw value
+ * @returns The value as a bigint
+ */
+export function decodeU256(value: unknown): bigint {
+  if (Array.isArray(value)) {
+    return BigInt(value[0]) + (BigInt(value[1] ?? 0) << 128n);
+  }
+  if (typeof value === "object" && value !== null && "low" in value) {
+    const { low, high } = value as { low: bigint; high: bigint };
+    return BigInt(low) + (BigInt(high) << 128n);
+  }
+  return BigInt(value as bigint);
+}
+
+/**
+ * Fetch the current token balances of scanned payments
+ * @param provider - Starknet provider
+ * @param payments - Scanned payments (or viewing key matches)
+ * @param tokens - Tokens to check for every payment (defaults to each payment's metadata token)
+ * @param options - Concurrency and cancellation options
+ * @returns Per-payment balances and per-token totals
+ * @throws If the signal is aborted; failed reads are reported per entry instead
+ */
+export async function fetchPaymentBalances<T extends StealthPayment | ViewingKeyMatch>(
+  provider: ProviderInterface,
+  payments: T[],
+  tokens?: string[],
+  options: GetBalancesOptions = {}
+): Promise<BalancesResult<T>> {
+  const { concurrency = DEFAULT_BALANCE_CONCURRENCY, signal } = options;
+
+  const entries: { payment: T; stealthAddress: string; token: string }[] = [];
+  const unknownToken: T[] = [];
+  for (const payment of payments) {
+    const paymentTokens =
+      tokens ?? (payment.metadata?.token ? [payment.metadata.token] : []);
+    if (paymentTokens.length === 0) {
+      unknownToken.push(payment);
+      continue;
+    }
+    const stealthAddress = normalizeAddress(payment.announcement.stealthAddress);
+    for (const token of paymentTokens) {
+      entries.push({ payment, stealthAddress, token: normalizeAddress(token) });
+    }
+  }
+
+  // One read per distinct (address, token) pair
+  const reads = new Map<string, { balance: bigint; error?: Error }>();
+  for (const { stealthAddress, token } of entries) {
+    reads.set(`${stealthAddress}:${token}`, { balance: 0n });
+  }
+  const tasks = [...reads.keys()].map((key) => async () => {
+    const [stealthAddress, token] = key.split(":");
+    try {
+      const result = await provider.callContract({
+        contractAddress: token,
+        entrypoint: "balanceOf",
+        calldata: [stealthAddress],
+      });
+      reads.set(key, { balance: decodeU256(result) });
+    } catch (error) {
+      signal?.throwIfAborted();
+      reads.set(key, {
+        balance: 0n,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  });
+  await runWithConcurrency(tasks, concurrency, signal);
+
+  const balances: PaymentBalance<T>[] = entries.map((entry) => ({
+    ...entry,
+    ...reads.get(`${entry.stealthAddress}:${entry.token}`)!,
+  }));
+
+  // Sum each distinct (address, token) once, even if payments share an address
+  const totals = new Map<string, bigint>();
+  for (const [key, { balance, error }] of reads) {
+    if (error) continue;
+    const token = key.split(":")[1];
+    totals.set(token, (totals.get(token) ?? 0n) + balance);
+  }
+
+  return { balances, totals, unknownToken };
+}
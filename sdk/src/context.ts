@@ -0,0 +1,77 @@
+/**
+ * Precomputed stealth contexts
+ *
+ * Every stealth operation recovers the recipient's public key points from
+ * their x-coordinates (a field square root). A StealthContext does this once
+ * for a MetaAddress or StealthKeys, and builds a window table for the
+ * viewing key point so senders' ECDH multiplications are faster. The table
+ * costs more than one multiplication, so a context pays off for recipients
+ * paid more than once. The spending point is only added to, so it gets no
+ * table. Contexts are MetaAddresses, so they can be passed anywhere a
+ * MetaAddress is taken.
+ *
+ * Only STARK spending keys are precomputed; a spending key of another scheme
+ * is not a STARK point and is handed to its scheme as is.
+ */
+
+import type { MetaAddress } from "./meta-address";
+import type { StealthKeys } from "./keys";
+import { CHAIN_ID } from "./meta-address";
+import {
+  precomputePoint,
+  recoverPoint,
+  PRECOMPUTE_WINDOW_SIZE,
+  SCHEME_ID_STARK,
+  type CurvePoint,
+} from "./crypto";
+
+/**
+ * A MetaAddress with its recovered (and precomputed) public key points
+ */
+export interface StealthContext extends MetaAddress {
+  /** Recovered spending public key point (STARK scheme only) */
+  spendingPoint?: CurvePoint;
+  /** Recovered viewing public key point, with a window table */
+  viewingPoint: CurvePoint;
+}
+
+/**
+ * Build a precomputed context for a recipient
+ * @param source - The recipient's meta-address or full stealth keys
+ * @param windowSize - Window size for the viewing point's table
+ * @returns The context, reusable across any number of operations
+ */
+export function createStealthContext(
+  source: MetaAddress | StealthKeys,
+  windowSize: number = PRECOMPUTE_WINDOW_SIZE
+): StealthContext {
+  const meta: MetaAddress =
+    "spendingKey" in source
+      ? {
+          chain: CHAIN_ID,
+          spendingPubKey: source.spendingKey.publicKey,
+          viewingPubKey: source.viewingKey.publicKey,
+          ...(source.schemeId !== undefined && { schemeId: source.schemeId }),
+        }
+      : source;
+
+  if (isStealthContext(meta)) {
+    return meta;
+  }
+
+  const isStark = meta.schemeId === undefined || meta.schemeId === BigInt(SCHEME_ID_STARK);
+  return {
+    ...meta,
+    ...(isStark && { spendingPoint: recoverPoint(meta.spendingPubKey, "spending public key") }),
+    viewingPoint: precomputePoint(meta.viewingPubKey, windowSize),
+  };
+}
+
+/**
+ * Check whether a MetaAddress is a precomputed StealthContext
+ * @param meta - The meta-address to check
+ * @returns true if the points are already recovered
+ */
+export function isStealthContext(meta: MetaAddress): meta is StealthContext {
+  return "viewingPoint" in meta;
+}
@@ -12,18 +12,125 @@ import {
   type InvokeFunctionResponse,
   type DeployAccountContractPayload,
   type DeployContractResponse,
+  type EstimateFee,
+  type Invocations,
+  type TypedData,
+  type UniversalDetails,
+  TransactionType,
+  hash,
+  num,
+  stark,
 } from "starknet";
 import type { MetaAddress } from "./meta-address";
-import type { StealthKeys } from "./keys";
-import type { Announcement, GenerateStealthAddressResult } from "./stealth";
+import { importKeys, type StealthKeys } from "./keys";
+import type {
+  Announcement,
+  GenerateStealthAddressResult,
+  ProtocolOptions,
+} from "./stealth";
 import {
   generateStealthAddress,
   scanAnnouncements,
-  computeStealthContractAddress,
   type StealthPayment,
 } from "./stealth";
-import { parseMetaAddress, encodeMetaAddressFromPubKeys } from "./meta-address";
-import { derivePublicKey } from "./crypto";
+import {
+  parseMetaAddress,
+  encodeMetaAddressFromPubKeys,
+  networkFromChainId,
+} from "./meta-address";
+import { isNormalizedPrivateKey } from "./crypto";
+import { getScheme, starkScheme } from "./schemes";
+import {
+  computeAccountAddress,
+  schemeAccountClass,
+  type StealthAccountClass,
+} from "./account-classes";
+import {
+  fetchAnnouncementEvents,
+  type FetchAnnouncementsOptions,
+} from "./announcements";
+import {
+  scanWithViewingKey,
+  type ExportedViewingKey,
+  type ViewingKeyMatch,
+} from "./viewing-key";
+import { createStealthContext, type StealthContext } from "./context";
+import {
+  scanAnnouncementsParallel,
+  type ParallelScanOptions,
+} from "./parallel";
+import {
+  scanAnnouncementsForRecipients,
+  type ScanRecipient,
+  type RecipientMatch,
+} from "./multi-scan";
+import { fetchBlockStatus, type BlockStatus } from "./finality";
+import { encodeMetadata, type MetadataFields } from "./metadata";
+import { encryptMemo } from "./encrypted-memo";
+import {
+  decodeU256,
+  fetchPaymentBalances,
+  type BalancesResult,
+  type GetBalancesOptions,
+} from "./balances";
+import {
+  planSweep,
+  type SweepGroup,
+  type SweepOptions,
+  type SweepPaymentResult,
+  type SweepResult,
+} from "./sweep";
+import {
+  reserveFees,
+  withdrawalFees,
+  withdrawalFeeOptions,
+  type WithdrawalFees,
+} from "./fees";
+import {
+  hasFeeSettings,
+  toTransactionDetails,
+  type TransactionOptions,
+} from "./transactions";
+import {
+  AccountNotDeployedError,
+  InsufficientBalanceError,
+  NetworkMismatchError,
+  UnsupportedAccountClassError,
+  UnresolvedNetworkError,
+  MetaAddressConflictError,
+  UntaggedMetadataError,
+  UnregistrableKeysError,
+  AccountClassNotFoundError,
+  AccountClassMismatchError,
+  InvalidTransactionOptionsError,
+  OutOfRangeError,
+  UnexpectedResponseError,
+} from "./errors";
+import {
+  feeBreakdown,
+  predictAnnouncements,
+  summarizeFees,
+  summarizeSimulation,
+  type OperationEstimate,
+  type OperationSimulation,
+  type WithdrawalEstimate,
+  type WithdrawalSimulation,
+} from "./estimate";
+import type {
+  PaymasterClient,
+  PaymasterDeployment,
+  PaymasterFeeMode,
+} from "./paymaster";
+import {
+  getKeyDerivationTypedData,
+  keysFromSignature,
+} from "./signature-keys";
+import {
+  AmoraWatcher,
+  isEventSubscriptionSource,
+  type EventSubscriptionSource,
+  type WatchOptions,
+} from "./watcher";
 
 /**
  * Minimal ERC20 ABI for balance queries and transfers
@@ -106,8 +213,72 @@ export interface AmoraConfig {
   provider: Provider | RpcProvider;
   /** Address of the deployed Amora registry contract */
   amoraAddress: string;
-  /** Class hash of the stealth account contract */
-  accountClassHash: string;
+  /**
+   * Class hash of the stealth account contract (STARK scheme, constructor
+   * `[public_key]`)
+   */
+  accountClassHash?: string;
+  /**
+   * Class hashes of the stealth accounts of other schemes, by scheme name,
+   * e.g. `{ secp256k1: "0x..." }`, each with its scheme's default layout
+   */
+  accountClassHashes?: Record<string, string>;
+  /**
+   * Stealth account classes with other layouts (see defineAccountClass).
+   * They follow the class hashes above: new stealth addresses use the first
+   * class of their scheme, and scanning matches any of them.
+   */
+  accountClasses?: StealthAccountClass[];
+  /**
+   * Paymaster for deployStealthAccount and deployAndWithdraw (omit to pay
+   * gas from the stealth account itself)
+   */
+  paymaster?: PaymasterClient;
+  /**
+   * Network v2 meta-addresses must belong to, e.g. "SN_MAIN" (default: the
+   * provider's chain, once resolved by getNetwork)
+   */
+  network?: string;
+  /** Stealth protocol for generated stealth addresses (default: v1) */
+  protocol?: ProtocolOptions;
+}
+
+/**
+ * Options for opening a stealth account (withdrawals and deployments)
+ */
+export interface StealthAccountOptions extends TransactionOptions {
+  /** Stealth scheme of the account's key (default: STARK; see StealthPayment.schemeId) */
+  schemeId?: bigint;
+  /**
+   * Class hash of the account (default: the scheme's first account class;
+   * see StealthPayment.accountClassHash)
+   */
+  accountClassHash?: string;
+}
+
+/**
+ * Options for Amora.deployAndWithdraw
+ */
+export interface WithdrawOptions extends StealthAccountOptions {
+  /**
+   * How the paymaster is paid, when one is configured (default: its fee is
+   * taken in the withdrawn token)
+   */
+  feeMode?: PaymasterFeeMode;
+}
+
+/**
+ * Metadata attached to a payment (token and amount are filled in automatically)
+ */
+export interface PaymentMetadata
+  extends Omit<
+    MetadataFields,
+    "token" | "amount" | "memo" | "encryptedMemo" | "protocol" | "schemeId"
+  > {
+  /** Memo for the recipient, encrypted so only they can read it */
+  memo?: string;
+  /** Publish the memo in plaintext instead of encrypting it */
+  publicMemo?: boolean;
 }
 
 /**
@@ -120,8 +291,8 @@ export interface BatchPayment {
   tokenAddress: string;
   /** Amount to send */
   amount: bigint;
-  /** Optional additional metadata */
-  metadata?: bigint[];
+  /** Optional metadata fields (or legacy raw felts) */
+  metadata?: PaymentMetadata | bigint[];
 }
 
 /**
@@ -134,17 +305,96 @@ export interface BatchSendResult {
   stealthResults: GenerateStealthAddressResult[];
 }
 
+/**
+ * Options for Amora.batchSend and its estimate and simulation
+ */
+export interface BatchSendOptions extends TransactionOptions {
+  /**
+   * Stealth address results to pay, one per payment (default: fresh ones);
+   * pass those of an estimate or simulation to send the previewed transaction
+   */
+  stealthResults?: GenerateStealthAddressResult[];
+}
+
+/**
+ * Estimated batch send, with the stealth addresses it pays
+ */
+export interface BatchSendEstimate extends OperationEstimate {
+  /** The stealth address results for each payment */
+  stealthResults: GenerateStealthAddressResult[];
+}
+
+/**
+ * Simulated batch send, with the stealth addresses it pays
+ */
+export interface BatchSendSimulation extends OperationSimulation {
+  /** The stealth address results for each payment */
+  stealthResults: GenerateStealthAddressResult[];
+}
+
+/**
+ * Options for Amora.scan
+ */
+export interface ScanOptions extends FetchAnnouncementsOptions {
+  /** Scan on worker threads (true for defaults) */
+  parallel?: boolean | ParallelScanOptions;
+}
+
+/**
+ * Parity of the keys behind a registered meta-address (see Amora.checkKeyParity)
+ */
+export interface KeyParityReport {
+  /** Whether the address has a registered meta-address */
+  registered: boolean;
+  /** Whether the registered meta-address holds these keys' public keys */
+  matchesKeys: boolean;
+  /** Whether the spending key's public key has an even y-coordinate */
+  spendingKeyNormalized: boolean;
+  /**
+   * Whether the viewing key's public key has an even y-coordinate (its
+   * parity does not affect stealth private keys)
+   */
+  viewingKeyNormalized: boolean;
+  /**
+   * Whether the registered meta-address was built from a non-normalized
+   * spending key, so the keys must be migrated (see Amora.migrateKeys)
+   */
+  needsMigration: boolean;
+}
+
+/**
+ * Result of Amora.migrateKeys
+ */
+export interface KeyMigrationResult {
+  /** The normalized keys to use from now on */
+  keys: StealthKeys;
+  /** Parity of the keys before migration */
+  report: KeyParityReport;
+  /** The registration, when the account had no meta-address registered */
+  transactionResponse?: InvokeFunctionResponse;
+}
+
 /**
  * Main Amora SDK class for interacting with stealth addresses
  */
 export class Amora {
   private readonly provider: Provider | RpcProvider;
   private readonly amoraContract: Contract;
-  private readonly accountClassHash: string;
+  private readonly accountClassHash?: string;
+  private readonly accountClassHashes: Record<string, string>;
+  private readonly accountClasses: StealthAccountClass[];
+  private readonly paymaster?: PaymasterClient;
+  private readonly protocol: ProtocolOptions;
+  private network?: string;
 
   constructor(config: AmoraConfig) {
     this.provider = config.provider;
     this.accountClassHash = config.accountClassHash;
+    this.accountClassHashes = config.accountClassHashes ?? {};
+    this.accountClasses = config.accountClasses ?? [];
+    this.paymaster = config.paymaster;
+    this.protocol = config.protocol ?? {};
+    this.network = config.network;
     this.amoraContract = new Contract(
       AMORA_ABI,
       config.amoraAddress,
@@ -154,25 +404,99 @@ export class Amora {
 
   /**
    * Register a meta-address (spending + viewing public keys)
+   *
+   * When no keys are given, they are derived from the account's signature
+   * over the key derivation message (see deriveKeysFromAccount), so the
+   * account can regenerate them at any time.
+   *
    * @param account - The account to register from
-   * @param keys - The stealth keys to register
+   * @param keys - The stealth keys to register (defaults to signature-derived keys)
    * @returns The transaction response
+   * @throws AccountNotDeployedError if the account is not deployed
+   * @throws UnregistrableKeysError if the keys are not STARK keys
    */
   async register(
     account: Account,
-    keys: StealthKeys
+    keys?: StealthKeys
   ): Promise<InvokeFunctionResponse> {
+    keys ??= await this.deriveKeysFromAccount(account);
+    return withDeployedAccount(account.address, () =>
+      account.execute([this.buildRegisterCall(keys)])
+    );
+  }
+
+  /**
+   * Estimate the fee of registering a meta-address
+   * @param account - The account to register from
+   * @param keys - The stealth keys to register (defaults to signature-derived keys)
+   * @returns The fee breakdown
+   * @throws UnregistrableKeysError if the keys are not STARK keys
+   */
+  async estimateRegister(
+    account: Account,
+    keys?: StealthKeys
+  ): Promise<OperationEstimate> {
+    keys ??= await this.deriveKeysFromAccount(account);
+    return this.estimateInvoke(account, [this.buildRegisterCall(keys)], {});
+  }
+
+  /**
+   * Simulate registering a meta-address
+   * @param account - The account to register from
+   * @param keys - The stealth keys to register (defaults to signature-derived keys)
+   * @returns The fee breakdown and whether the registration would succeed
+   * @throws UnregistrableKeysError if the keys are not STARK keys
+   */
+  async simulateRegister(
+    account: Account,
+    keys?: StealthKeys
+  ): Promise<OperationSimulation> {
+    keys ??= await this.deriveKeysFromAccount(account);
+    return this.simulateInvoke(account, [this.buildRegisterCall(keys)], {});
+  }
+
+  /**
+   * Build the call registering a meta-address
+   */
+  private buildRegisterCall(keys: StealthKeys): Call {
+    // The registry records no scheme, so it can only hold STARK keys
+    const scheme = getScheme(keys.schemeId);
+    if (scheme !== starkScheme) {
+      throw new UnregistrableKeysError(
+        `Cannot register ${scheme.name} keys: the registry holds STARK keys only. ` +
+          "Share a v2 meta-address (encodeMetaAddress) instead",
+        scheme.id
+      );
+    }
+
     // Format as hex strings for proper felt252 encoding
     const spendingHex = "0x" + keys.spendingKey.publicKey.toString(16);
     const viewingHex = "0x" + keys.viewingKey.publicKey.toString(16);
 
-    const call: Call = {
+    return {
       contractAddress: this.amoraContract.address,
       entrypoint: "register_keys",
       calldata: [spendingHex, viewingHex],
     };
+  }
 
-    return account.execute([call]);
+  /**
+   * Get the key derivation message for the provider's chain
+   * @returns The SNIP-12 typed data an account signs to derive its stealth keys
+   */
+  async getKeyDerivationTypedData(): Promise<TypedData> {
+    return getKeyDerivationTypedData(await this.provider.getChainId());
+  }
+
+  /**
+   * Derive an account's stealth keys from its signature
+   * Prompts the wallet to sign the key derivation message.
+   * @param account - The account to sign with
+   * @returns The derived stealth keys (the same every time for this account)
+   */
+  async deriveKeysFromAccount(account: Account): Promise<StealthKeys> {
+    const typedData = await this.getKeyDerivationTypedData();
+    return keysFromSignature(await account.signMessage(typedData));
   }
 
   /**
@@ -211,20 +535,222 @@ export class Amora {
     return result as boolean;
   }
 
+  /**
+   * Check whether a registered meta-address was built from non-normalized keys
+   *
+   * Public keys are recovered with even y, so stealth private keys derived
+   * from a spending key whose public key has odd y do not control their
+   * stealth addresses. Such keys register the same meta-address as their
+   * normalized counterparts, so only the private keys reveal the problem.
+   * A viewing key of either parity derives the same shared secrets, so it
+   * does not need migrating. The spending key's parity is checked on the
+   * curve of its scheme.
+   * @param registrantAddress - The registered address
+   * @param keys - The keys the meta-address was registered from
+   * @returns The parity report
+   * @throws UnsupportedSchemeError if the keys' scheme is not registered
+   */
+  async checkKeyParity(
+    registrantAddress: string,
+    keys: StealthKeys
+  ): Promise<KeyParityReport> {
+    const meta = await this.getMetaAddress(registrantAddress);
+    const matchesKeys =
+      meta !== null &&
+      meta.spendingPubKey === keys.spendingKey.publicKey &&
+      meta.viewingPubKey === keys.viewingKey.publicKey;
+    const spendingKey = keys.spendingKey.privateKey;
+    const spendingKeyNormalized =
+      getScheme(keys.schemeId).normalizeSpendingKey(spendingKey) === spendingKey;
+    const viewingKeyNormalized = isNormalizedPrivateKey(keys.viewingKey.privateKey);
+    return {
+      registered: meta !== null,
+      matchesKeys,
+      spendingKeyNormalized,
+      viewingKeyNormalized,
+      needsMigration: matchesKeys && !spendingKeyNormalized,
+    };
+  }
+
+  /**
+   * Migrate an account's keys to their normalized form
+   *
+   * Normalizing never changes a public key, so a meta-address registered
+   * from the non-normalized keys stays registered as is. The normalized
+   * keys are registered only when the account has no meta-address
+   * registered; one of other keys is never replaced. Rescan with the
+   * returned keys to derive stealth private keys that control payments
+   * received so far.
+   * @param account - The registered account
+   * @param keys - The account's current stealth keys
+   * @param options - Fee token and fee limits of the registration
+   * @returns The normalized keys, the parity report and any registration
+   * @throws MetaAddressConflictError if the account has a meta-address of
+   *   other keys registered
+   * @throws AccountNotDeployedError if a registration is needed and the account is not deployed
+   */
+  async migrateKeys(
+    account: Account,
+    keys: StealthKeys,
+    options: TransactionOptions = {}
+  ): Promise<KeyMigrationResult> {
+    const report = await this.checkKeyParity(account.address, keys);
+    const migrated = importKeys(keys.spendingKey.privateKey, keys.viewingKey.privateKey, {
+      schemeId: keys.schemeId,
+    }).keys;
+    if (report.matchesKeys) {
+      return { keys: migrated, report };
+    }
+    if (report.registered) {
+      throw new MetaAddressConflictError(account.address);
+    }
+    const transactionResponse = await withDeployedAccount(account.address, () =>
+      account.execute([this.buildRegisterCall(migrated)], toTransactionDetails(options))
+    );
+    return { keys: migrated, report, transactionResponse };
+  }
+
+  /**
+   * Get the network of the connected provider
+   * Resolved from the provider's chain ID on first use, unless set in the config.
+   * @returns The network name, e.g. "SN_MAIN" or "SN_SEPOLIA"
+   */
+  async getNetwork(): Promise<string> {
+    this.network ??= networkFromChainId(await this.provider.getChainId());
+    return this.network;
+  }
+
+  /**
+   * Encode a v2 meta-address for the connected network
+   * @param keys - The stealth keys to encode
+   * @param schemeId - Optional stealth scheme ID to include (default: the
+   *   keys' scheme, if not STARK)
+   * @returns The encoded meta-address string
+   */
+  async encodeMetaAddress(keys: StealthKeys, schemeId?: bigint): Promise<string> {
+    return encodeMetaAddressFromPubKeys(
+      keys.spendingKey.publicKey,
+      keys.viewingKey.publicKey,
+      { network: await this.getNetwork(), schemeId: schemeId ?? keys.schemeId }
+    );
+  }
+
   /**
    * Generate a stealth address for sending to a recipient
+   *
+   * A v2 meta-address must belong to the connected network. It is checked
+   * here once the network is known (set in the config or resolved by an
+   * earlier call); otherwise send, estimateSend and simulateSend resolve the
+   * network and check the result's `network` before sending.
    * @param recipientMetaAddress - The recipient's meta-address (string or parsed)
+   * @param protocol - Protocol version and view tag width (default: the
+   *   config's `protocol`)
    * @returns The stealth address generation result
+   * @throws NetworkMismatchError if the meta-address is for another network
+   * @throws UnsupportedSchemeError if the meta-address's scheme is not registered
+   * @throws InvalidProtocolError if the version or view tag width is unsupported
+   * @throws AccountClassNotFoundError if no account class is configured for the scheme
    */
   generateStealthAddress(
-    recipientMetaAddress: string | MetaAddress
+    recipientMetaAddress: string | MetaAddress,
+    protocol: ProtocolOptions = this.protocol
   ): GenerateStealthAddressResult {
     const meta =
       typeof recipientMetaAddress === "string"
         ? parseMetaAddress(recipientMetaAddress)
         : recipientMetaAddress;
+    if (this.network !== undefined) {
+      this.checkNetwork(meta.network);
+    }
+
+    return generateStealthAddress(meta, this.accountClassesFor(meta.schemeId)[0], protocol);
+  }
 
-    return generateStealthAddress(meta, this.accountClassHash);
+  /**
+   * Get the stealth account classes of a stealth scheme
+   * @param schemeId - The scheme ID (default: STARK)
+   * @returns The class of the config's `accountClassHash` (STARK) or of the
+   *   `accountClassHashes` entry named after the scheme, then the scheme's
+   *   `accountClasses`
+   * @throws UnsupportedSchemeError if the scheme is not registered
+   * @throws AccountClassNotFoundError if no account class is configured for the scheme
+   */
+  accountClassesFor(schemeId?: bigint): StealthAccountClass[] {
+    const scheme = getScheme(schemeId);
+    const classHash =
+      scheme === starkScheme ? this.accountClassHash : this.accountClassHashes[scheme.name];
+    const classes = [
+      ...(classHash !== undefined ? [schemeAccountClass(classHash, scheme.id)] : []),
+      ...this.accountClasses.filter((accountClass) => accountClass.schemeId === scheme.id),
+    ];
+    if (classes.length === 0) {
+      const option =
+        scheme === starkScheme ? "accountClassHash" : `accountClassHashes.${scheme.name}`;
+      throw new AccountClassNotFoundError(
+        `No stealth account class hash configured for the ${scheme.name} scheme ` +
+          `(set ${option} or accountClasses in the Amora config)`,
+        scheme.id
+      );
+    }
+    return classes;
+  }
+
+  /**
+   * Get the class hash new stealth addresses of a stealth scheme use
+   * @param schemeId - The scheme ID (default: STARK)
+   * @returns The class hash of the scheme's first account class
+   * @throws UnsupportedSchemeError if the scheme is not registered
+   * @throws AccountClassNotFoundError if no account class is configured for the scheme
+   */
+  accountClassHashFor(schemeId?: bigint): string {
+    return this.accountClassesFor(schemeId)[0].classHash;
+  }
+
+  /**
+   * Find the configured account class of a stealth account
+   */
+  private accountClassOf(schemeId?: bigint, classHash?: string): StealthAccountClass {
+    const classes = this.accountClassesFor(schemeId);
+    if (classHash === undefined) {
+      return classes[0];
+    }
+    const accountClass = classes.find(
+      (candidate) => BigInt(candidate.classHash) === BigInt(classHash)
+    );
+    if (accountClass === undefined) {
+      const scheme = getScheme(schemeId);
+      throw new AccountClassNotFoundError(
+        `No ${scheme.name} stealth account class with class hash ${classHash} is configured`,
+        scheme.id,
+        classHash
+      );
+    }
+    return accountClass;
+  }
+
+  /**
+   * Check that a v2 meta-address's network is the connected network
+   */
+  private checkNetwork(network: string | undefined): void {
+    if (network === undefined) {
+      // v1 meta-addresses carry no network
+      return;
+    }
+    if (this.network === undefined) {
+      throw new UnresolvedNetworkError();
+    }
+    if (network !== this.network) {
+      throw new NetworkMismatchError(this.network, network);
+    }
+  }
+
+  /**
+   * Resolve the connected network when a stealth address is for a v2 meta-address
+   */
+  private async resolveNetworkOf(stealthResult: GenerateStealthAddressResult): Promise<void> {
+    if (stealthResult.network !== undefined) {
+      await this.getNetwork();
+    }
   }
 
   /**
@@ -232,15 +758,36 @@ export class Amora {
    * @param tokenAddress - The token contract address (ETH or ERC20)
    * @param amount - The amount to send (as bigint)
    * @param stealthResult - The result from generateStealthAddress
-   * @param metadata - Optional metadata to include in announcement
+   * @param metadata - Optional metadata fields (memo, invoice reference, ...) to
+   *   include in the announcement. A raw felt array is written in the legacy
+   *   untagged layout [token, amount, ...metadata]. A v2 stealth result adds
+   *   its protocol field, and a result for a scheme other than STARK its
+   *   scheme field, so they need tagged metadata.
    * @returns Array of calls to execute
+   * @throws NetworkMismatchError if the stealth result is for another network
+   * @throws UnresolvedNetworkError if it is for a v2 meta-address and the
+   *   network is not known yet
+   * @throws UntaggedMetadataError if a v2 or non-STARK stealth result is sent
+   *   with raw felt metadata
    */
   buildSendCalls(
     tokenAddress: string,
     amount: bigint,
     stealthResult: GenerateStealthAddressResult,
-    metadata: bigint[] = []
+    metadata: PaymentMetadata | bigint[] = {}
   ): Call[] {
+    this.checkNetwork(stealthResult.network);
+    if (stealthResult.protocol !== undefined && Array.isArray(metadata)) {
+      throw new UntaggedMetadataError(
+        "A v2 stealth address needs tagged metadata to carry its protocol field"
+      );
+    }
+    if (stealthResult.schemeId !== undefined && Array.isArray(metadata)) {
+      throw new UntaggedMetadataError(
+        "A non-STARK stealth address needs tagged metadata to carry its scheme field"
+      );
+    }
+
     // Transfer call
     const transferCall: Call = {
       contractAddress: tokenAddress,
@@ -252,7 +799,9 @@ export class Amora {
     };
 
     // Announcement call with token info in metadata
-    const fullMetadata = [BigInt(tokenAddress), amount, ...metadata];
+    const fullMetadata = Array.isArray(metadata)
+      ? [BigInt(tokenAddress), amount, ...metadata]
+      : encodePaymentMetadata(tokenAddress, amount, stealthResult, metadata);
     const announceCall: Call = {
       contractAddress: this.amoraContract.address,
       entrypoint: "announce",
@@ -273,81 +822,154 @@ export class Amora {
    * @param tokenAddress - The token contract address
    * @param amount - The amount to send
    * @param stealthResult - The result from generateStealthAddress
-   * @param metadata - Optional additional metadata
+   * @param metadata - Optional metadata fields (or legacy raw felts)
+   * @param options - Fee token and fee limits
    * @returns The transaction response
+   * @throws AccountNotDeployedError if the account is not deployed
+   * @throws NetworkMismatchError if the stealth result is for another network
    */
   async send(
     account: Account,
     tokenAddress: string,
     amount: bigint,
     stealthResult: GenerateStealthAddressResult,
-    metadata: bigint[] = []
+    metadata: PaymentMetadata | bigint[] = {},
+    options: TransactionOptions = {}
   ): Promise<InvokeFunctionResponse> {
+    await this.resolveNetworkOf(stealthResult);
     const calls = this.buildSendCalls(
       tokenAddress,
       amount,
       stealthResult,
       metadata
     );
-    return account.execute(calls);
+    return withDeployedAccount(account.address, () =>
+      account.execute(calls, toTransactionDetails(options))
+    );
+  }
+
+  /**
+   * Estimate the fee of sending tokens to a stealth address
+   * @param account - The sender's account
+   * @param tokenAddress - The token contract address
+   * @param amount - The amount to send
+   * @param stealthResult - The result from generateStealthAddress
+   * @param metadata - Optional metadata fields (or legacy raw felts)
+   * @param options - Fee token and fee limits
+   * @returns The fee breakdown and the announcement the payment emits
+   */
+  async estimateSend(
+    account: Account,
+    tokenAddress: string,
+    amount: bigint,
+    stealthResult: GenerateStealthAddressResult,
+    metadata: PaymentMetadata | bigint[] = {},
+    options: TransactionOptions = {}
+  ): Promise<OperationEstimate> {
+    await this.resolveNetworkOf(stealthResult);
+    const calls = this.buildSendCalls(tokenAddress, amount, stealthResult, metadata);
+    return this.estimateInvoke(account, calls, options);
+  }
+
+  /**
+   * Simulate sending tokens to a stealth address
+   * @param account - The sender's account
+   * @param tokenAddress - The token contract address
+   * @param amount - The amount to send
+   * @param stealthResult - The result from generateStealthAddress
+   * @param metadata - Optional metadata fields (or legacy raw felts)
+   * @param options - Fee token and fee limits
+   * @returns The fee breakdown, the emitted announcement and whether the
+   *   payment would succeed
+   */
+  async simulateSend(
+    account: Account,
+    tokenAddress: string,
+    amount: bigint,
+    stealthResult: GenerateStealthAddressResult,
+    metadata: PaymentMetadata | bigint[] = {},
+    options: TransactionOptions = {}
+  ): Promise<OperationSimulation> {
+    await this.resolveNetworkOf(stealthResult);
+    const calls = this.buildSendCalls(tokenAddress, amount, stealthResult, metadata);
+    return this.simulateInvoke(account, calls, options);
+  }
+
+  /**
+   * Estimate the fee of an invoke transaction
+   */
+  private async estimateInvoke(
+    account: Account,
+    calls: Call[],
+    options: TransactionOptions
+  ): Promise<OperationEstimate> {
+    const details = toTransactionDetails(options);
+    const estimate = await withDeployedAccount(account.address, () =>
+      account.estimateInvokeFee(calls, details)
+    );
+    return summarizeFees(
+      [feeBreakdown("INVOKE", estimate, details)],
+      predictAnnouncements(calls, this.amoraContract.address, account.address)
+    );
+  }
+
+  /**
+   * Simulate an invoke transaction
+   */
+  private async simulateInvoke(
+    account: Account,
+    calls: Call[],
+    options: TransactionOptions
+  ): Promise<OperationSimulation> {
+    const details = toTransactionDetails(options);
+    const simulated = await withDeployedAccount(account.address, () =>
+      account.simulateTransaction(
+        [{ type: TransactionType.INVOKE, payload: calls }],
+        details
+      )
+    );
+    return summarizeSimulation(simulated, this.amoraContract.address, details);
   }
 
   /**
    * Fetch announcements from the blockchain
+   *
+   * Wide ranges are split into sub-ranges and every page of events is
+   * followed, so the result is complete regardless of the RPC page size.
    * @param fromBlock - Starting block number
    * @param toBlock - Ending block number (or "latest")
+   * @param options - Paging, concurrency, progress and cancellation options
    * @returns Array of parsed announcements
    */
   async fetchAnnouncements(
     fromBlock: number,
-    toBlock: number | "latest" = "latest"
+    toBlock: number | "latest" = "latest",
+    options: FetchAnnouncementsOptions = {}
   ): Promise<Announcement[]> {
-    const provider = this.provider as RpcProvider;
-
-    const eventsResponse = await provider.getEvents({
-      from_block: { block_number: fromBlock },
-      to_block: toBlock === "latest" ? "latest" : { block_number: toBlock },
-      address: this.amoraContract.address,
-      keys: [],
-      chunk_size: 1000,
-    });
-
-    const announcements: Announcement[] = [];
-
-    for (const event of eventsResponse.events) {
-      try {
-        // Parse the event data
-        // Event data format: [stealth_address, caller, ephemeral_pubkey, view_tag, metadata_len, ...metadata]
-        const data = event.data;
-        if (data.length < 4) continue;
-
-        const stealthAddress = data[0];
-        // data[1] is caller (not needed for scanning)
-        const ephemeralPubKey = BigInt(data[2]);
-        const viewTag = Number(BigInt(data[3]));
-
-        // Parse metadata (remaining data after the fixed fields)
-        const metadataLen = Number(BigInt(data[4] || "0"));
-        const metadata: bigint[] = [];
-        for (let i = 0; i < metadataLen && i + 5 < data.length; i++) {
-          metadata.push(BigInt(data[i + 5]));
-        }
+    return fetchAnnouncementEvents(
+      this.provider as RpcProvider,
+      this.amoraContract.address,
+      fromBlock,
+      toBlock,
+      options
+    );
+  }
 
-        announcements.push({
-          stealthAddress,
-          ephemeralPubKey,
-          viewTag,
-          metadata,
-          blockNumber: event.block_number,
-          transactionHash: event.transaction_hash,
-        });
-      } catch (e) {
-        // Skip malformed events
-        console.warn("Failed to parse announcement event:", e);
-      }
-    }
+  /**
+   * Get the number of the latest accepted block
+   * @returns The block number
+   */
+  async getBlockNumber(): Promise<number> {
+    return (this.provider as RpcProvider).getBlockNumber();
+  }
 
-    return announcements;
+  /**
+   * Get the hash and finality status of a block
+   * @param blockNumber - The block number
+   * @returns The block status, or null if the block is not on the canonical chain
+   */
+  async getBlockStatus(blockNumber: number): Promise<BlockStatus | null> {
+    return fetchBlockStatus(this.provider as RpcProvider, blockNumber);
   }
 
   /**
@@ -355,98 +977,728 @@ export class Amora {
    * @param keys - The recipient's stealth keys
    * @param fromBlock - Starting block number
    * @param toBlock - Ending block number (or "latest")
+   * @param options - Fetch options, plus `parallel` to scan on workers
+   *   (workers only take a class hash, so a scheme with account classes
+   *   from `accountClasses` is scanned on the calling thread)
    * @returns Array of matched stealth payments
    */
   async scan(
     keys: StealthKeys,
     fromBlock: number,
-    toBlock: number | "latest" = "latest"
+    toBlock: number | "latest" = "latest",
+    options: ScanOptions = {}
   ): Promise<StealthPayment[]> {
-    const announcements = await this.fetchAnnouncements(fromBlock, toBlock);
+    const { parallel, ...fetchOptions } = options;
+    const announcements = await this.fetchAnnouncements(
+      fromBlock,
+      toBlock,
+      fetchOptions
+    );
+
+    const accountClasses = this.accountClassesFor(keys.schemeId);
+    const [{ schemeId, classHash }] = accountClasses;
+    if (parallel && !this.accountClasses.some((accountClass) => accountClass.schemeId === schemeId)) {
+      return scanAnnouncementsParallel(
+        announcements,
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        classHash,
+        { ...(parallel === true ? {} : parallel), schemeId: keys.schemeId }
+      );
+    }
 
     return scanAnnouncements(
       announcements,
       keys.viewingKey.privateKey,
       keys.spendingKey.publicKey,
       keys.spendingKey.privateKey,
-      this.accountClassHash
+      accountClasses,
+      keys.schemeId
+    );
+  }
+
+  /**
+   * Scan for payments using a viewing key (watch-only)
+   * @param viewingKey - The exported viewing key
+   * @param fromBlock - Starting block number
+   * @param toBlock - Ending block number (or "latest")
+   * @param options - Options forwarded to fetchAnnouncements
+   * @returns Array of matched announcements with shared secrets
+   */
+  async scanWithViewingKey(
+    viewingKey: ExportedViewingKey,
+    fromBlock: number,
+    toBlock: number | "latest" = "latest",
+    options: FetchAnnouncementsOptions = {}
+  ): Promise<ViewingKeyMatch[]> {
+    const announcements = await this.fetchAnnouncements(
+      fromBlock,
+      toBlock,
+      options
+    );
+
+    return scanWithViewingKey(
+      announcements,
+      viewingKey,
+      this.accountClassesFor(viewingKey.schemeId)
     );
   }
 
+  /**
+   * Scan for payments addressed to any of many recipients
+   *
+   * Fetches the announcements once and checks them against every recipient.
+   * @param recipients - The recipients (full keys or viewing keys) with their IDs
+   * @param fromBlock - Starting block number
+   * @param toBlock - Ending block number (or "latest")
+   * @param options - Options forwarded to fetchAnnouncements
+   * @returns Matches tagged by recipient ID
+   */
+  async scanForRecipients(
+    recipients: ScanRecipient[],
+    fromBlock: number,
+    toBlock: number | "latest" = "latest",
+    options: FetchAnnouncementsOptions = {}
+  ): Promise<RecipientMatch[]> {
+    const announcements = await this.fetchAnnouncements(
+      fromBlock,
+      toBlock,
+      options
+    );
+
+    // Each recipient is matched against the classes of its scheme
+    const schemeIds = new Set(
+      recipients
+        .filter((recipient) => recipient.accountClassHash === undefined)
+        .map((recipient) => getScheme(recipient.keys.schemeId).id)
+    );
+    return scanAnnouncementsForRecipients(
+      announcements,
+      recipients,
+      [...schemeIds].flatMap((schemeId) => this.accountClassesFor(schemeId))
+    );
+  }
+
+  /**
+   * Watch for incoming payments as new blocks land
+   *
+   * Uses the provider's event subscription when it has one (or
+   * `options.subscription`), and polls otherwise.
+   * @param keys - The recipient's stealth keys
+   * @param options - Start block, payment callback and transport options
+   * @returns The running watcher; call stop() to end it
+   */
+  watch(
+    keys: StealthKeys,
+    options: WatchOptions<StealthPayment>
+  ): AmoraWatcher<StealthPayment> {
+    const accountClasses = this.accountClassesFor(keys.schemeId);
+    return new AmoraWatcher(
+      this,
+      (announcements) =>
+        scanAnnouncements(
+          announcements,
+          keys.viewingKey.privateKey,
+          keys.spendingKey.publicKey,
+          keys.spendingKey.privateKey,
+          accountClasses,
+          keys.schemeId
+        ),
+      options,
+      this.resolveSubscription(options)
+    );
+  }
+
+  /**
+   * Watch for incoming payments using a viewing key (watch-only)
+   * @param viewingKey - The exported viewing key
+   * @param options - Start block, match callback and transport options
+   * @returns The running watcher; call stop() to end it
+   */
+  watchWithViewingKey(
+    viewingKey: ExportedViewingKey,
+    options: WatchOptions<ViewingKeyMatch>
+  ): AmoraWatcher<ViewingKeyMatch> {
+    const accountClasses = this.accountClassesFor(viewingKey.schemeId);
+    return new AmoraWatcher(
+      this,
+      (announcements) =>
+        scanWithViewingKey(announcements, viewingKey, accountClasses),
+      options,
+      this.resolveSubscription(options)
+    );
+  }
+
+  /**
+   * Pick the event subscription source for a watcher, if any
+   */
+  private resolveSubscription<T>(
+    options: WatchOptions<T>
+  ): EventSubscriptionSource | null {
+    if (options.subscription) return options.subscription;
+    return isEventSubscriptionSource(this.provider) ? this.provider : null;
+  }
+
+  /**
+   * Get the current token balances of scanned payments
+   *
+   * Reads are deduplicated and batched. Without `tokens`, each payment is
+   * checked for the token recorded in its announcement metadata.
+   * @param payments - Scanned payments (or viewing key matches)
+   * @param tokens - Tokens to check for every payment
+   * @param options - Concurrency and cancellation options
+   * @returns Per-payment balances and per-token totals
+   */
+  async getBalances<T extends StealthPayment | ViewingKeyMatch>(
+    payments: T[],
+    tokens?: string[],
+    options: GetBalancesOptions = {}
+  ): Promise<BalancesResult<T>> {
+    return fetchPaymentBalances(this.provider, payments, tokens, options);
+  }
+
   /**
    * Deploy a stealth account and withdraw funds
+   *
+   * With "all", the deployment and withdrawal fees are estimated first and,
+   * when they are paid in the withdrawn token, reserved from the balance, so
+   * an account holding only ETH or STRK can still be emptied. Without fee
+   * settings, a STRK withdrawal pays its fees in STRK.
+   *
+   * With a paymaster configured, the deployment and withdrawal are sent as
+   * one paymaster transaction and the account pays no gas itself. The
+   * account signs it as an outside execution (SNIP-9), so its class must
+   * implement one.
    * @param stealthPrivateKey - The stealth private key
    * @param destinationAddress - Where to send the funds
    * @param tokenAddress - The token to withdraw
-   * @param amount - The amount to withdraw (or "all" to withdraw everything)
+   * @param amount - The amount to withdraw (or "all" to withdraw everything
+   *   the fees leave)
+   * @param options - Fee token and fee limits, or the paymaster fee mode, and
+   *   the account's scheme and class
    * @returns The transaction response
+   * @throws InsufficientBalanceError if withdrawing "all" and the balance
+   *   cannot cover the fees
+   * @throws UnsupportedAccountClassError if withdrawing through a paymaster
+   *   from an account class without outside execution
+   * @throws AccountClassNotFoundError if the account's class is not configured
    */
   async deployAndWithdraw(
     stealthPrivateKey: bigint,
     destinationAddress: string,
     tokenAddress: string,
-    amount: bigint | "all"
+    amount: bigint | "all",
+    options: WithdrawOptions = {}
   ): Promise<InvokeFunctionResponse> {
-    // 1. Derive public key and compute stealth address
-    const stealthPubKey = derivePublicKey(stealthPrivateKey);
-    const stealthAddress = computeStealthContractAddress(
+    // 1. Open the stealth account and check whether it is deployed
+    const { stealthAccount, stealthPubKey, accountClass, isDeployed } =
+      await this.openStealthAccount(stealthPrivateKey, options);
+
+    if (this.paymaster) {
+      const withdrawAmount =
+        amount === "all"
+          ? await this.getTokenBalance(tokenAddress, stealthAccount.address)
+          : amount;
+      const { transactionHash } = await this.withdrawThroughPaymaster(
+        this.paymaster,
+        stealthAccount,
+        stealthPubKey,
+        accountClass,
+        isDeployed,
+        [{ token: tokenAddress, amount: withdrawAmount }],
+        destinationAddress,
+        amount === "all",
+        options.feeMode ?? { mode: "default", gasToken: tokenAddress }
+      );
+      return { transaction_hash: transactionHash };
+    }
+
+    // 2. Determine the withdrawal amount, leaving the fees behind for "all"
+    const details = toTransactionDetails(withdrawalFeeOptions([tokenAddress], options));
+    const { withdrawAmount, fees } = await this.planWithdrawal(
+      stealthAccount,
       stealthPubKey,
-      this.accountClassHash
+      accountClass,
+      isDeployed,
+      tokenAddress,
+      destinationAddress,
+      amount,
+      details
     );
 
-    // 2. Create account instance with the correct address
+    // 3. If not deployed, deploy first
+    if (!isDeployed) {
+      const { transaction_hash } = await this.sendDeployAccount(
+        stealthPrivateKey,
+        stealthPubKey,
+        accountClass,
+        fees?.deployDetails ?? details
+      );
+      await this.provider.waitForTransaction(transaction_hash);
+    }
+
+    // 4. Execute the withdrawal transfer
+    return stealthAccount.execute(
+      [transferCall(tokenAddress, destinationAddress, withdrawAmount)],
+      fees?.withdrawDetails ?? details
+    );
+  }
+
+  /**
+   * Estimate the fees of deploying (if needed) and withdrawing from a stealth account
+   *
+   * An undeployed account is estimated with its deployment, as the two
+   * transactions deployAndWithdraw sends. The estimate covers the fees the
+   * account pays itself; with a paymaster, its fee comes from the
+   * paymaster's buildTransaction instead.
+   * @param stealthPrivateKey - The stealth private key
+   * @param destinationAddress - Where to send the funds
+   * @param tokenAddress - The token to withdraw
+   * @param amount - The amount to withdraw (or "all" to withdraw everything
+   *   the fees leave)
+   * @param options - Fee token and fee limits, and the account's scheme and class
+   * @returns The fee of each transaction and the amount withdrawn
+   * @throws InsufficientBalanceError if withdrawing "all" and the balance
+   *   cannot cover the fees
+   */
+  async estimateDeployAndWithdraw(
+    stealthPrivateKey: bigint,
+    destinationAddress: string,
+    tokenAddress: string,
+    amount: bigint | "all",
+    options: StealthAccountOptions = {}
+  ): Promise<WithdrawalEstimate> {
+    const { stealthAccount, stealthPubKey, accountClass, isDeployed } =
+      await this.openStealthAccount(stealthPrivateKey, options);
+    const details = toTransactionDetails(withdrawalFeeOptions([tokenAddress], options));
+    const transfers = [
+      {
+        token: tokenAddress,
+        amount:
+          amount === "all"
+            ? await this.getTokenBalance(tokenAddress, stealthAccount.address)
+            : amount,
+      },
+    ];
+
+    const estimates = await this.estimateWithdrawalTransactions(
+      stealthAccount,
+      stealthPubKey,
+      accountClass,
+      isDeployed,
+      transfers.map(({ token, amount }) =>
+        transferCall(token, destinationAddress, amount)
+      ),
+      details
+    );
+    const withdrawAmount =
+      amount === "all"
+        ? reserveFees(transfers, toWithdrawalFees(estimates, details))[0].amount
+        : amount;
+
+    const types = isDeployed
+      ? (["INVOKE"] as const)
+      : (["DEPLOY_ACCOUNT", "INVOKE"] as const);
+    return {
+      ...summarizeFees(
+        estimates.map((estimate, i) => feeBreakdown(types[i], estimate, details)),
+        []
+      ),
+      amount: withdrawAmount,
+    };
+  }
+
+  /**
+   * Simulate deploying (if needed) and withdrawing from a stealth account
+   *
+   * An undeployed account is simulated with its deployment, as the two
+   * transactions deployAndWithdraw sends.
+   * @param stealthPrivateKey - The stealth private key
+   * @param destinationAddress - Where to send the funds
+   * @param tokenAddress - The token to withdraw
+   * @param amount - The amount to withdraw (or "all" to withdraw everything
+   *   the fees leave)
+   * @param options - Fee token and fee limits, and the account's scheme and class
+   * @returns The fee of each transaction, the amount withdrawn and whether
+   *   the withdrawal would succeed
+   * @throws InsufficientBalanceError if withdrawing "all" and the balance
+   *   cannot cover the fees
+   */
+  async simulateDeployAndWithdraw(
+    stealthPrivateKey: bigint,
+    destinationAddress: string,
+    tokenAddress: string,
+    amount: bigint | "all",
+    options: StealthAccountOptions = {}
+  ): Promise<WithdrawalSimulation> {
+    const { stealthAccount, stealthPubKey, accountClass, isDeployed } =
+      await this.openStealthAccount(stealthPrivateKey, options);
+    const details = toTransactionDetails(withdrawalFeeOptions([tokenAddress], options));
+    const { withdrawAmount } = await this.planWithdrawal(
+      stealthAccount,
+      stealthPubKey,
+      accountClass,
+      isDeployed,
+      tokenAddress,
+      destinationAddress,
+      amount,
+      details
+    );
+
+    const simulated = await stealthAccount.simulateTransaction(
+      this.withdrawalInvocations(stealthPubKey, accountClass, isDeployed, [
+        transferCall(tokenAddress, destinationAddress, withdrawAmount),
+      ]),
+      details
+    );
+    return {
+      ...summarizeSimulation(simulated, this.amoraContract.address, details),
+      amount: withdrawAmount,
+    };
+  }
+
+  /**
+   * Create the account instance of a stealth private key
+   */
+  private async openStealthAccount(
+    stealthPrivateKey: bigint,
+    options: StealthAccountOptions
+  ): Promise<{
+    stealthAccount: Account;
+    stealthPubKey: bigint;
+    accountClass: StealthAccountClass;
+    isDeployed: boolean;
+  }> {
+    const scheme = getScheme(options.schemeId);
+    const accountClass = this.accountClassOf(scheme.id, options.accountClassHash);
+    scheme.validatePrivateKey(stealthPrivateKey, "stealth private key");
+    const stealthPubKey = scheme.deriveStealthPublicKey(stealthPrivateKey);
+    const stealthAddress = computeAccountAddress(accountClass, stealthPubKey);
     const stealthAccount = new Account(
       this.provider,
       stealthAddress,
-      stealthPrivateKey.toString()
+      scheme.signer(stealthPrivateKey)
     );
-
-    // 3. Check if the account is already deployed
     const isDeployed = await this.isAccountDeployed(stealthAddress);
+    return { stealthAccount, stealthPubKey, accountClass, isDeployed };
+  }
 
-    // 4. If not deployed, deploy first
-    if (!isDeployed) {
-      await this.deployStealthAccount(stealthPrivateKey, stealthPubKey);
+  /**
+   * Determine how much a withdrawal sends, leaving the fees behind for "all"
+   */
+  private async planWithdrawal(
+    stealthAccount: Account,
+    stealthPubKey: bigint,
+    accountClass: StealthAccountClass,
+    isDeployed: boolean,
+    tokenAddress: string,
+    destinationAddress: string,
+    amount: bigint | "all",
+    details: UniversalDetails
+  ): Promise<{ withdrawAmount: bigint; fees?: WithdrawalFees }> {
+    if (amount !== "all") {
+      return { withdrawAmount: amount };
     }
+    const balance = await this.getTokenBalance(tokenAddress, stealthAccount.address);
+    const transfers = [{ token: tokenAddress, amount: balance }];
+    const fees = await this.estimateWithdrawalFees(
+      stealthAccount,
+      stealthPubKey,
+      accountClass,
+      isDeployed,
+      transfers,
+      destinationAddress,
+      details
+    );
+    return { withdrawAmount: reserveFees(transfers, fees)[0].amount, fees };
+  }
 
-    // 5. Determine the withdrawal amount
-    let withdrawAmount: bigint;
-    if (amount === "all") {
-      // Get the token balance
-      const tokenContract = new Contract(
-        ERC20_ABI,
-        tokenAddress,
-        this.provider
+  /**
+   * Deploy (if needed) and withdraw as one paymaster transaction
+   *
+   * With `reserveFee`, the transfers are the account's balances and the
+   * paymaster's fee is left behind when it is paid in a withdrawn token.
+   * @returns The transaction hash and the transfers sent
+   */
+  private async withdrawThroughPaymaster(
+    paymaster: PaymasterClient,
+    stealthAccount: Account,
+    stealthPubKey: bigint,
+    accountClass: StealthAccountClass,
+    isDeployed: boolean,
+    transfers: { token: string; amount: bigint }[],
+    destinationAddress: string,
+    reserveFee: boolean,
+    feeMode: PaymasterFeeMode
+  ): Promise<{ transactionHash: string; transfers: { token: string; amount: bigint }[] }> {
+    if (!accountClass.outsideExecution) {
+      throw new UnsupportedAccountClassError(
+        `Account class "${accountClass.name}" does not implement outside execution ` +
+          "(SNIP-9), which paymaster withdrawals require",
+        accountClass.classHash
       );
-      const balance = await tokenContract.call("balanceOf", [stealthAddress]);
-      // Handle u256 format (low, high)
-      if (Array.isArray(balance)) {
-        withdrawAmount = BigInt(balance[0]) + (BigInt(balance[1]) << 128n);
-      } else if (typeof balance === "object" && "low" in balance) {
-        withdrawAmount =
-          BigInt((balance as { low: bigint; high: bigint }).low) +
-          (BigInt((balance as { low: bigint; high: bigint }).high) << 128n);
-      } else {
-        withdrawAmount = BigInt(balance as bigint);
+    }
+    const deployment = isDeployed
+      ? undefined
+      : this.buildPaymasterDeployment(stealthPubKey, accountClass);
+    const transaction = (withdrawn: { token: string; amount: bigint }[]) => {
+      const invoke = {
+        userAddress: stealthAccount.address,
+        calls: withdrawn.map(({ token, amount }) =>
+          transferCall(token, destinationAddress, amount)
+        ),
+      };
+      return deployment
+        ? { type: "deploy_and_invoke" as const, deployment, invoke }
+        : { type: "invoke" as const, invoke };
+    };
+
+    let withdrawn = transfers;
+    let built = await paymaster.buildTransaction(transaction(withdrawn), feeMode);
+
+    // Leave the paymaster's fee behind when it is paid in a withdrawn token
+    const feeIndex =
+      reserveFee && feeMode.mode === "default"
+        ? transfers.findIndex(({ token }) => BigInt(token) === BigInt(feeMode.gasToken))
+        : -1;
+    if (feeIndex !== -1) {
+      const { token, amount: balance } = transfers[feeIndex];
+      const reserved = built.fee.suggestedMaxFeeInGasToken;
+      if (balance <= reserved) {
+        throw new InsufficientBalanceError(
+          `Insufficient balance to cover paymaster fee: balance ${balance}, fee ${reserved}`,
+          token,
+          balance,
+          reserved
+        );
+      }
+      withdrawn = transfers.map((transfer, i) =>
+        i === feeIndex ? { token, amount: balance - reserved } : transfer
+      );
+      built = await paymaster.buildTransaction(transaction(withdrawn), feeMode);
+
+      // The rebuilt transaction is quoted anew; its fee must fit what was left behind
+      const fee = built.fee.suggestedMaxFeeInGasToken;
+      if (fee > reserved) {
+        throw new InsufficientBalanceError(
+          `Insufficient balance to cover paymaster fee: reserved ${reserved}, ` +
+            `but the withdrawal was quoted at ${fee}`,
+          token,
+          balance,
+          balance - reserved + fee
+        );
       }
-    } else {
-      withdrawAmount = amount;
     }
 
-    // 6. Execute the withdrawal transfer
-    const transferCall: Call = {
-      contractAddress: tokenAddress,
-      entrypoint: "transfer",
-      calldata: CallData.compile({
-        recipient: destinationAddress,
-        amount: {
-          low: withdrawAmount & ((1n << 128n) - 1n),
-          high: withdrawAmount >> 128n,
-        },
-      }),
+    if (built.typedData === undefined) {
+      throw new UnexpectedResponseError("Paymaster returned no outside execution to sign");
+    }
+    const signature = stark.formatSignature(
+      await stealthAccount.signMessage(built.typedData)
+    );
+    const { invoke, ...rest } = transaction(withdrawn);
+    const { transactionHash } = await paymaster.executeTransaction(
+      {
+        ...rest,
+        invoke: { userAddress: invoke.userAddress, typedData: built.typedData, signature },
+      },
+      feeMode
+    );
+    return { transactionHash, transfers: withdrawn };
+  }
+
+  /**
+   * Read an account's balance of a token
+   */
+  private async getTokenBalance(
+    tokenAddress: string,
+    accountAddress: string
+  ): Promise<bigint> {
+    const tokenContract = new Contract(ERC20_ABI, tokenAddress, this.provider);
+    return decodeU256(await tokenContract.call("balanceOf", [accountAddress]));
+  }
+
+  /**
+   * Withdraw everything from many stealth payments in one planned operation
+   *
+   * Payments are grouped by stealth account. Each account with a balance is
+   * deployed if needed, then all of its tokens are withdrawn in a single
+   * multicall. A failure, including a failed balance read, affects only the
+   * payments of that account; the sweep carries on with the other accounts.
+   *
+   * With a paymaster configured, each account is deployed and emptied in one
+   * paymaster transaction, and the paymaster's fee is left behind when it is
+   * paid in a swept token.
+   *
+   * @param payments - Scanned payments to sweep
+   * @param destinationAddress - Where to send the funds
+   * @param options - Tokens to sweep, read concurrency and progress callback
+   * @returns A result for every payment, and totals per token
+   * @throws InvalidTransactionOptionsError if fee options are invalid, or
+   *   given with a paymaster configured
+   */
+  async sweep(
+    payments: StealthPayment[],
+    destinationAddress: string,
+    options: SweepOptions = {}
+  ): Promise<SweepResult> {
+    const { balances, unknownToken } = await this.getBalances(
+      payments,
+      options.tokens,
+      { concurrency: options.concurrency }
+    );
+    const skipped = new Set(unknownToken);
+    const groups = planSweep(
+      payments.filter((p) => !skipped.has(p)),
+      balances
+    );
+
+    const resultsByPayment = new Map<StealthPayment, SweepPaymentResult>();
+    for (const payment of skipped) {
+      resultsByPayment.set(payment, {
+        payment,
+        stealthAddress: payment.announcement.stealthAddress,
+        status: "skipped",
+        transfers: [],
+      });
+    }
+
+    // Reject invalid fee options before touching any account
+    const { transactionOptions = {} } = options;
+    toTransactionDetails(transactionOptions);
+    if (this.paymaster && hasFeeSettings(transactionOptions)) {
+      throw new InvalidTransactionOptionsError(
+        "Paymaster sweeps are paid through the paymaster: feeToken, maxFee, resourceBounds " +
+          "and tip do not apply (set feeMode instead)"
+      );
+    }
+    const totals = new Map<string, bigint>();
+    for (const group of groups) {
+      const outcome = await this.sweepGroup(
+        group,
+        destinationAddress,
+        transactionOptions,
+        options.feeMode
+      );
+      for (const { token, amount } of outcome.transfers) {
+        totals.set(token, (totals.get(token) ?? 0n) + amount);
+      }
+
+      const groupResults = group.payments.map((payment) => ({
+        payment,
+        stealthAddress: group.stealthAddress,
+        ...outcome,
+      }));
+      for (const result of groupResults) {
+        resultsByPayment.set(result.payment, result);
+      }
+      options.onAccount?.(groupResults);
+    }
+
+    return {
+      results: payments.map((payment) => resultsByPayment.get(payment)!),
+      totals,
     };
+  }
+
+  /**
+   * Deploy (if needed) and empty one stealth account
+   */
+  private async sweepGroup(
+    group: SweepGroup,
+    destinationAddress: string,
+    transactionOptions: TransactionOptions,
+    feeMode: PaymasterFeeMode | undefined
+  ): Promise<
+    Pick<
+      SweepPaymentResult,
+      "status" | "transfers" | "transactionHash" | "deployTransactionHash" | "error"
+    >
+  > {
+    // Withdraw nothing rather than leave an unread balance behind
+    if (group.readError) {
+      return { status: "failed", transfers: [], error: group.readError };
+    }
+    if (group.transfers.length === 0) {
+      return { status: "empty", transfers: [] };
+    }
+    const details = toTransactionDetails(
+      withdrawalFeeOptions(
+        group.transfers.map((t) => t.token),
+        transactionOptions
+      )
+    );
+
+    let deployTransactionHash: string | undefined;
+    try {
+      const accountClass = this.accountClassOf(group.schemeId, group.accountClassHash);
+      const stealthAccount = new Account(
+        this.provider,
+        group.stealthAddress,
+        getScheme(accountClass.schemeId).signer(group.stealthPrivateKey)
+      );
+      const isDeployed = await this.isAccountDeployed(group.stealthAddress);
+
+      // The paymaster deploys and withdraws in one transaction
+      if (this.paymaster) {
+        const { transactionHash, transfers } = await this.withdrawThroughPaymaster(
+          this.paymaster,
+          stealthAccount,
+          group.stealthPubKey,
+          accountClass,
+          isDeployed,
+          group.transfers,
+          destinationAddress,
+          true,
+          feeMode ?? { mode: "default", gasToken: group.transfers[0].token }
+        );
+        return { status: "swept", transfers, transactionHash };
+      }
+
+      // Leave the account's own fees behind
+      const fees = await this.estimateWithdrawalFees(
+        stealthAccount,
+        group.stealthPubKey,
+        accountClass,
+        isDeployed,
+        group.transfers,
+        destinationAddress,
+        details
+      );
+      const transfers = reserveFees(group.transfers, fees);
+
+      if (!isDeployed) {
+        const deployment = await this.sendDeployAccount(
+          group.stealthPrivateKey,
+          group.stealthPubKey,
+          accountClass,
+          fees.deployDetails ?? details
+        );
+        deployTransactionHash = deployment.transaction_hash;
+        await this.provider.waitForTransaction(deployTransactionHash);
+      }
 
-    return stealthAccount.execute([transferCall]);
+      const { transaction_hash } = await stealthAccount.execute(
+        transfers.map(({ token, amount }) =>
+          transferCall(token, destinationAddress, amount)
+        ),
+        fees.withdrawDetails
+      );
+      return {
+        status: "swept",
+        transfers,
+        transactionHash: transaction_hash,
+        deployTransactionHash,
+      };
+    } catch (e) {
+      return {
+        status: "failed",
+        transfers: [],
+        deployTransactionHash,
+        error: e instanceof Error ? e : new Error(String(e)),
+      };
+    }
   }
 
   /**
@@ -464,55 +1716,241 @@ export class Amora {
     }
   }
 
+  /**
+   * Estimate the fees a stealth account pays to withdraw its funds
+   *
+   * The deployment (if needed) and the withdrawal are estimated together,
+   * as the account will send them.
+   */
+  private async estimateWithdrawalFees(
+    stealthAccount: Account,
+    stealthPubKey: bigint,
+    accountClass: StealthAccountClass,
+    isDeployed: boolean,
+    transfers: { token: string; amount: bigint }[],
+    destinationAddress: string,
+    details: UniversalDetails
+  ): Promise<WithdrawalFees> {
+    const estimates = await this.estimateWithdrawalTransactions(
+      stealthAccount,
+      stealthPubKey,
+      accountClass,
+      isDeployed,
+      transfers.map(({ token, amount }) =>
+        transferCall(token, destinationAddress, amount)
+      ),
+      details
+    );
+    return toWithdrawalFees(estimates, details);
+  }
+
+  /**
+   * Estimate the transactions of a withdrawal: the deployment (if needed),
+   * then the invoke
+   */
+  private async estimateWithdrawalTransactions(
+    stealthAccount: Account,
+    stealthPubKey: bigint,
+    accountClass: StealthAccountClass,
+    isDeployed: boolean,
+    calls: Call[],
+    details: UniversalDetails
+  ): Promise<EstimateFee[]> {
+    if (isDeployed) {
+      return [await stealthAccount.estimateInvokeFee(calls, details)];
+    }
+    return stealthAccount.estimateFeeBulk(
+      this.withdrawalInvocations(stealthPubKey, accountClass, isDeployed, calls),
+      // Bulk estimates take the query (fee) version of the transaction version
+      { ...details, version: stark.toFeeVersion(details.version) }
+    );
+  }
+
+  /**
+   * Build the transactions of a withdrawal: the deployment (if needed),
+   * then the invoke
+   */
+  private withdrawalInvocations(
+    stealthPubKey: bigint,
+    accountClass: StealthAccountClass,
+    isDeployed: boolean,
+    calls: Call[]
+  ): Invocations {
+    const invoke = { type: TransactionType.INVOKE, payload: calls } as const;
+    if (isDeployed) {
+      return [invoke];
+    }
+    return [
+      {
+        type: TransactionType.DEPLOY_ACCOUNT,
+        payload: this.buildDeployPayload(stealthPubKey, accountClass),
+      },
+      invoke,
+    ];
+  }
+
   /**
    * Deploy a stealth account
+   *
+   * With a paymaster configured, the deployment is sponsored by the
+   * paymaster, so fee options cannot be given.
    * @param privateKey - The stealth private key
    * @param publicKey - The stealth public key
+   * @param options - Fee token and fee limits, and the account's scheme and class
    * @returns The deploy response
+   * @throws AccountClassNotFoundError if the account's class is not configured
+   * @throws InvalidTransactionOptionsError if fee options are given with a
+   *   paymaster configured
    */
   async deployStealthAccount(
     privateKey: bigint,
-    publicKey?: bigint
+    publicKey?: bigint,
+    options: StealthAccountOptions = {}
   ): Promise<DeployContractResponse> {
-    const pubKey = publicKey ?? derivePublicKey(privateKey);
-    const stealthAddress = computeStealthContractAddress(
-      pubKey,
-      this.accountClassHash
+    const scheme = getScheme(options.schemeId);
+    const accountClass = this.accountClassOf(scheme.id, options.accountClassHash);
+    scheme.validatePrivateKey(privateKey, "stealth private key");
+    if (this.paymaster && hasFeeSettings(options)) {
+      throw new InvalidTransactionOptionsError(
+        "Paymaster deployments are sponsored: feeToken, maxFee, resourceBounds and tip do not apply"
+      );
+    }
+    return this.sendDeployAccount(
+      privateKey,
+      publicKey ?? scheme.deriveStealthPublicKey(privateKey),
+      accountClass,
+      toTransactionDetails(options)
     );
+  }
+
+  /**
+   * Deploy a stealth account, through the paymaster when one is configured
+   * (a plain deployment can only be sponsored, so `details` then do not apply)
+   */
+  private async sendDeployAccount(
+    privateKey: bigint,
+    pubKey: bigint,
+    accountClass: StealthAccountClass,
+    details: UniversalDetails
+  ): Promise<DeployContractResponse> {
+    if (this.paymaster) {
+      const deployment = this.buildPaymasterDeployment(pubKey, accountClass);
+      const { transactionHash } = await this.paymaster.executeTransaction(
+        { type: "deploy", deployment },
+        { mode: "sponsored" }
+      );
+      return { transaction_hash: transactionHash, contract_address: deployment.address };
+    }
+
+    const stealthAddress = computeAccountAddress(accountClass, pubKey);
 
     // Create account instance for deployment
     const stealthAccount = new Account(
       this.provider,
       stealthAddress,
-      privateKey.toString()
+      getScheme(accountClass.schemeId).signer(privateKey)
     );
 
-    // Deploy account payload
-    const payload: DeployAccountContractPayload = {
-      classHash: this.accountClassHash,
-      constructorCalldata: CallData.compile({
-        public_key: pubKey.toString(),
-      }),
-      addressSalt: pubKey.toString(),
-    };
+    return stealthAccount.deployAccount(this.buildDeployPayload(pubKey, accountClass), details);
+  }
+
+  /**
+   * Build the deploy account payload for a stealth public key
+   * @throws AccountClassMismatchError if the class's payload would not deploy
+   *   the account at its stealth address
+   */
+  private buildDeployPayload(
+    pubKey: bigint,
+    accountClass: StealthAccountClass
+  ): DeployAccountContractPayload {
+    const payload = accountClass.deployPayload(pubKey);
+    const constructorCalldata = CallData.compile(payload.constructorCalldata ?? []);
 
-    return stealthAccount.deployAccount(payload);
+    // A custom payload must deploy the address payments were sent to
+    const deployedAddress = hash.calculateContractAddressFromHash(
+      payload.addressSalt ?? 0,
+      payload.classHash,
+      constructorCalldata,
+      0
+    );
+    if (BigInt(deployedAddress) !== BigInt(computeAccountAddress(accountClass, pubKey))) {
+      throw new AccountClassMismatchError(
+        `The deploy payload of account class "${accountClass.name}" does not deploy ` +
+          "the account at its stealth address",
+        accountClass.classHash
+      );
+    }
+    return { ...payload, constructorCalldata };
+  }
+
+  /**
+   * Build the paymaster deployment data for a stealth public key
+   */
+  private buildPaymasterDeployment(
+    pubKey: bigint,
+    accountClass: StealthAccountClass
+  ): PaymasterDeployment {
+    const payload = this.buildDeployPayload(pubKey, accountClass);
+    return {
+      address: computeAccountAddress(accountClass, pubKey),
+      classHash: payload.classHash,
+      salt: num.toHex(payload.addressSalt ?? 0),
+      calldata: CallData.toHex(payload.constructorCalldata),
+      version: 1,
+    };
   }
 
   /**
    * Build calls for sending to multiple recipients in a single multicall
    * @param payments - Array of batch payment descriptions
+   * @param precomputed - Stealth address results to pay, one per payment
+   *   (default: fresh ones)
    * @returns The flattened calls and corresponding stealth results
+   * @throws OutOfRangeError if the number of precomputed results does not
+   *   match the payments
    */
-  buildBatchSendCalls(payments: BatchPayment[]): {
+  buildBatchSendCalls(
+    payments: BatchPayment[],
+    precomputed?: GenerateStealthAddressResult[]
+  ): {
     calls: Call[];
     stealthResults: GenerateStealthAddressResult[];
   } {
+    if (precomputed !== undefined && precomputed.length !== payments.length) {
+      throw new OutOfRangeError(
+        `Expected ${payments.length} stealth results, one per payment, got ${precomputed.length}`,
+        precomputed.length
+      );
+    }
     const allCalls: Call[] = [];
     const stealthResults: GenerateStealthAddressResult[] = [];
+    const metas = payments.map((payment) =>
+      typeof payment.metaAddress === "string"
+        ? parseMetaAddress(payment.metaAddress)
+        : payment.metaAddress
+    );
+    const recipientKey = (meta: MetaAddress) => `${meta.spendingPubKey}:${meta.viewingPubKey}`;
+    const paymentCounts = new Map<string, number>();
+    for (const meta of metas) {
+      paymentCounts.set(recipientKey(meta), (paymentCounts.get(recipientKey(meta)) ?? 0) + 1);
+    }
+    // Recipients paid more than once share one precomputed context; the
+    // window table costs more than a single payment saves
+    const contexts = new Map<string, StealthContext>();
+
+    for (const [i, payment] of payments.entries()) {
+      const key = recipientKey(metas[i]);
+      let meta: MetaAddress = metas[i];
+      if (precomputed === undefined && paymentCounts.get(key)! > 1) {
+        let context = contexts.get(key);
+        if (context === undefined) {
+          context = createStealthContext(meta);
+          contexts.set(key, context);
+        }
+        meta = context;
+      }
 
-    for (const payment of payments) {
-      const stealthResult = this.generateStealthAddress(payment.metaAddress);
+      const stealthResult = precomputed?.[i] ?? this.generateStealthAddress(meta);
       stealthResults.push(stealthResult);
 
       const calls = this.buildSendCalls(
@@ -531,17 +1969,90 @@ export class Amora {
    * Send to multiple recipients in a single Starknet multicall
    * @param account - The sender's account
    * @param payments - Array of batch payment descriptions
+   * @param options - Fee token and fee limits, and the stealth results of a
+   *   preview to pay
    * @returns The transaction response and stealth results
+   * @throws AccountNotDeployedError if the account is not deployed
+   * @throws NetworkMismatchError if a meta-address is for another network
    */
   async batchSend(
     account: Account,
-    payments: BatchPayment[]
+    payments: BatchPayment[],
+    options: BatchSendOptions = {}
   ): Promise<BatchSendResult> {
-    const { calls, stealthResults } = this.buildBatchSendCalls(payments);
-    const transactionResponse = await account.execute(calls);
+    await this.resolveNetworkFor(payments);
+    const { stealthResults: precomputed, ...transactionOptions } = options;
+    const { calls, stealthResults } = this.buildBatchSendCalls(payments, precomputed);
+    const transactionResponse = await withDeployedAccount(account.address, () =>
+      account.execute(calls, toTransactionDetails(transactionOptions))
+    );
     return { transactionResponse, stealthResults };
   }
 
+  /**
+   * Estimate the fee of sending to multiple recipients
+   *
+   * Fresh stealth addresses are generated unless given; pass the returned
+   * stealthResults to batchSend to send the estimated transaction.
+   * @param account - The sender's account
+   * @param payments - Array of batch payment descriptions
+   * @param options - Fee token and fee limits, and stealth results to pay
+   * @returns The fee breakdown, the announcements the payments emit and
+   *   their stealth results
+   */
+  async estimateBatchSend(
+    account: Account,
+    payments: BatchPayment[],
+    options: BatchSendOptions = {}
+  ): Promise<BatchSendEstimate> {
+    await this.resolveNetworkFor(payments);
+    const { stealthResults: precomputed, ...transactionOptions } = options;
+    const { calls, stealthResults } = this.buildBatchSendCalls(payments, precomputed);
+    return {
+      ...(await this.estimateInvoke(account, calls, transactionOptions)),
+      stealthResults,
+    };
+  }
+
+  /**
+   * Simulate sending to multiple recipients
+   *
+   * Fresh stealth addresses are generated unless given; pass the returned
+   * stealthResults to batchSend to send the simulated transaction.
+   * @param account - The sender's account
+   * @param payments - Array of batch payment descriptions
+   * @param options - Fee token and fee limits, and stealth results to pay
+   * @returns The fee breakdown, the emitted announcements, whether the
+   *   payments would succeed and their stealth results
+   */
+  async simulateBatchSend(
+    account: Account,
+    payments: BatchPayment[],
+    options: BatchSendOptions = {}
+  ): Promise<BatchSendSimulation> {
+    await this.resolveNetworkFor(payments);
+    const { stealthResults: precomputed, ...transactionOptions } = options;
+    const { calls, stealthResults } = this.buildBatchSendCalls(payments, precomputed);
+    return {
+      ...(await this.simulateInvoke(account, calls, transactionOptions)),
+      stealthResults,
+    };
+  }
+
+  /**
+   * Resolve the connected network when a payment goes to a v2 meta-address
+   */
+  private async resolveNetworkFor(payments: BatchPayment[]): Promise<void> {
+    const needsNetwork = payments.some(
+      ({ metaAddress }) =>
+        (typeof metaAddress === "string" ? parseMetaAddress(metaAddress) : metaAddress)
+          .network !== undefined
+    );
+    if (needsNetwork) {
+      await this.getNetwork();
+    }
+  }
+
   /**
    * Get the Amora registry contract address
    */
@@ -550,9 +2061,78 @@ export class Amora {
   }
 
   /**
-   * Get the stealth account class hash
+   * Get the class hash new STARK stealth addresses use
+   * @throws AccountClassNotFoundError if no STARK account class is configured
    */
   get stealthAccountClassHash(): string {
-    return this.accountClassHash;
+    return this.accountClassHashFor();
+  }
+}
+
+/**
+ * Build an ERC20 transfer call
+ */
+function transferCall(tokenAddress: string, recipient: string, amount: bigint): Call {
+  return {
+    contractAddress: tokenAddress,
+    entrypoint: "transfer",
+    calldata: CallData.compile({
+      recipient,
+      amount: { low: amount & ((1n << 128n) - 1n), high: amount >> 128n },
+    }),
+  };
+}
+
+/**
+ * Run an account operation, reporting a missing account as AccountNotDeployedError
+ */
+async function withDeployedAccount<T>(
+  address: string,
+  run: () => Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (e) {
+    if (e instanceof Error && /contract not found/i.test(e.message)) {
+      throw new AccountNotDeployedError(address, { cause: e });
+    }
+    throw e;
   }
 }
+
+/**
+ * Combine the estimates of a withdrawal's transactions into withdrawal fees
+ */
+function toWithdrawalFees(
+  estimates: EstimateFee[],
+  details: UniversalDetails
+): WithdrawalFees {
+  const withdrawEstimate = estimates[estimates.length - 1];
+  const deployEstimate = estimates.length > 1 ? estimates[0] : undefined;
+  return withdrawalFees(withdrawEstimate, deployEstimate, details);
+}
+
+/**
+ * Encode payment metadata, encrypting the memo unless it is public
+ */
+function encodePaymentMetadata(
+  tokenAddress: string,
+  amount: bigint,
+  stealthResult: GenerateStealthAddressResult,
+  { memo, publicMemo, ...fields }: PaymentMetadata
+): bigint[] {
+  const memoField =
+    memo === undefined
+      ? {}
+      : publicMemo
+        ? { memo }
+        : { encryptedMemo: encryptMemo(memo, stealthResult.sharedSecret) };
+  return encodeMetadata({
+    ...fields,
+    ...memoField,
+    token: tokenAddress,
+    amount,
+    protocol: stealthResult.protocol,
+    schemeId: stealthResult.schemeId,
+  });
+}
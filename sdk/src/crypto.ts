@@ -9,24 +9,68 @@ import {
   utils,
   poseidonHashMany,
   getPublicKey,
+  grindKey,
 } from "@scure/starknet";
+import { InvalidPointError } from "./errors";
 
 // STARK curve field order
 export const CURVE_ORDER = CURVE.n;
 
 // STARK curve field prime (from the finite field)
-const FIELD_PRIME = CURVE.Fp.ORDER;
+export const FIELD_PRIME = CURVE.Fp.ORDER;
 
 // STARK curve parameters
 const ALPHA = CURVE.a;
 const BETA = CURVE.b;
 
+/**
+ * A point on the STARK curve
+ */
+export type CurvePoint = InstanceType<typeof ProjectivePoint>;
+
+/**
+ * Default window size for precomputed multiplication tables
+ * (the same size @noble/curves uses for the base point)
+ */
+export const PRECOMPUTE_WINDOW_SIZE = 8;
+
 /**
  * Scheme ID for STARK curve stealth addresses
  * "STARK" in ASCII bytes as a felt252
  */
 export const SCHEME_ID_STARK = 0x535441524b;
 
+/**
+ * Stealth protocol versions
+ * v1 derives the view tag and the stealth tweak from the same hash(s), so a
+ * public view tag reveals the low 8 bits of the tweak. v2 hashes the shared
+ * secret under a separate domain for each, and supports wider view tags.
+ */
+export const PROTOCOL_V1 = 1;
+export const PROTOCOL_V2 = 2;
+
+/**
+ * A stealth protocol version
+ */
+export type ProtocolVersion = typeof PROTOCOL_V1 | typeof PROTOCOL_V2;
+
+/**
+ * Range of v2 view tag widths, in bits (announcements hold the low 8 bits
+ * in their view tag field)
+ */
+export const MIN_VIEW_TAG_BITS = 8;
+export const MAX_VIEW_TAG_BITS = 32;
+
+/**
+ * Domain separator for v2 view tags ("amora-v2-view-tag" as a short string)
+ */
+const VIEW_TAG_DOMAIN = 0x616d6f72612d76322d766965772d746167n;
+
+/**
+ * Domain separator for v2 stealth tweaks ("amora-v2-tweak" as a short string)
+ */
+const STEALTH_TWEAK_DOMAIN = 0x616d6f72612d76322d747765616bn;
+
 /**
  * Convert a bigint to a hex string (without 0x prefix), padded to 32 bytes
  */
@@ -52,16 +96,21 @@ function bytesToHex(bytes: Uint8Array): string {
  * @returns The normalized private key (same or negated)
  */
 export function normalizePrivateKey(privateKey: bigint): bigint {
-  const privateKeyHex = bigintToHex(privateKey);
-  const point = ProjectivePoint.fromPrivateKey(privateKeyHex);
+  // If y is odd, negate the private key: -k mod n
+  return isNormalizedPrivateKey(privateKey) ? privateKey : CURVE_ORDER - privateKey;
+}
 
-  // If y is odd, negate the private key
-  // isOdd returns true for odd values (y % 2 === 1)
-  if (point.y % 2n !== 0n) {
-    // Negate: -k mod n
-    return CURVE_ORDER - privateKey;
-  }
-  return privateKey;
+/**
+ * Check whether a private key's public key has an even y-coordinate.
+ * Public keys are recovered from their x-coordinate with even y, so only
+ * normalized spending keys derive the stealth private keys that control
+ * their stealth addresses.
+ * @param privateKey - The private key to check
+ * @returns true if the key is normalized
+ */
+export function isNormalizedPrivateKey(privateKey: bigint): boolean {
+  const point = ProjectivePoint.fromPrivateKey(bigintToHex(privateKey));
+  return point.y % 2n === 0n;
 }
 
 /**
@@ -74,6 +123,18 @@ export function generatePrivateKey(): bigint {
   return normalizePrivateKey(rawKey);
 }
 
+/**
+ * Deterministically derive a private key from seed material.
+ * The seed is ground into the curve order (as Starknet wallets do) and the
+ * result is normalized so that its public key has an even y-coordinate.
+ * @param seed - Seed bytes, or a felt (hashed as 32 big-endian bytes)
+ * @returns The normalized private key
+ */
+export function privateKeyFromSeed(seed: Uint8Array | bigint): bigint {
+  const seedHex = typeof seed === "bigint" ? bigintToHex(seed) : bytesToHex(seed);
+  return normalizePrivateKey(BigInt("0x" + grindKey(seedHex)));
+}
+
 /**
  * Derive the public key from a private key
  * Returns the x-coordinate of the point (Starknet's standard public key format)
@@ -105,23 +166,62 @@ export function getPoint(privateKey: bigint): { x: bigint; y: bigint } {
 /**
  * Multiply a point by a scalar (ECDH operation)
  * @param scalar - The scalar (private key)
- * @param pointX - The x-coordinate of the point (public key)
+ * @param pointX - The x-coordinate of the point (public key), or the recovered point
  * @returns The resulting point's x-coordinate
  */
-export function scalarMultiply(scalar: bigint, pointX: bigint): bigint {
+export function scalarMultiply(
+  scalar: bigint,
+  pointX: bigint | CurvePoint
+): bigint {
   // Recover the full point from x-coordinate
-  const point = recoverPoint(pointX);
+  const point = toPoint(pointX);
   // Multiply the point by the scalar
   const result = point.multiply(scalar);
   return result.x;
 }
 
+/**
+ * Recover a public key point once and build its precomputed window table
+ * Multiplications by the returned point are several times faster, but the
+ * table costs more than one multiplication, so it only pays off when the
+ * same public key is multiplied repeatedly. Points that are only added to
+ * (spending keys) need recoverPoint alone.
+ * @param x - The public key (x-coordinate)
+ * @param windowSize - Window size for the precomputed table
+ * @returns The recovered point (even y)
+ */
+export function precomputePoint(
+  x: bigint,
+  windowSize: number = PRECOMPUTE_WINDOW_SIZE
+): CurvePoint {
+  // utils.precompute is @noble/curves' public way to attach a window table
+  return utils.precompute(windowSize, recoverPoint(x));
+}
+
+/**
+ * Accept either an x-coordinate or an already recovered point
+ */
+function toPoint(key: bigint | CurvePoint): CurvePoint {
+  return typeof key === "bigint" ? recoverPoint(key) : key;
+}
+
 /**
  * Recover a point on the STARK curve from its x-coordinate
  * @param x - The x-coordinate
+ * @param name - The point's name for error messages
  * @returns The ProjectivePoint
+ * @throws InvalidPointError if x is 0 (the identity), outside the field, or
+ *   no point has this x-coordinate
  */
-function recoverPoint(x: bigint): InstanceType<typeof ProjectivePoint> {
+export function recoverPoint(x: bigint, name = "point"): CurvePoint {
+  // x = 0 is how the identity (point at infinity) reads as an x-coordinate
+  if (x === 0n) {
+    throw new InvalidPointError(`Invalid ${name}: x-coordinate 0 is the identity`);
+  }
+  if (x < 0n || x >= FIELD_PRIME) {
+    throw new InvalidPointError(`Invalid ${name}: x-coordinate out of field range`);
+  }
+
   // For STARK curve: y^2 = x^3 + alpha*x + beta
 
   // Compute y^2 = x^3 + alpha*x + beta using the finite field operations
@@ -129,11 +229,15 @@ function recoverPoint(x: bigint): InstanceType<typeof ProjectivePoint> {
   const ax = CURVE.Fp.mul(ALPHA, x); // alpha * x
   const ySquared = CURVE.Fp.add(CURVE.Fp.add(x3, ax), BETA); // x^3 + alpha*x + beta
 
-  // Compute y = sqrt(y^2) using the field's sqrt function
-  const y = CURVE.Fp.sqrt!(ySquared);
-
-  if (y === undefined) {
-    throw new Error("Invalid point: x-coordinate not on curve");
+  // Compute y = sqrt(y^2) using the field's sqrt function, which throws
+  // when y^2 is not a square
+  let y: bigint;
+  try {
+    y = CURVE.Fp.sqrt(ySquared);
+  } catch (e) {
+    throw new InvalidPointError(`Invalid ${name}: x-coordinate not on curve`, {
+      cause: e,
+    });
   }
 
   // Use the even y-coordinate (standard convention)
@@ -204,37 +308,72 @@ export function computeViewTag(sharedSecret: bigint): number {
   return Number(hash & 0xffn);
 }
 
+/**
+ * Compute a v2 view tag from a shared secret
+ * The view tag is the low `bits` bits of hash(VIEW_TAG_DOMAIN, shared_secret)
+ * @param sharedSecret - The shared secret (x-coordinate)
+ * @param bits - The view tag width, in bits
+ * @returns The view tag as a number (0 to 2^bits - 1)
+ */
+export function computeViewTagV2(
+  sharedSecret: bigint,
+  bits: number = MIN_VIEW_TAG_BITS
+): number {
+  const hash = poseidonHash(VIEW_TAG_DOMAIN, sharedSecret);
+  return Number(hash & ((1n << BigInt(bits)) - 1n));
+}
+
+/**
+ * Compute the stealth tweak (the scalar added to the spending key)
+ * v1: hash(shared_secret); v2: hash(STEALTH_TWEAK_DOMAIN, shared_secret)
+ * @param sharedSecret - The shared secret (x-coordinate)
+ * @param version - The protocol version
+ * @returns The tweak
+ */
+export function computeStealthTweak(
+  sharedSecret: bigint,
+  version: ProtocolVersion = PROTOCOL_V1
+): bigint {
+  return version === PROTOCOL_V2
+    ? poseidonHash(STEALTH_TWEAK_DOMAIN, sharedSecret)
+    : poseidonHash(sharedSecret);
+}
+
 /**
  * Compute the stealth private key
- * p_stealth = k_spend + hash(shared_secret) mod n
+ * p_stealth = k_spend + tweak(shared_secret) mod n
  * @param spendingPrivateKey - The recipient's spending private key
  * @param sharedSecret - The shared secret (x-coordinate)
+ * @param version - The protocol version
  * @returns The stealth private key
  */
 export function computeStealthPrivateKey(
   spendingPrivateKey: bigint,
-  sharedSecret: bigint
+  sharedSecret: bigint,
+  version: ProtocolVersion = PROTOCOL_V1
 ): bigint {
-  const hashValue = poseidonHash(sharedSecret);
+  const hashValue = computeStealthTweak(sharedSecret, version);
   return (spendingPrivateKey + hashValue) % CURVE_ORDER;
 }
 
 /**
  * Compute the stealth public key
- * P_stealth = K_spend + hash(shared_secret)*G
- * @param spendingPubKey - The recipient's spending public key (x-coordinate)
+ * P_stealth = K_spend + tweak(shared_secret)*G
+ * @param spendingPubKey - The recipient's spending public key (x-coordinate), or the recovered point
  * @param sharedSecret - The shared secret (x-coordinate)
+ * @param version - The protocol version
  * @returns The stealth public key (x-coordinate)
  */
 export function computeStealthPublicKey(
-  spendingPubKey: bigint,
-  sharedSecret: bigint
+  spendingPubKey: bigint | CurvePoint,
+  sharedSecret: bigint,
+  version: ProtocolVersion = PROTOCOL_V1
 ): bigint {
   // Recover K_spend with even y (assumes normalized keypair)
-  const spendingPoint = recoverPoint(spendingPubKey);
+  const spendingPoint = toPoint(spendingPubKey);
 
-  // Compute hash(s) * G directly (preserving actual y-coordinate)
-  const hashValue = poseidonHash(sharedSecret);
+  // Compute tweak(s) * G directly (preserving actual y-coordinate)
+  const hashValue = computeStealthTweak(sharedSecret, version);
   const hashPoint = ProjectivePoint.BASE.multiply(hashValue);
 
   // Add the points
@@ -243,13 +382,28 @@ export function computeStealthPublicKey(
   return stealthPoint.x;
 }
 
+/**
+ * Perform ECDH against one public key for many private keys
+ * Recovers the public key point once and reuses it for every multiplication
+ * @param privateKeys - The private keys
+ * @param publicKey - Other party's public key (x-coordinate), or the recovered point
+ * @returns The shared secrets, in the same order as privateKeys
+ */
+export function ecdhMany(
+  privateKeys: bigint[],
+  publicKey: bigint | CurvePoint
+): bigint[] {
+  const point = toPoint(publicKey);
+  return privateKeys.map((privateKey) => point.multiply(privateKey).x);
+}
+
 /**
  * Perform ECDH to compute shared secret
  * shared_secret = private_key * public_key_point
  * @param privateKey - One party's private key
- * @param publicKey - Other party's public key (x-coordinate)
+ * @param publicKey - Other party's public key (x-coordinate), or the recovered point
  * @returns The shared secret (x-coordinate of resulting point)
  */
-export function ecdh(privateKey: bigint, publicKey: bigint): bigint {
+export function ecdh(privateKey: bigint, publicKey: bigint | CurvePoint): bigint {
   return scalarMultiply(privateKey, publicKey);
 }
@@ -0,0 +1,106 @@
+/**
+ * Encrypted memos readable only by the recipient
+ *
+ * The memo is encrypted with XChaCha20-Poly1305 under a key derived from
+ * the sender–recipient ECDH shared secret, which only the sender and the
+ * holder of the viewing key can compute. Every payment uses a fresh
+ * ephemeral key, so every memo gets its own encryption key; a random nonce
+ * is still included so a reused stealth result cannot repeat one.
+ *
+ * Ciphertext layout (packed into felts like encodeMemo):
+ *   nonce (24 bytes) || ciphertext || tag (16 bytes)
+ */
+
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { managedNonce } from "@noble/ciphers/webcrypto";
+import { poseidonHash } from "./crypto";
+import { MalformedMemoError } from "./errors";
+import { encodeBytes, decodeBytes } from "./memo";
+import { tryDecodeMetadata, type AnnouncementMetadata } from "./metadata";
+import type { Announcement } from "./stealth";
+
+/**
+ * Domain separator for the memo key ("amora-memo-key" as a short string)
+ */
+const MEMO_KEY_DOMAIN = 0x616d6f72612d6d656d6f2d6b6579n;
+
+const cipher = managedNonce(xchacha20poly1305);
+
+/**
+ * Encrypt a memo for the recipient of a stealth payment
+ * @param memo - The plaintext memo
+ * @param sharedSecret - The shared secret from generateStealthAddress
+ * @returns The encrypted memo as felt252 values
+ */
+export function encryptMemo(memo: string, sharedSecret: bigint): bigint[] {
+  const plaintext = new TextEncoder().encode(memo);
+  return encodeBytes(cipher(memoKey(sharedSecret)).encrypt(plaintext));
+}
+
+/**
+ * Decrypt a memo with the payment's shared secret
+ * @param felts - The encrypted memo felts
+ * @param sharedSecret - The shared secret (from a StealthPayment or ViewingKeyMatch)
+ * @returns The plaintext memo
+ * @throws MalformedMemoError if the memo is malformed or was not encrypted
+ *   for this shared secret
+ */
+export function decryptMemo(felts: bigint[], sharedSecret: bigint): string {
+  let plaintext: Uint8Array;
+  try {
+    plaintext = cipher(memoKey(sharedSecret)).decrypt(decodeBytes(felts));
+  } catch (e) {
+    throw new MalformedMemoError(
+      "Cannot decrypt memo: wrong shared secret or corrupted ciphertext",
+      { cause: e }
+    );
+  }
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Read the memo of a payment, decrypting it when encrypted
+ * @param metadata - The decoded announcement metadata
+ * @param sharedSecret - The payment's shared secret
+ * @returns The memo, or undefined if there is none (or it cannot be decrypted)
+ */
+export function readMemo(
+  metadata: AnnouncementMetadata | undefined,
+  sharedSecret: bigint
+): string | undefined {
+  if (metadata?.encryptedMemo !== undefined) {
+    try {
+      return decryptMemo(metadata.encryptedMemo, sharedSecret);
+    } catch {
+      return undefined;
+    }
+  }
+  return metadata?.memo;
+}
+
+/**
+ * Decode an announcement's metadata and read its memo, for scan results
+ * @param announcement - The matched announcement
+ * @param sharedSecret - The payment's shared secret
+ * @returns The decoded metadata and memo
+ */
+export function readPaymentDetails(
+  announcement: Announcement,
+  sharedSecret: bigint
+): { metadata?: AnnouncementMetadata; memo?: string } {
+  const metadata =
+    announcement.decodedMetadata ?? tryDecodeMetadata(announcement.metadata);
+  return { metadata, memo: readMemo(metadata, sharedSecret) };
+}
+
+/**
+ * Derive the 32-byte memo key from a shared secret
+ */
+function memoKey(sharedSecret: bigint): Uint8Array {
+  const key = poseidonHash(MEMO_KEY_DOMAIN, sharedSecret);
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[31 - i] = Number((key >> BigInt(i * 8)) & 0xffn);
+  }
+  return bytes;
+}
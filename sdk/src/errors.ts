@@ -0,0 +1,452 @@
+/**
+ * Typed errors thrown by the SDK
+ *
+ * Each error class carries a stable `code`, so applications can tell
+ * failures apart without matching message text. Messages are meant for
+ * people and may change between releases; codes do not.
+ */
+
+import type { AnnouncementEvent } from "./announcements";
+
+/**
+ * Stable identifier of an SDK error
+ */
+export type AmoraErrorCode =
+  | "INVALID_META_ADDRESS"
+  | "NETWORK_MISMATCH"
+  | "INVALID_VIEWING_KEY"
+  | "INVALID_POINT"
+  | "OUT_OF_RANGE"
+  | "NON_NORMALIZED_KEY"
+  | "UNSUPPORTED_SCHEME"
+  | "INVALID_PAYMENT_LINK"
+  | "MALFORMED_MEMO"
+  | "MALFORMED_ANNOUNCEMENT"
+  | "INSUFFICIENT_BALANCE"
+  | "ACCOUNT_NOT_DEPLOYED"
+  | "UNSUPPORTED_ACCOUNT_CLASS"
+  | "NETWORK_UNRESOLVED"
+  | "META_ADDRESS_CONFLICT"
+  | "INVALID_PROTOCOL"
+  | "UNTAGGED_METADATA"
+  | "UNREGISTRABLE_KEYS"
+  | "ACCOUNT_CLASS_NOT_FOUND"
+  | "ACCOUNT_CLASS_MISMATCH"
+  | "INVALID_TRANSACTION_OPTIONS"
+  | "SCHEME_CONFLICT"
+  | "INVALID_KEYSTORE"
+  | "WRONG_PASSWORD"
+  | "MALFORMED_METADATA"
+  | "INVALID_MNEMONIC"
+  | "KEY_DERIVATION_FAILED"
+  | "UNEXPECTED_RESPONSE";
+
+/**
+ * Base class of every typed SDK error
+ */
+export class AmoraError extends Error {
+  /** Stable identifier of the failure */
+  readonly code: AmoraErrorCode;
+
+  constructor(code: AmoraErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "AmoraError";
+    this.code = code;
+  }
+}
+
+/**
+ * A meta-address string or its fields are invalid
+ */
+export class InvalidMetaAddressError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_META_ADDRESS", message, options);
+    this.name = "InvalidMetaAddressError";
+  }
+}
+
+/**
+ * A meta-address belongs to a different network than the connected provider
+ */
+export class NetworkMismatchError extends AmoraError {
+  /** Network of the connected provider */
+  readonly expected: string;
+  /** Network of the meta-address */
+  readonly actual: string;
+
+  constructor(expected: string, actual: string, options?: ErrorOptions) {
+    super(
+      "NETWORK_MISMATCH",
+      `Meta-address is for network ${actual}, but the provider is connected to ${expected}`,
+      options
+    );
+    this.name = "NetworkMismatchError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/**
+ * An exported viewing key string or its fields are invalid
+ */
+export class InvalidViewingKeyError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_VIEWING_KEY", message, options);
+    this.name = "InvalidViewingKeyError";
+  }
+}
+
+/**
+ * A public key or ephemeral key is not a valid point on the STARK curve
+ * (including the identity)
+ */
+export class InvalidPointError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_POINT", message, options);
+    this.name = "InvalidPointError";
+  }
+}
+
+/**
+ * A private key or field element is outside its valid range
+ */
+export class OutOfRangeError extends AmoraError {
+  /** The rejected value */
+  readonly value: bigint | number;
+
+  constructor(message: string, value: bigint | number, options?: ErrorOptions) {
+    super("OUT_OF_RANGE", message, options);
+    this.name = "OutOfRangeError";
+    this.value = value;
+  }
+}
+
+/**
+ * A private key's public key has an odd y-coordinate where stealth keys
+ * need it even
+ */
+export class NonNormalizedKeyError extends AmoraError {
+  /** Name of the key, e.g. "spending private key" */
+  readonly keyName: string;
+
+  constructor(keyName: string, options?: ErrorOptions) {
+    super(
+      "NON_NORMALIZED_KEY",
+      `The ${keyName} is not normalized: its public key has an odd y-coordinate, ` +
+        "so stealth private keys derived from it would not control their stealth " +
+        "addresses. Import it with parity \"normalize\" to use CURVE_ORDER - key instead",
+      options
+    );
+    this.name = "NonNormalizedKeyError";
+    this.keyName = keyName;
+  }
+}
+
+/**
+ * No stealth scheme is registered with a meta-address's or key's scheme ID
+ */
+export class UnsupportedSchemeError extends AmoraError {
+  /** The unsupported scheme ID */
+  readonly schemeId: bigint;
+
+  constructor(schemeId: bigint, options?: ErrorOptions) {
+    super(
+      "UNSUPPORTED_SCHEME",
+      `Unsupported stealth scheme ID: 0x${schemeId.toString(16)}`,
+      options
+    );
+    this.name = "UnsupportedSchemeError";
+    this.schemeId = schemeId;
+  }
+}
+
+/**
+ * A payment link URI is invalid
+ */
+export class InvalidPaymentLinkError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_PAYMENT_LINK", message, options);
+    this.name = "InvalidPaymentLinkError";
+  }
+}
+
+/**
+ * Encoded memo felts cannot be decoded
+ */
+export class MalformedMemoError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("MALFORMED_MEMO", message, options);
+    this.name = "MalformedMemoError";
+  }
+}
+
+/**
+ * A registry event cannot be decoded as an announcement
+ */
+export class MalformedAnnouncementError extends AmoraError {
+  /** The raw event */
+  readonly event: AnnouncementEvent;
+
+  constructor(message: string, event: AnnouncementEvent, options?: ErrorOptions) {
+    super("MALFORMED_ANNOUNCEMENT", message, options);
+    this.name = "MalformedAnnouncementError";
+    this.event = event;
+  }
+}
+
+/**
+ * A balance cannot cover an amount, such as the fees of a withdrawal
+ */
+export class InsufficientBalanceError extends AmoraError {
+  /** Token the balance is held in */
+  readonly token: string;
+  /** The available balance */
+  readonly balance: bigint;
+  /** The amount the balance had to cover */
+  readonly required: bigint;
+
+  constructor(
+    message: string,
+    token: string,
+    balance: bigint,
+    required: bigint,
+    options?: ErrorOptions
+  ) {
+    super("INSUFFICIENT_BALANCE", message, options);
+    this.name = "InsufficientBalanceError";
+    this.token = token;
+    this.balance = balance;
+    this.required = required;
+  }
+}
+
+/**
+ * An account that must already exist on-chain is not deployed
+ */
+export class AccountNotDeployedError extends AmoraError {
+  /** Address of the account */
+  readonly address: string;
+
+  constructor(address: string, options?: ErrorOptions) {
+    super("ACCOUNT_NOT_DEPLOYED", `Account ${address} is not deployed`, options);
+    this.name = "AccountNotDeployedError";
+    this.address = address;
+  }
+}
+
+/**
+ * A stealth account class lacks a feature an operation needs, such as
+ * outside execution (SNIP-9) for paymaster withdrawals
+ */
+export class UnsupportedAccountClassError extends AmoraError {
+  /** Class hash of the account */
+  readonly classHash: string;
+
+  constructor(message: string, classHash: string, options?: ErrorOptions) {
+    super("UNSUPPORTED_ACCOUNT_CLASS", message, options);
+    this.name = "UnsupportedAccountClassError";
+    this.classHash = classHash;
+  }
+}
+
+/**
+ * A v2 meta-address's network cannot be checked because the connected
+ * network has not been resolved yet
+ */
+export class UnresolvedNetworkError extends AmoraError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "NETWORK_UNRESOLVED",
+      "Cannot check the meta-address network: set `network` in the Amora config " +
+        "or await getNetwork() first",
+      options
+    );
+    this.name = "UnresolvedNetworkError";
+  }
+}
+
+/**
+ * An account already has a meta-address of other keys registered
+ */
+export class MetaAddressConflictError extends AmoraError {
+  /** The registered account */
+  readonly registrantAddress: string;
+
+  constructor(registrantAddress: string, options?: ErrorOptions) {
+    super(
+      "META_ADDRESS_CONFLICT",
+      `Account ${registrantAddress} has a meta-address of other keys registered`,
+      options
+    );
+    this.name = "MetaAddressConflictError";
+    this.registrantAddress = registrantAddress;
+  }
+}
+
+/**
+ * Protocol options name an unsupported version or view tag width
+ */
+export class InvalidProtocolError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_PROTOCOL", message, options);
+    this.name = "InvalidProtocolError";
+  }
+}
+
+/**
+ * A stealth result is sent with raw felt metadata, which cannot carry the
+ * fields its announcement needs
+ */
+export class UntaggedMetadataError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("UNTAGGED_METADATA", message, options);
+    this.name = "UntaggedMetadataError";
+  }
+}
+
+/**
+ * Keys of a scheme the registry cannot hold are registered
+ */
+export class UnregistrableKeysError extends AmoraError {
+  /** Scheme ID of the keys */
+  readonly schemeId: bigint;
+
+  constructor(message: string, schemeId: bigint, options?: ErrorOptions) {
+    super("UNREGISTRABLE_KEYS", message, options);
+    this.name = "UnregistrableKeysError";
+    this.schemeId = schemeId;
+  }
+}
+
+/**
+ * No stealth account class is configured for a scheme, or none with a
+ * given class hash
+ */
+export class AccountClassNotFoundError extends AmoraError {
+  /** Scheme ID the class was looked up for */
+  readonly schemeId: bigint;
+  /** Class hash that was looked up, if any */
+  readonly classHash?: string;
+
+  constructor(message: string, schemeId: bigint, classHash?: string, options?: ErrorOptions) {
+    super("ACCOUNT_CLASS_NOT_FOUND", message, options);
+    this.name = "AccountClassNotFoundError";
+    this.schemeId = schemeId;
+    this.classHash = classHash;
+  }
+}
+
+/**
+ * A stealth account class does not fit where it is used: it holds keys of
+ * another scheme than the meta-address, or its deploy payload does not
+ * deploy the account at its stealth address
+ */
+export class AccountClassMismatchError extends AmoraError {
+  /** Class hash of the account */
+  readonly classHash: string;
+
+  constructor(message: string, classHash: string, options?: ErrorOptions) {
+    super("ACCOUNT_CLASS_MISMATCH", message, options);
+    this.name = "AccountClassMismatchError";
+    this.classHash = classHash;
+  }
+}
+
+/**
+ * Transaction options combine fee settings that do not apply together, or
+ * that do not apply to the operation
+ */
+export class InvalidTransactionOptionsError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_TRANSACTION_OPTIONS", message, options);
+    this.name = "InvalidTransactionOptionsError";
+  }
+}
+
+/**
+ * Another stealth scheme is already registered with a scheme ID
+ */
+export class SchemeConflictError extends AmoraError {
+  /** The contested scheme ID */
+  readonly schemeId: bigint;
+
+  constructor(message: string, schemeId: bigint, options?: ErrorOptions) {
+    super("SCHEME_CONFLICT", message, options);
+    this.name = "SchemeConflictError";
+    this.schemeId = schemeId;
+  }
+}
+
+/**
+ * A keystore is malformed, unsupported, or has been tampered with
+ */
+export class InvalidKeystoreError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("INVALID_KEYSTORE", message, options);
+    this.name = "InvalidKeystoreError";
+  }
+}
+
+/**
+ * A keystore was opened with the wrong password
+ */
+export class WrongPasswordError extends AmoraError {
+  constructor(options?: ErrorOptions) {
+    super("WRONG_PASSWORD", "Invalid keystore password", options);
+    this.name = "WrongPasswordError";
+  }
+}
+
+/**
+ * Tagged announcement metadata cannot be decoded
+ */
+export class MalformedMetadataError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("MALFORMED_METADATA", message, options);
+    this.name = "MalformedMetadataError";
+  }
+}
+
+/**
+ * A phrase is not a valid BIP-39 mnemonic
+ */
+export class InvalidMnemonicError extends AmoraError {
+  constructor(options?: ErrorOptions) {
+    super("INVALID_MNEMONIC", "Invalid mnemonic", options);
+    this.name = "InvalidMnemonicError";
+  }
+}
+
+/**
+ * A seed did not yield a usable key at a derivation path
+ */
+export class KeyDerivationError extends AmoraError {
+  /** The derivation path */
+  readonly path: string;
+
+  constructor(path: string, options?: ErrorOptions) {
+    super("KEY_DERIVATION_FAILED", `Key derivation failed at ${path}`, options);
+    this.name = "KeyDerivationError";
+    this.path = path;
+  }
+}
+
+/**
+ * A provider or paymaster returned data of an unexpected shape
+ */
+export class UnexpectedResponseError extends AmoraError {
+  constructor(message: string, options?: ErrorOptions) {
+    super("UNEXPECTED_RESPONSE", message, options);
+    this.name = "UnexpectedResponseError";
+  }
+}
+
+/**
+ * Check whether an error is a typed SDK error, optionally with a given code
+ * @param error - The caught error
+ * @param code - The code to match (default: any)
+ * @returns True if the error is an AmoraError (with that code)
+ */
+export function isAmoraError(error: unknown, code?: AmoraErrorCode): error is AmoraError {
+  return error instanceof AmoraError && (code === undefined || error.code === code);
+}
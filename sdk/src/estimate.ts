@@ -0,0 +1,321 @@
+/**
+ * Fee estimation and simulation of Amora operations
+ *
+ * Estimates and simulations run the same calls the sending methods build
+ * and describe the outcome the way a wallet shows it before the user
+ * confirms: the fee of each transaction, the total network fee, and the
+ * announcements the operation emits. Simulations also report whether the
+ * transactions would revert.
+ */
+
+import type {
+  Call,
+  EstimateFee,
+  SimulatedTransaction,
+  UniversalDetails,
+} from "starknet";
+import type { Announcement } from "./stealth";
+import { parseAnnouncementEvent } from "./announcements";
+import { feeTokenForUnit, maxFeeOf } from "./fees";
+import { UnexpectedResponseError } from "./errors";
+
+/** Kind of transaction an operation sends */
+export type OperationTransactionType = "DEPLOY_ACCOUNT" | "INVOKE";
+
+/**
+ * Fee of one transaction of an operation
+ */
+export interface FeeBreakdown {
+  /** Kind of transaction */
+  type: OperationTransactionType;
+  /** Token the fee is paid in */
+  feeToken: string;
+  /** Price unit of the fee ("WEI" for ETH, "FRI" for STRK) */
+  unit: string;
+  /** L1 gas consumed */
+  gasConsumed: bigint;
+  /** L1 gas price */
+  gasPrice: bigint;
+  /** L1 data gas consumed */
+  dataGasConsumed: bigint;
+  /** L1 data gas price */
+  dataGasPrice: bigint;
+  /** Estimated fee */
+  overallFee: bigint;
+  /** Most the transaction can be charged under its fee limits */
+  maxFee: bigint;
+}
+
+/**
+ * Estimated cost and effect of an operation
+ */
+export interface OperationEstimate {
+  /** Fee of each transaction, in the order they are sent */
+  transactions: FeeBreakdown[];
+  /** Token the fees are paid in */
+  feeToken: string;
+  /** Estimated fee of all transactions (the network fee to show) */
+  overallFee: bigint;
+  /** Most all transactions can be charged under their fee limits */
+  maxFee: bigint;
+  /** Announcements the operation emits */
+  announcements: Announcement[];
+}
+
+/**
+ * Simulated cost and effect of an operation
+ *
+ * Announcements are read from the simulated events, so a reverted
+ * transaction contributes none.
+ */
+export interface OperationSimulation extends OperationEstimate {
+  /** Whether every transaction executed without reverting */
+  succeeded: boolean;
+  /** Why a transaction reverted */
+  revertReason?: string;
+  /** The raw simulation results, with full execution traces */
+  simulatedTransactions: SimulatedTransaction[];
+}
+
+/**
+ * Estimated cost of deploying (if needed) and withdrawing from a stealth account
+ */
+export interface WithdrawalEstimate extends OperationEstimate {
+  /** Amount withdrawn (for "all", what the fees leave) */
+  amount: bigint;
+}
+
+/**
+ * Simulated deployment (if needed) and withdrawal from a stealth account
+ */
+export interface WithdrawalSimulation extends OperationSimulation {
+  /** Amount withdrawn (for "all", what the fees leave) */
+  amount: bigint;
+}
+
+/**
+ * Break down a transaction's fee estimate
+ * @param type - The kind of transaction
+ * @param estimate - The fee estimate
+ * @param overrides - Explicit fee limits the transaction is sent with
+ * @returns The fee breakdown
+ */
+export function feeBreakdown(
+  type: OperationTransactionType,
+  estimate: EstimateFee,
+  overrides: UniversalDetails = {}
+): FeeBreakdown {
+  return {
+    type,
+    feeToken: feeTokenForUnit(estimate.unit),
+    unit: estimate.unit,
+    gasConsumed: estimate.gas_consumed,
+    gasPrice: estimate.gas_price,
+    dataGasConsumed: estimate.data_gas_consumed ?? 0n,
+    dataGasPrice: estimate.data_gas_price ?? 0n,
+    overallFee: estimate.overall_fee,
+    maxFee: maxFeeOf(estimate, overrides),
+  };
+}
+
+/**
+ * Total the fees of an operation's transactions
+ * @param transactions - Fee of each transaction
+ * @param announcements - Announcements the operation emits
+ * @returns The operation estimate
+ */
+export function summarizeFees(
+  transactions: FeeBreakdown[],
+  announcements: Announcement[]
+): OperationEstimate {
+  return {
+    transactions,
+    feeToken: transactions[0].feeToken,
+    overallFee: transactions.reduce((sum, tx) => sum + tx.overallFee, 0n),
+    maxFee: transactions.reduce((sum, tx) => sum + tx.maxFee, 0n),
+    announcements,
+  };
+}
+
+/**
+ * Predict the announcements a set of calls emits
+ * @param calls - The calls of a transaction
+ * @param registryAddress - Address of the Amora registry contract
+ * @param callerAddress - The account sending the calls
+ * @returns An announcement for every announce call to the registry
+ */
+export function predictAnnouncements(
+  calls: Call[],
+  registryAddress: string,
+  callerAddress: string
+): Announcement[] {
+  const announcements: Announcement[] = [];
+  for (const call of calls) {
+    if (
+      call.entrypoint !== "announce" ||
+      BigInt(call.contractAddress) !== BigInt(registryAddress)
+    ) {
+      continue;
+    }
+    // announce(stealth_address, ephemeral_pubkey, view_tag, metadata) emits
+    // the same fields with the caller after the stealth address
+    const [stealthAddress, ...rest] = (call.calldata as string[]).map(String);
+    const announcement = parseAnnouncementEvent({
+      data: [stealthAddress, callerAddress, ...rest],
+    });
+    if (announcement !== null) {
+      announcements.push(announcement);
+    }
+  }
+  return announcements;
+}
+
+/**
+ * Read the announcements emitted in simulated transactions
+ * @param simulated - The simulation results
+ * @param registryAddress - Address of the Amora registry contract
+ * @returns The registry's announcements, in emission order
+ */
+export function simulatedAnnouncements(
+  simulated: SimulatedTransaction[],
+  registryAddress: string
+): Announcement[] {
+  const announcements: Announcement[] = [];
+  for (const transaction of simulated) {
+    const trace = traceOf(transaction);
+    const events: TraceEvent[] = [];
+    for (const invocation of [trace.constructor_invocation, trace.execute_invocation]) {
+      if (invocation !== undefined && !("revert_reason" in invocation)) {
+        collectEvents(invocation, registryAddress, events);
+      }
+    }
+    events.sort((a, b) => a.order - b.order);
+    for (const event of events) {
+      const announcement = parseAnnouncementEvent({ data: event.data });
+      if (announcement !== null) {
+        announcements.push(announcement);
+      }
+    }
+  }
+  return announcements;
+}
+
+/**
+ * Summarize simulated transactions
+ * @param simulated - The simulation results
+ * @param registryAddress - Address of the Amora registry contract
+ * @param overrides - Explicit fee limits the transactions are sent with
+ * @returns The operation simulation
+ */
+export function summarizeSimulation(
+  simulated: SimulatedTransaction[],
+  registryAddress: string,
+  overrides: UniversalDetails = {}
+): OperationSimulation {
+  const transactions = simulated.map((transaction) =>
+    feeBreakdown(
+      traceOf(transaction).type,
+      toEstimateFee(transaction),
+      overrides
+    )
+  );
+  const revertReason = simulated
+    .map((transaction) => traceOf(transaction).execute_invocation)
+    .find((invocation) => invocation !== undefined && "revert_reason" in invocation)
+    ?.revert_reason;
+
+  return {
+    ...summarizeFees(transactions, simulatedAnnouncements(simulated, registryAddress)),
+    succeeded: revertReason === undefined,
+    ...(revertReason !== undefined && { revertReason }),
+    simulatedTransactions: simulated,
+  };
+}
+
+/**
+ * Trace of a simulated transaction, as returned by the RPC
+ */
+interface Trace {
+  type: OperationTransactionType;
+  constructor_invocation?: TraceInvocation;
+  execute_invocation?: TraceInvocation | { revert_reason: string };
+}
+
+/**
+ * A function invocation within a trace
+ */
+interface TraceInvocation {
+  contract_address: string;
+  calls: TraceInvocation[];
+  events: TraceEvent[];
+}
+
+/**
+ * An event emitted within a trace, ordered within its transaction
+ */
+interface TraceEvent {
+  order: number;
+  keys: string[];
+  data: string[];
+}
+
+/**
+ * Read the trace of a simulated transaction
+ *
+ * starknet.js types the trace as a merge of RPC spec versions whose fields
+ * cannot be read, so the shape is checked here instead of cast.
+ * @throws UnexpectedResponseError if the trace is not that of an invoke or
+ *   account deployment
+ */
+function traceOf(transaction: SimulatedTransaction): Trace {
+  const trace: unknown = transaction.transaction_trace;
+  if (!isTrace(trace)) {
+    throw new UnexpectedResponseError("Unexpected simulated transaction trace");
+  }
+  return trace;
+}
+
+/**
+ * Check that a value is the trace of an invoke or account deployment
+ */
+function isTrace(value: unknown): value is Trace {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    (value.type === "INVOKE" || value.type === "DEPLOY_ACCOUNT")
+  );
+}
+
+/**
+ * Collect the events a contract emits within an invocation and its nested calls
+ */
+function collectEvents(
+  invocation: TraceInvocation,
+  contractAddress: string,
+  events: TraceEvent[]
+): void {
+  if (BigInt(invocation.contract_address) === BigInt(contractAddress)) {
+    events.push(...invocation.events);
+  }
+  for (const call of invocation.calls) {
+    collectEvents(call, contractAddress, events);
+  }
+}
+
+/**
+ * Convert a simulation's raw fee estimate to a parsed estimate
+ */
+function toEstimateFee(transaction: SimulatedTransaction): EstimateFee {
+  const estimate = transaction.fee_estimation;
+  return {
+    overall_fee: BigInt(estimate.overall_fee),
+    gas_consumed: BigInt(estimate.gas_consumed),
+    gas_price: BigInt(estimate.gas_price),
+    data_gas_consumed: BigInt(estimate.data_gas_consumed ?? 0),
+    data_gas_price: BigInt(estimate.data_gas_price ?? 0),
+    unit: estimate.unit,
+    suggestedMaxFee: transaction.suggestedMaxFee,
+    resourceBounds: transaction.resourceBounds,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Fee reservation for withdrawals paid by the stealth account itself
+ *
+ * A stealth account that only received ETH or STRK has nothing else to pay
+ * its deployment and withdrawal fees with, so withdrawing "everything" must
+ * leave the maximum fee behind. Fees are estimated for the transactions that
+ * will actually be sent, reserved from the balance of the token they are
+ * paid in, and pinned on those transactions so they cannot cost more.
+ */
+
+import type { EstimateFee, UniversalDetails } from "starknet";
+import { InsufficientBalanceError, UnexpectedResponseError } from "./errors";
+import { hasFeeSettings, type TransactionOptions } from "./transactions";
+
+/** ETH token contract address (fees of WEI-priced transactions) */
+export const ETH_TOKEN_ADDRESS =
+  "0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+
+/** STRK token contract address (fees of FRI-priced transactions) */
+export const STRK_TOKEN_ADDRESS =
+  "0x04718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+/**
+ * Estimated fees of deploying (if needed) and withdrawing from a stealth account
+ */
+export interface WithdrawalFees {
+  /** Token the fees are paid in */
+  feeToken: string;
+  /** Maximum fee of the account deployment (0 if already deployed) */
+  deployFee: bigint;
+  /** Maximum fee of the withdrawal */
+  withdrawFee: bigint;
+  /** Sum of both fees */
+  totalFee: bigint;
+  /** Fee limits for the deployment transaction */
+  deployDetails?: UniversalDetails;
+  /** Fee limits for the withdrawal transaction */
+  withdrawDetails: UniversalDetails;
+}
+
+/**
+ * Get the token fees are paid in for an estimate's price unit
+ * @param unit - The estimate unit ("WEI" or "FRI")
+ * @returns The ETH or STRK token address
+ * @throws UnexpectedResponseError if the unit is neither
+ */
+export function feeTokenForUnit(unit: string): string {
+  switch (unit) {
+    case "WEI":
+      return ETH_TOKEN_ADDRESS;
+    case "FRI":
+      return STRK_TOKEN_ADDRESS;
+    default:
+      throw new UnexpectedResponseError(`Unknown fee unit: ${unit}`);
+  }
+}
+
+/**
+ * Pick the fee token of a withdrawal the caller chose no fee settings for
+ * An account withdrawing STRK but no ETH pays its fees in STRK, as it may
+ * hold nothing else; otherwise the options are returned unchanged.
+ * @param tokens - Addresses of the withdrawn tokens
+ * @param options - The caller's transaction options
+ * @returns The options to send the withdrawal with
+ */
+export function withdrawalFeeOptions<T extends TransactionOptions>(
+  tokens: string[],
+  options: T
+): T {
+  if (hasFeeSettings(options)) {
+    return options;
+  }
+  const withdraws = (token: string) => tokens.some((t) => BigInt(t) === BigInt(token));
+  if (withdraws(STRK_TOKEN_ADDRESS) && !withdraws(ETH_TOKEN_ADDRESS)) {
+    return { ...options, feeToken: "STRK" };
+  }
+  return options;
+}
+
+/**
+ * Get the most a transaction can be charged under an estimate's limits
+ * @param estimate - The fee estimate
+ * @param overrides - Explicit fee limits, used instead of the estimated ones
+ * @returns The maximum fee, in the estimate's unit
+ */
+export function maxFeeOf(
+  estimate: EstimateFee,
+  overrides: UniversalDetails = {}
+): bigint {
+  return maxFeeOfDetails(estimate.unit, { ...feeDetails(estimate), ...overrides });
+}
+
+/**
+ * Combine fee estimates into withdrawal fees
+ * @param withdrawEstimate - Estimate of the withdrawal
+ * @param deployEstimate - Estimate of the deployment, if the account is not deployed
+ * @param overrides - Explicit fee limits, used instead of the estimated ones
+ * @returns The withdrawal fees
+ */
+export function withdrawalFees(
+  withdrawEstimate: EstimateFee,
+  deployEstimate?: EstimateFee,
+  overrides: UniversalDetails = {}
+): WithdrawalFees {
+  const unit = withdrawEstimate.unit;
+  const withdrawDetails = { ...feeDetails(withdrawEstimate), ...overrides };
+  const deployDetails = deployEstimate && { ...feeDetails(deployEstimate), ...overrides };
+  const withdrawFee = maxFeeOfDetails(unit, withdrawDetails);
+  const deployFee = deployDetails ? maxFeeOfDetails(unit, deployDetails) : 0n;
+  return {
+    feeToken: feeTokenForUnit(unit),
+    deployFee,
+    withdrawFee,
+    totalFee: deployFee + withdrawFee,
+    deployDetails,
+    withdrawDetails,
+  };
+}
+
+/**
+ * Reduce the fee token's transfer by the fees it has to cover
+ * @param transfers - Full-balance transfers, one per token
+ * @param fees - The estimated withdrawal fees
+ * @returns The transfers left after reserving the fees
+ * @throws InsufficientBalanceError if the fee token balance cannot cover the fees
+ */
+export function reserveFees<T extends { token: string; amount: bigint }>(
+  transfers: T[],
+  fees: WithdrawalFees
+): T[] {
+  return transfers.map((transfer) => {
+    if (BigInt(transfer.token) !== BigInt(fees.feeToken)) {
+      return transfer;
+    }
+    if (transfer.amount <= fees.totalFee) {
+      throw new InsufficientBalanceError(
+        `Insufficient balance to cover fees: balance ${transfer.amount}, ` +
+          `estimated fees ${fees.totalFee} ` +
+          `(deploy ${fees.deployFee} + withdraw ${fees.withdrawFee})`,
+        transfer.token,
+        transfer.amount,
+        fees.totalFee
+      );
+    }
+    return { ...transfer, amount: transfer.amount - fees.totalFee };
+  });
+}
+
+/**
+ * Get the most a transaction can be charged under its fee limits
+ */
+function maxFeeOfDetails(unit: string, details: UniversalDetails): bigint {
+  if (unit !== "FRI") {
+    return BigInt(details.maxFee ?? 0);
+  }
+  // V3 transactions are bounded by their resource bounds, not maxFee
+  const { l1_gas, l2_gas } = details.resourceBounds!;
+  return (
+    BigInt(l1_gas.max_amount) * BigInt(l1_gas.max_price_per_unit) +
+    BigInt(l2_gas.max_amount) * (BigInt(l2_gas.max_price_per_unit) + BigInt(details.tip ?? 0))
+  );
+}
+
+/**
+ * Transaction details pinning the fee limits of an estimate
+ */
+function feeDetails(estimate: EstimateFee): UniversalDetails {
+  return {
+    maxFee: estimate.suggestedMaxFee,
+    resourceBounds: estimate.resourceBounds,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Block finality tracking
+ *
+ * Starknet blocks move from PENDING to ACCEPTED_ON_L2 once sequenced, and to
+ * ACCEPTED_ON_L1 once their state update is proven on Ethereum. Only
+ * ACCEPTED_ON_L1 blocks are final; anything earlier may still be reorganized.
+ */
+
+import type { RpcProvider } from "starknet";
+
+/**
+ * Finality status of the block containing an announcement
+ */
+export type FinalityStatus = "PENDING" | "ACCEPTED_ON_L2" | "ACCEPTED_ON_L1";
+
+/**
+ * Hash and finality of a block on the canonical chain
+ */
+export interface BlockStatus {
+  /** The block number */
+  blockNumber: number;
+  /** The block hash */
+  blockHash: string;
+  /** The block's finality status */
+  finality: FinalityStatus;
+}
+
+const FINALITY_ORDER: Record<FinalityStatus, number> = {
+  PENDING: 0,
+  ACCEPTED_ON_L2: 1,
+  ACCEPTED_ON_L1: 2,
+};
+
+/**
+ * Check whether a finality status is at least as final as another
+ * @param status - The status to check
+ * @param minimum - The required status
+ * @returns true if `status` satisfies `minimum`
+ */
+export function isAtLeastFinality(
+  status: FinalityStatus,
+  minimum: FinalityStatus
+): boolean {
+  return FINALITY_ORDER[status] >= FINALITY_ORDER[minimum];
+}
+
+/**
+ * Fetch the hash and finality status of a block
+ * @param provider - RPC provider
+ * @param blockNumber - The block number
+ * @returns The block status, or null if the block is not (or no longer) on the canonical chain
+ */
+export async function fetchBlockStatus(
+  provider: RpcProvider,
+  blockNumber: number
+): Promise<BlockStatus | null> {
+  let block: Awaited<ReturnType<RpcProvider["getBlockWithTxHashes"]>>;
+  try {
+    block = await provider.getBlockWithTxHashes(blockNumber);
+  } catch (e) {
+    if (e instanceof Error && /block not found/i.test(e.message)) {
+      return null;
+    }
+    throw e;
+  }
+
+  if (!("block_hash" in block) || block.status === "REJECTED") {
+    return null;
+  }
+
+  return {
+    blockNumber,
+    blockHash: block.block_hash,
+    finality: block.status,
+  };
+}
+
+/**
+ * Find the highest block in a range that has reached a finality status
+ *
+ * Relies on finality being monotonic in block number, so only
+ * O(log n) blocks are queried.
+ * @param getStatus - Block status lookup (e.g. Amora.getBlockStatus)
+ * @param fromBlock - Lowest block to consider
+ * @param toBlock - Highest block to consider
+ * @param minimum - The required status
+ * @returns The highest matching block, or fromBlock - 1 if none match
+ */
+export async function findLastBlockWithFinality(
+  getStatus: (blockNumber: number) => Promise<BlockStatus | null>,
+  fromBlock: number,
+  toBlock: number,
+  minimum: FinalityStatus
+): Promise<number> {
+  let low = fromBlock;
+  let high = toBlock;
+  let found = fromBlock - 1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const status = await getStatus(mid);
+    if (status !== null && isAtLeastFinality(status.finality, minimum)) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found;
+}
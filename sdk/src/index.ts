@@ -37,29 +37,114 @@ export {
   type AmoraConfig,
   type BatchPayment,
   type BatchSendResult,
+  type BatchSendOptions,
+  type BatchSendEstimate,
+  type BatchSendSimulation,
+  type ScanOptions,
+  type PaymentMetadata,
+  type WithdrawOptions,
+  type StealthAccountOptions,
+  type KeyParityReport,
+  type KeyMigrationResult,
 } from "./contracts";
 
+// Errors
+export {
+  AmoraError,
+  InvalidMetaAddressError,
+  NetworkMismatchError,
+  InvalidViewingKeyError,
+  InvalidPointError,
+  OutOfRangeError,
+  NonNormalizedKeyError,
+  UnsupportedSchemeError,
+  InvalidPaymentLinkError,
+  MalformedMemoError,
+  MalformedAnnouncementError,
+  InsufficientBalanceError,
+  AccountNotDeployedError,
+  UnsupportedAccountClassError,
+  UnresolvedNetworkError,
+  MetaAddressConflictError,
+  InvalidProtocolError,
+  UntaggedMetadataError,
+  UnregistrableKeysError,
+  AccountClassNotFoundError,
+  AccountClassMismatchError,
+  InvalidTransactionOptionsError,
+  SchemeConflictError,
+  InvalidKeystoreError,
+  WrongPasswordError,
+  MalformedMetadataError,
+  InvalidMnemonicError,
+  KeyDerivationError,
+  UnexpectedResponseError,
+  isAmoraError,
+  type AmoraErrorCode,
+} from "./errors";
+
 // Key generation
 export {
   generateKeys,
   generateKeyPair,
   keyPairFromPrivateKey,
   keysFromPrivateKeys,
+  importKeyPair,
+  importKeys,
+  generateMnemonic,
+  isValidMnemonic,
+  keysFromMnemonic,
+  keysFromSeed,
+  stealthKeyPath,
+  KEY_DERIVATION_VERSION,
   type KeyPair,
   type StealthKeys,
+  type MnemonicKeyOptions,
+  type KeyParityMode,
+  type ImportKeyOptions,
+  type ImportedKeys,
 } from "./keys";
 
+// Password-encrypted keystore
+export {
+  encryptKeys,
+  decryptKeys,
+  KEYSTORE_VERSION,
+  DEFAULT_KEYSTORE_ITERATIONS,
+  type Keystore,
+  type EncryptKeysOptions,
+} from "./keystore";
+
+// Stealth keys from a wallet signature
+export {
+  getKeyDerivationTypedData,
+  keysFromSignature,
+  SIGNATURE_KEY_MESSAGE_VERSION,
+} from "./signature-keys";
+
 // Meta-address encoding/parsing
 export {
   encodeMetaAddress,
   encodeMetaAddressFromPubKeys,
   parseMetaAddress,
   isValidMetaAddress,
+  networkFromChainId,
   META_ADDRESS_PREFIX,
   CHAIN_ID,
+  META_ADDRESS_V2,
+  NETWORK_MAINNET,
+  NETWORK_SEPOLIA,
   type MetaAddress,
+  type MetaAddressOptions,
 } from "./meta-address";
 
+// Precomputed recipient contexts
+export {
+  createStealthContext,
+  isStealthContext,
+  type StealthContext,
+} from "./context";
+
 // Stealth address operations
 export {
   generateStealthAddress,
@@ -69,25 +154,239 @@ export {
   checkAnnouncementViewTag,
   verifyAndComputeStealthKey,
   scanAnnouncements,
+  announcementProtocol,
+  announcementScheme,
+  viewTagMatches,
+  type ProtocolOptions,
   type GenerateStealthAddressResult,
   type Announcement,
   type StealthPayment,
 } from "./stealth";
 
+// Announcement fetching
+export {
+  fetchAnnouncementEvents,
+  parseAnnouncementEvent,
+  splitBlockRange,
+  DEFAULT_EVENTS_CHUNK_SIZE,
+  DEFAULT_BLOCK_RANGE_SIZE,
+  DEFAULT_FETCH_CONCURRENCY,
+  type FetchAnnouncementsOptions,
+  type FetchAnnouncementsProgress,
+  type BlockRange,
+  type AnnouncementEvent,
+} from "./announcements";
+
+// Multi-recipient scanning
+export {
+  scanAnnouncementsForRecipients,
+  type ScanRecipient,
+  type RecipientMatch,
+} from "./multi-scan";
+
+// Parallel scanning
+export {
+  scanAnnouncementsParallel,
+  runScanTask,
+  handleScanWorkerRequest,
+  type ParallelScanOptions,
+  type ScanTask,
+  type ScanWorker,
+  type ScanWorkerFactory,
+  type ScanWorkerRequest,
+  type ScanWorkerResponse,
+} from "./parallel";
+
+// Incremental scanning
+export {
+  AmoraScanner,
+  MemoryScanStore,
+  JsonFileScanStore,
+  serializeScanState,
+  deserializeScanState,
+  announcementId,
+  type ScanState,
+  type ScanStore,
+  type TrackedBlock,
+  type AmoraScannerOptions,
+} from "./scanner";
+
+// Block finality
+export {
+  fetchBlockStatus,
+  findLastBlockWithFinality,
+  isAtLeastFinality,
+  type FinalityStatus,
+  type BlockStatus,
+} from "./finality";
+
+// Live payment watching
+export {
+  AmoraWatcher,
+  isEventSubscriptionSource,
+  DEFAULT_POLL_INTERVAL,
+  DEFAULT_MAX_BACKOFF,
+  type WatchOptions,
+  type EventSubscriptionSource,
+  type EventSubscriptionHandlers,
+} from "./watcher";
+
 // Low-level cryptographic primitives
 export {
   SCHEME_ID_STARK,
   CURVE_ORDER,
+  FIELD_PRIME,
   generatePrivateKey,
+  normalizePrivateKey,
+  isNormalizedPrivateKey,
   derivePublicKey,
   ecdh,
+  ecdhMany,
+  precomputePoint,
+  PRECOMPUTE_WINDOW_SIZE,
+  type CurvePoint,
   poseidonHash,
   computeViewTag,
+  computeViewTagV2,
+  computeStealthTweak,
+  PROTOCOL_V1,
+  PROTOCOL_V2,
+  MIN_VIEW_TAG_BITS,
+  MAX_VIEW_TAG_BITS,
+  type ProtocolVersion,
 } from "./crypto";
 
+// Stealth schemes
+export {
+  SCHEME_ID_SECP256K1,
+  starkScheme,
+  secp256k1Scheme,
+  registerScheme,
+  getScheme,
+  isSupportedScheme,
+  getSchemes,
+  type StealthScheme,
+} from "./schemes";
+
+// Stealth account classes
+export {
+  defineAccountClass,
+  schemeAccountClass,
+  argentAccountClass,
+  computeAccountAddress,
+  resolveAccountClasses,
+  matchAccountClass,
+  type StealthAccountClass,
+  type AccountClassOptions,
+  type AccountClasses,
+} from "./account-classes";
+
+// Cryptographic input validation
+export {
+  validatePrivateKey,
+  validatePublicKey,
+  validateFelt,
+  validateAnnouncement,
+  ephemeralPointOf,
+  isValidPrivateKey,
+  isValidPublicKey,
+} from "./validation";
+
 // Memo encoding/decoding
 export { encodeMemo, decodeMemo } from "./memo";
 
+// Balance discovery
+export {
+  decodeU256,
+  fetchPaymentBalances,
+  DEFAULT_BALANCE_CONCURRENCY,
+  type GetBalancesOptions,
+  type PaymentBalance,
+  type BalancesResult,
+} from "./balances";
+
+// Sweeping many payments
+export {
+  planSweep,
+  type SweepOptions,
+  type SweepGroup,
+  type SweepStatus,
+  type SweepPaymentResult,
+  type SweepResult,
+} from "./sweep";
+
+// Withdrawal fees
+export {
+  ETH_TOKEN_ADDRESS,
+  STRK_TOKEN_ADDRESS,
+  feeTokenForUnit,
+  maxFeeOf,
+  withdrawalFees,
+  withdrawalFeeOptions,
+  reserveFees,
+  type WithdrawalFees,
+} from "./fees";
+
+// Transaction options
+export {
+  toTransactionDetails,
+  type TransactionOptions,
+  type ResourceBounds,
+  type ResourceBound,
+} from "./transactions";
+
+// Fee estimation and simulation
+export {
+  feeBreakdown,
+  summarizeFees,
+  summarizeSimulation,
+  predictAnnouncements,
+  simulatedAnnouncements,
+  type FeeBreakdown,
+  type OperationTransactionType,
+  type OperationEstimate,
+  type OperationSimulation,
+  type WithdrawalEstimate,
+  type WithdrawalSimulation,
+} from "./estimate";
+
+// Paymasters
+export {
+  RpcPaymaster,
+  MockPaymaster,
+  type PaymasterClient,
+  type PaymasterFeeMode,
+  type PaymasterDeployment,
+  type PaymasterTransaction,
+  type PaymasterInvoke,
+  type PaymasterFeeEstimate,
+  type PaymasterBuiltTransaction,
+  type PaymasterExecution,
+  type PaymasterSignedInvoke,
+  type PaymasterExecuteResult,
+  type RpcPaymasterOptions,
+  type MockPaymasterOptions,
+  type MockPaymasterExecution,
+} from "./paymaster";
+
+// Encrypted memos
+export { encryptMemo, decryptMemo, readMemo } from "./encrypted-memo";
+
+// Typed announcement metadata
+export {
+  encodeMetadata,
+  decodeMetadata,
+  tryDecodeMetadata,
+  isTaggedMetadata,
+  METADATA_VERSION,
+  METADATA_TAG,
+  APP_TAG_START,
+  type MetadataFields,
+  type AnnouncementMetadata,
+  type AppMetadataField,
+  type AnnouncementProtocol,
+} from "./metadata";
+
 // Payment links
 export {
   generatePaymentLink,
@@ -2,7 +2,39 @@
  * Key generation and management for stealth addresses
  */
 
-import { generatePrivateKey, derivePublicKey } from "./crypto";
+import { HDKey } from "@scure/bip32";
+import {
+  generateMnemonic as generateBip39Mnemonic,
+  mnemonicToSeedSync,
+  validateMnemonic,
+} from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { generatePrivateKey, derivePublicKey, privateKeyFromSeed } from "./crypto";
+import { validatePrivateKey } from "./validation";
+import {
+  InvalidMnemonicError,
+  KeyDerivationError,
+  NonNormalizedKeyError,
+  OutOfRangeError,
+} from "./errors";
+import { getScheme, starkScheme, type StealthScheme } from "./schemes";
+
+/**
+ * Current version of the mnemonic key derivation scheme.
+ * Part of the derivation path, so a future scheme derives different keys
+ * instead of silently changing existing ones.
+ */
+export const KEY_DERIVATION_VERSION = 1;
+
+// EIP-2645 path levels: purpose, then the low 31 bits of sha256("starknet")
+// and sha256("amora") as the layer and application
+const EIP2645_PURPOSE = 2645;
+const STARKNET_LAYER = 1195502025;
+const AMORA_APPLICATION = 1917839802;
+
+// Last path level for each key role
+const SPENDING_KEY_INDEX = 0;
+const VIEWING_KEY_INDEX = 1;
 
 /**
  * A keypair consisting of a private key and its corresponding public key
@@ -18,6 +50,8 @@ export interface KeyPair {
 export interface StealthKeys {
   spendingKey: KeyPair;
   viewingKey: KeyPair;
+  /** Stealth scheme of the spending key (absent for STARK) */
+  schemeId?: bigint;
 }
 
 /**
@@ -32,12 +66,21 @@ export function generateKeyPair(): KeyPair {
 
 /**
  * Generate complete stealth address keys (spending + viewing)
+ * @param schemeId - Stealth scheme of the spending key (default: STARK);
+ *   the viewing key is always a STARK key
  * @returns StealthKeys containing both keypairs
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
-export function generateKeys(): StealthKeys {
+export function generateKeys(schemeId?: bigint): StealthKeys {
+  const scheme = getScheme(schemeId);
+  const spendingPrivateKey = scheme.generateSpendingKey();
   return {
-    spendingKey: generateKeyPair(),
+    spendingKey: {
+      privateKey: spendingPrivateKey,
+      publicKey: scheme.deriveSpendingPublicKey(spendingPrivateKey),
+    },
     viewingKey: generateKeyPair(),
+    ...schemeField(scheme),
   };
 }
 
@@ -45,24 +88,257 @@ export function generateKeys(): StealthKeys {
  * Derive a keypair from an existing private key
  * @param privateKey - The private key to derive from
  * @returns A KeyPair with the given private key and derived public key
+ * @throws OutOfRangeError if the private key is not in [1, CURVE_ORDER)
  */
 export function keyPairFromPrivateKey(privateKey: bigint): KeyPair {
+  validatePrivateKey(privateKey);
   const publicKey = derivePublicKey(privateKey);
   return { privateKey, publicKey };
 }
 
 /**
  * Create StealthKeys from existing private keys
+ *
+ * The keys are used as given. A STARK spending key whose public key has an
+ * odd y-coordinate yields stealth private keys that do not control their
+ * stealth addresses, and a secp256k1 one is rejected; use importKeys for
+ * keys generated outside the SDK.
  * @param spendingPrivateKey - The spending private key
  * @param viewingPrivateKey - The viewing private key
+ * @param schemeId - Stealth scheme of the spending key (default: STARK)
  * @returns Complete StealthKeys
+ * @throws OutOfRangeError if a private key is out of range for its curve
+ * @throws InvalidPointError if the scheme rejects the spending public key
+ * @throws NonNormalizedKeyError if the scheme rejects a spending key whose
+ *   public key has an odd y-coordinate
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
 export function keysFromPrivateKeys(
   spendingPrivateKey: bigint,
-  viewingPrivateKey: bigint
+  viewingPrivateKey: bigint,
+  schemeId?: bigint
 ): StealthKeys {
+  const scheme = getScheme(schemeId);
+  scheme.validatePrivateKey(spendingPrivateKey, "spending private key");
+  validatePrivateKey(viewingPrivateKey, "viewing private key");
+  const spendingPubKey = scheme.deriveSpendingPublicKey(spendingPrivateKey);
+  scheme.validateSpendingPublicKey(spendingPubKey);
   return {
-    spendingKey: keyPairFromPrivateKey(spendingPrivateKey),
+    spendingKey: { privateKey: spendingPrivateKey, publicKey: spendingPubKey },
     viewingKey: keyPairFromPrivateKey(viewingPrivateKey),
+    ...schemeField(scheme),
   };
 }
+
+/**
+ * The schemeId field of keys in a scheme (omitted for STARK)
+ */
+function schemeField(scheme: StealthScheme): { schemeId?: bigint } {
+  return scheme === starkScheme ? {} : { schemeId: scheme.id };
+}
+
+/**
+ * How to import a private key whose public key has an odd y-coordinate
+ * - "normalize": use CURVE_ORDER - key, which has the same public key
+ * - "reject": throw NonNormalizedKeyError
+ */
+export type KeyParityMode = "normalize" | "reject";
+
+/**
+ * Options for importing private keys
+ */
+export interface ImportKeyOptions {
+  /** What to do with non-normalized keys (default: "normalize") */
+  parity?: KeyParityMode;
+  /**
+   * Stealth scheme of the key (default: STARK); importKeys applies it to
+   * the spending key, since viewing keys are always STARK keys
+   */
+  schemeId?: bigint;
+}
+
+/**
+ * Stealth keys imported from external private keys
+ */
+export interface ImportedKeys {
+  /** The normalized stealth keys */
+  keys: StealthKeys;
+  /** Whether each imported key had to be normalized */
+  wasNormalized: {
+    spendingKey: boolean;
+    viewingKey: boolean;
+  };
+}
+
+/**
+ * Import a private key generated outside the SDK
+ *
+ * Public keys are x-coordinates and recovered with even y, so a key whose
+ * public point has odd y must be negated on its scheme's curve. Both keys
+ * share the public key, so normalizing never changes a meta-address.
+ * @param privateKey - The private key to import
+ * @param options - How to handle a non-normalized key, and the key's scheme
+ * @param keyName - The key's name for error messages
+ * @returns The normalized keypair, and whether the key had to be normalized
+ * @throws OutOfRangeError if the key is out of range for its curve
+ * @throws NonNormalizedKeyError if the key is not normalized and parity is "reject"
+ * @throws UnsupportedSchemeError if the scheme is not registered
+ */
+export function importKeyPair(
+  privateKey: bigint,
+  options: ImportKeyOptions = {},
+  keyName = "private key"
+): { keyPair: KeyPair; wasNormalized: boolean } {
+  const scheme = getScheme(options.schemeId);
+  scheme.validatePrivateKey(privateKey, keyName);
+  const normalized = scheme.normalizeSpendingKey(privateKey);
+  if (normalized !== privateKey && options.parity === "reject") {
+    throw new NonNormalizedKeyError(keyName);
+  }
+  return {
+    keyPair: { privateKey: normalized, publicKey: scheme.deriveSpendingPublicKey(normalized) },
+    wasNormalized: normalized !== privateKey,
+  };
+}
+
+/**
+ * Import StealthKeys from private keys generated outside the SDK
+ * @param spendingPrivateKey - The spending private key
+ * @param viewingPrivateKey - The viewing private key
+ * @param options - How to handle non-normalized keys, and the scheme of the
+ *   spending key
+ * @returns The normalized keys, and which keys had to be normalized
+ * @throws OutOfRangeError if a key is out of range for its curve
+ * @throws InvalidPointError if the scheme rejects the spending public key
+ * @throws NonNormalizedKeyError if a key is not normalized and parity is "reject"
+ * @throws UnsupportedSchemeError if the scheme is not registered
+ */
+export function importKeys(
+  spendingPrivateKey: bigint,
+  viewingPrivateKey: bigint,
+  options: ImportKeyOptions = {}
+): ImportedKeys {
+  const spending = importKeyPair(spendingPrivateKey, options, "spending private key");
+  const viewing = importKeyPair(
+    viewingPrivateKey,
+    { ...options, schemeId: undefined },
+    "viewing private key"
+  );
+  return {
+    keys: keysFromPrivateKeys(
+      spending.keyPair.privateKey,
+      viewing.keyPair.privateKey,
+      options.schemeId
+    ),
+    wasNormalized: { spendingKey: spending.wasNormalized, viewingKey: viewing.wasNormalized },
+  };
+}
+
+/**
+ * Options for deriving keys from a mnemonic
+ */
+export interface MnemonicKeyOptions {
+  /** Optional BIP-39 passphrase ("25th word") */
+  passphrase?: string;
+  /** Account index, to derive several independent key sets (default: 0) */
+  accountIndex?: number;
+  /** Derivation scheme version (default: KEY_DERIVATION_VERSION) */
+  version?: number;
+}
+
+/**
+ * Generate a new random BIP-39 mnemonic (English wordlist)
+ * @param strength - Entropy in bits: 128 for 12 words, 256 for 24 words
+ * @returns The mnemonic phrase
+ */
+export function generateMnemonic(strength: number = 128): string {
+  return generateBip39Mnemonic(wordlist, strength);
+}
+
+/**
+ * Check whether a phrase is a valid BIP-39 mnemonic (English wordlist)
+ * @param mnemonic - The phrase to check
+ * @returns true if the words and checksum are valid
+ */
+export function isValidMnemonic(mnemonic: string): boolean {
+  return validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+}
+
+/**
+ * Get the derivation path of a stealth key
+ * @param role - "spending" or "viewing"
+ * @param accountIndex - The account index
+ * @param version - The derivation scheme version
+ * @returns The BIP-32 path, e.g. m/2645'/1195502025'/1917839802'/1'/0'/0
+ */
+export function stealthKeyPath(
+  role: "spending" | "viewing",
+  accountIndex: number = 0,
+  version: number = KEY_DERIVATION_VERSION
+): string {
+  const roleIndex = role === "spending" ? SPENDING_KEY_INDEX : VIEWING_KEY_INDEX;
+  return `m/${EIP2645_PURPOSE}'/${STARKNET_LAYER}'/${AMORA_APPLICATION}'/${version}'/${accountIndex}'/${roleIndex}`;
+}
+
+/**
+ * Deterministically derive StealthKeys from a BIP-39 mnemonic.
+ * The same mnemonic, passphrase, account index and version always yield
+ * the same keys, so they can be restored from the phrase alone.
+ * @param mnemonic - The BIP-39 mnemonic phrase
+ * @param options - Passphrase, account index and derivation version
+ * @returns Complete StealthKeys for the account
+ * @throws InvalidMnemonicError if the phrase is not a valid mnemonic
+ * @throws OutOfRangeError if the account index or version is unsupported
+ */
+export function keysFromMnemonic(
+  mnemonic: string,
+  options: MnemonicKeyOptions = {}
+): StealthKeys {
+  const phrase = normalizeMnemonic(mnemonic);
+  if (!validateMnemonic(phrase, wordlist)) {
+    throw new InvalidMnemonicError();
+  }
+  return keysFromSeed(mnemonicToSeedSync(phrase, options.passphrase), options);
+}
+
+/**
+ * Deterministically derive StealthKeys from a BIP-39 seed
+ * @param seed - The 16 to 64 byte seed
+ * @param options - Account index and derivation version
+ * @returns Complete StealthKeys for the account
+ * @throws OutOfRangeError if the account index or version is unsupported
+ * @throws KeyDerivationError if the seed yields no key at a path
+ */
+export function keysFromSeed(
+  seed: Uint8Array,
+  options: Omit<MnemonicKeyOptions, "passphrase"> = {}
+): StealthKeys {
+  const accountIndex = options.accountIndex ?? 0;
+  const version = options.version ?? KEY_DERIVATION_VERSION;
+  if (version !== KEY_DERIVATION_VERSION) {
+    throw new OutOfRangeError(`Unsupported key derivation version: ${version}`, version);
+  }
+  if (!Number.isInteger(accountIndex) || accountIndex < 0 || accountIndex >= 2 ** 31) {
+    throw new OutOfRangeError(`Invalid account index: ${accountIndex}`, accountIndex);
+  }
+
+  const root = HDKey.fromMasterSeed(seed);
+  const derive = (role: "spending" | "viewing"): bigint => {
+    const path = stealthKeyPath(role, accountIndex, version);
+    const child = root.derive(path);
+    if (!child.privateKey) {
+      throw new KeyDerivationError(path);
+    }
+    // Reduce the secp256k1-sized child key into the STARK curve order
+    return privateKeyFromSeed(child.privateKey);
+  };
+
+  return keysFromPrivateKeys(derive("spending"), derive("viewing"));
+}
+
+/**
+ * Normalize whitespace and case in a mnemonic phrase
+ */
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(" ");
+}
@@ -0,0 +1,343 @@
+/**
+ * Password-encrypted keystore for StealthKeys
+ *
+ * Keys are encrypted with AES-256-GCM under a key stretched from the password
+ * with PBKDF2-SHA256. The public keys, keystore type and stealth scheme are
+ * bound to the ciphertext as additional authenticated data, and a checksum over the
+ * ciphertext lets a wrong password be reported before decryption.
+ *
+ * Uses WebCrypto (globalThis.crypto.subtle), available in browsers and
+ * Node.js 20+.
+ */
+
+import type { webcrypto } from "node:crypto";
+import type { StealthKeys } from "./keys";
+import type { ExportedViewingKey } from "./viewing-key";
+import { keysFromPrivateKeys } from "./keys";
+import { derivePublicKey } from "./crypto";
+import { CHAIN_ID } from "./meta-address";
+import { InvalidKeystoreError, WrongPasswordError } from "./errors";
+
+/**
+ * Current keystore format version
+ */
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * Default PBKDF2 iteration count (OWASP recommendation for PBKDF2-SHA256)
+ */
+export const DEFAULT_KEYSTORE_ITERATIONS = 600_000;
+
+const SALT_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * An encrypted keystore, as stored in JSON
+ */
+export interface Keystore {
+  version: number;
+  /** "full" for spending + viewing keys, "viewing" for watch-only keys */
+  type: "full" | "viewing";
+  /** Spending public key (hex), to identify the keystore without decrypting */
+  spendingPubKey: string;
+  /** Viewing public key (hex) */
+  viewingPubKey: string;
+  /** Stealth scheme of the spending key (hex, absent for STARK) */
+  schemeId?: string;
+  crypto: {
+    kdf: "pbkdf2";
+    kdfparams: { hash: "SHA-256"; iterations: number; salt: string };
+    cipher: "aes-256-gcm";
+    cipherparams: { iv: string };
+    ciphertext: string;
+    /** SHA-256 of the derived checksum key and the ciphertext (hex) */
+    checksum: string;
+  };
+}
+
+/**
+ * Options for encrypting keys
+ */
+export interface EncryptKeysOptions {
+  /** Encrypt only the viewing private key, for watch-only devices */
+  viewingOnly?: boolean;
+  /** PBKDF2 iterations (default: DEFAULT_KEYSTORE_ITERATIONS) */
+  iterations?: number;
+}
+
+/**
+ * Encrypt stealth keys into a keystore JSON string
+ * @param keys - The stealth keys to encrypt
+ * @param password - The password to encrypt with
+ * @param options - Watch-only mode and KDF cost
+ * @returns The keystore as a JSON string
+ */
+export async function encryptKeys(
+  keys: StealthKeys,
+  password: string,
+  options: EncryptKeysOptions = {}
+): Promise<string> {
+  const subtle = getSubtle();
+  const iterations = options.iterations ?? DEFAULT_KEYSTORE_ITERATIONS;
+  const salt = randomBytes(SALT_BYTES);
+  const iv = randomBytes(IV_BYTES);
+
+  const header = {
+    version: KEYSTORE_VERSION,
+    type: options.viewingOnly ? "viewing" : "full",
+    spendingPubKey: toHex(keys.spendingKey.publicKey),
+    viewingPubKey: toHex(keys.viewingKey.publicKey),
+    ...(keys.schemeId !== undefined ? { schemeId: toHex(keys.schemeId) } : {}),
+  } as const;
+
+  const secrets: Record<string, string> = {
+    viewingPrivateKey: toHex(keys.viewingKey.privateKey),
+  };
+  if (!options.viewingOnly) {
+    secrets.spendingPrivateKey = toHex(keys.spendingKey.privateKey);
+  }
+
+  const { encryptionKey, checksumKey } = await deriveKeys(password, salt, iterations);
+  const ciphertext = new Uint8Array(
+    await subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: encodeHeader(header) },
+      encryptionKey,
+      new TextEncoder().encode(JSON.stringify(secrets))
+    )
+  );
+
+  const keystore: Keystore = {
+    ...header,
+    crypto: {
+      kdf: "pbkdf2",
+      kdfparams: { hash: "SHA-256", iterations, salt: bytesToHex(salt) },
+      cipher: "aes-256-gcm",
+      cipherparams: { iv: bytesToHex(iv) },
+      ciphertext: bytesToHex(ciphertext),
+      checksum: await computeChecksum(checksumKey, ciphertext),
+    },
+  };
+  return JSON.stringify(keystore);
+}
+
+/**
+ * Decrypt a keystore
+ * @param json - The keystore JSON string (or parsed object)
+ * @param password - The password it was encrypted with
+ * @returns StealthKeys for a "full" keystore, or an ExportedViewingKey for a "viewing" one
+ * @throws WrongPasswordError if the password is wrong
+ * @throws InvalidKeystoreError if the format is invalid or the keystore was tampered with
+ */
+export async function decryptKeys(
+  json: string | Keystore,
+  password: string
+): Promise<StealthKeys | ExportedViewingKey> {
+  const keystore = parseKeystore(json);
+  const { kdfparams, cipherparams } = keystore.crypto;
+  const ciphertext = hexToBytes(keystore.crypto.ciphertext);
+
+  const { encryptionKey, checksumKey } = await deriveKeys(
+    password,
+    hexToBytes(kdfparams.salt),
+    kdfparams.iterations
+  );
+  if ((await computeChecksum(checksumKey, ciphertext)) !== keystore.crypto.checksum) {
+    throw new WrongPasswordError();
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await getSubtle().decrypt(
+      {
+        name: "AES-GCM",
+        iv: hexToBytes(cipherparams.iv),
+        additionalData: encodeHeader(keystore),
+      },
+      encryptionKey,
+      ciphertext
+    );
+  } catch (e) {
+    throw new InvalidKeystoreError("Keystore is corrupted or has been tampered with", {
+      cause: e,
+    });
+  }
+
+  const secrets = JSON.parse(new TextDecoder().decode(plaintext)) as {
+    viewingPrivateKey: string;
+    spendingPrivateKey?: string;
+  };
+  const viewingPrivateKey = BigInt(secrets.viewingPrivateKey);
+  const spendingPubKey = BigInt(keystore.spendingPubKey);
+  const schemeId = keystore.schemeId !== undefined ? BigInt(keystore.schemeId) : undefined;
+  if (derivePublicKey(viewingPrivateKey) !== BigInt(keystore.viewingPubKey)) {
+    throw new InvalidKeystoreError("Keystore viewing key does not match its public key");
+  }
+
+  if (keystore.type === "viewing") {
+    return {
+      chain: CHAIN_ID,
+      viewingPrivateKey,
+      spendingPubKey,
+      ...(schemeId !== undefined ? { schemeId } : {}),
+    };
+  }
+
+  if (secrets.spendingPrivateKey === undefined) {
+    throw new InvalidKeystoreError("Keystore is missing the spending key");
+  }
+  const keys = keysFromPrivateKeys(
+    BigInt(secrets.spendingPrivateKey),
+    viewingPrivateKey,
+    schemeId
+  );
+  if (keys.spendingKey.publicKey !== spendingPubKey) {
+    throw new InvalidKeystoreError("Keystore spending key does not match its public key");
+  }
+  return keys;
+}
+
+/**
+ * Validate the structure of a keystore
+ */
+function parseKeystore(json: string | Keystore): Keystore {
+  let keystore: Keystore;
+  try {
+    keystore = typeof json === "string" ? (JSON.parse(json) as Keystore) : json;
+  } catch (e) {
+    throw new InvalidKeystoreError("Invalid keystore: not valid JSON", { cause: e });
+  }
+
+  if (keystore?.version !== KEYSTORE_VERSION) {
+    throw new InvalidKeystoreError(`Unsupported keystore version: ${keystore?.version}`);
+  }
+  if (keystore.type !== "full" && keystore.type !== "viewing") {
+    throw new InvalidKeystoreError(`Invalid keystore type: ${keystore.type}`);
+  }
+  if (keystore.schemeId !== undefined && !/^0x[0-9a-f]+$/i.test(keystore.schemeId)) {
+    throw new InvalidKeystoreError(`Invalid keystore scheme ID: ${keystore.schemeId}`);
+  }
+  const c = keystore.crypto;
+  if (
+    c?.kdf !== "pbkdf2" ||
+    c.kdfparams?.hash !== "SHA-256" ||
+    c.cipher !== "aes-256-gcm" ||
+    !Number.isInteger(c.kdfparams.iterations) ||
+    c.kdfparams.iterations <= 0 ||
+    typeof c.kdfparams.salt !== "string" ||
+    typeof c.cipherparams?.iv !== "string" ||
+    typeof c.ciphertext !== "string" ||
+    typeof c.checksum !== "string"
+  ) {
+    throw new InvalidKeystoreError("Invalid keystore: unsupported or missing crypto parameters");
+  }
+  return keystore;
+}
+
+/**
+ * Stretch the password into an AES key and a checksum key
+ */
+async function deriveKeys(
+  password: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<{ encryptionKey: webcrypto.CryptoKey; checksumKey: Uint8Array }> {
+  const subtle = getSubtle();
+  const passwordKey = await subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password.normalize("NFKC")),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = new Uint8Array(
+    await subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      passwordKey,
+      512
+    )
+  );
+  const encryptionKey = await subtle.importKey(
+    "raw",
+    bits.slice(0, 32),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+  return { encryptionKey, checksumKey: bits.slice(32) };
+}
+
+/**
+ * SHA-256 over the checksum key and ciphertext, as hex
+ */
+async function computeChecksum(
+  checksumKey: Uint8Array,
+  ciphertext: Uint8Array
+): Promise<string> {
+  const data = new Uint8Array(checksumKey.length + ciphertext.length);
+  data.set(checksumKey);
+  data.set(ciphertext, checksumKey.length);
+  return bytesToHex(new Uint8Array(await getSubtle().digest("SHA-256", data)));
+}
+
+/**
+ * Canonical encoding of the authenticated keystore header
+ * (the scheme ID is appended only when present, so STARK keystores keep
+ * their original encoding)
+ */
+function encodeHeader(
+  header: Pick<Keystore, "version" | "type" | "spendingPubKey" | "viewingPubKey" | "schemeId">
+): Uint8Array {
+  const fields = [header.version, header.type, header.spendingPubKey, header.viewingPubKey];
+  if (header.schemeId !== undefined) {
+    fields.push(header.schemeId);
+  }
+  return new TextEncoder().encode(fields.join(":"));
+}
+
+/**
+ * Get the WebCrypto subtle API
+ */
+function getSubtle(): webcrypto.SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle === undefined) {
+    throw new Error("WebCrypto is not available in this environment");
+  }
+  return subtle;
+}
+
+/**
+ * Generate cryptographically secure random bytes
+ */
+function randomBytes(length: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Format a bigint as a 0x-prefixed hex string
+ */
+function toHex(n: bigint): string {
+  return "0x" + n.toString(16);
+}
+
+/**
+ * Convert Uint8Array to hex string
+ */
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Convert a hex string to Uint8Array
+ */
+function hexToBytes(hex: string): Uint8Array {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new InvalidKeystoreError("Invalid keystore: malformed hex");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
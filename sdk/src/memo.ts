@@ -5,6 +5,8 @@
  * Each felt252 holds 31 bytes. The first felt is the byte length prefix.
  */
 
+import { MalformedMemoError } from "./errors";
+
 const BYTES_PER_FELT = 31;
 
 /**
@@ -20,8 +22,16 @@ const BYTES_PER_FELT = 31;
  */
 export function encodeMemo(memo: string): bigint[] {
   const encoder = new TextEncoder();
-  const bytes = encoder.encode(memo);
+  return encodeBytes(encoder.encode(memo));
+}
 
+/**
+ * Encode bytes into felt252 values (byte length prefix + 31-byte chunks)
+ *
+ * @param bytes - The bytes to encode
+ * @returns Array of bigints representing the bytes as felt252 values
+ */
+export function encodeBytes(bytes: Uint8Array): bigint[] {
   if (bytes.length === 0) {
     return [0n];
   }
@@ -46,16 +56,29 @@ export function encodeMemo(memo: string): bigint[] {
  * @param felts - Array of bigints where felts[0] is byte length and
  *                subsequent felts are 31-byte big-endian chunks
  * @returns The decoded string
- * @throws If the felts array is empty
+ * @throws MalformedMemoError if the felts array is empty
  */
 export function decodeMemo(felts: bigint[]): string {
+  const decoder = new TextDecoder();
+  return decoder.decode(decodeBytes(felts));
+}
+
+/**
+ * Decode felt252 values produced by encodeBytes back into bytes
+ *
+ * @param felts - Array of bigints where felts[0] is byte length and
+ *                subsequent felts are 31-byte big-endian chunks
+ * @returns The decoded bytes
+ * @throws MalformedMemoError if the felts array is empty
+ */
+export function decodeBytes(felts: bigint[]): Uint8Array {
   if (felts.length === 0) {
-    throw new Error("Cannot decode memo: empty felts array");
+    throw new MalformedMemoError("Cannot decode memo: empty felts array");
   }
 
   const totalBytes = Number(felts[0]);
   if (totalBytes === 0) {
-    return "";
+    return new Uint8Array(0);
   }
 
   const bytes = new Uint8Array(totalBytes);
@@ -74,6 +97,5 @@ export function decodeMemo(felts: bigint[]): string {
     bytesWritten += chunkSize;
   }
 
-  const decoder = new TextDecoder();
-  return decoder.decode(bytes);
+  return bytes;
 }
@@ -1,12 +1,23 @@
 /**
  * Meta-address encoding and parsing
- * Format: "st:starknet:<spending_pubkey>:<viewing_pubkey>"
+ *
+ * v1: "st:starknet:<spending_pubkey>:<viewing_pubkey>"
+ * v2: "st:starknet:v2:<network>:<spending_pubkey>:<viewing_pubkey>[:<scheme_id>]:<checksum>"
  *
  * The meta-address is a string that encodes the recipient's public keys
- * and can be shared publicly for anyone to send stealth payments.
+ * and can be shared publicly for anyone to send stealth payments. v2 adds
+ * the network it belongs to (the Starknet chain ID as a short string, e.g.
+ * SN_MAIN or SN_SEPOLIA), an optional stealth scheme ID, and a checksum over
+ * all fields so a mistyped key is rejected instead of producing a valid but
+ * unspendable meta-address.
  */
 
+import { shortString } from "starknet";
 import type { StealthKeys } from "./keys";
+import { poseidonHash } from "./crypto";
+import { AmoraError, InvalidMetaAddressError } from "./errors";
+import { validatePublicKey } from "./validation";
+import { getScheme, isSupportedScheme } from "./schemes";
 
 /**
  * Prefix for stealth addresses
@@ -18,6 +29,20 @@ export const META_ADDRESS_PREFIX = "st";
  */
 export const CHAIN_ID = "starknet";
 
+/**
+ * Version field of v2 meta-addresses
+ */
+export const META_ADDRESS_V2 = "v2";
+
+/** Network of Starknet mainnet */
+export const NETWORK_MAINNET = "SN_MAIN";
+
+/** Network of Starknet Sepolia */
+export const NETWORK_SEPOLIA = "SN_SEPOLIA";
+
+/** Number of hex characters in a v2 checksum */
+const CHECKSUM_LENGTH = 8;
+
 /**
  * A parsed meta-address containing the spending and viewing public keys
  */
@@ -25,17 +50,37 @@ export interface MetaAddress {
   chain: string;
   spendingPubKey: bigint;
   viewingPubKey: bigint;
+  /** Network the meta-address belongs to (v2 only), e.g. "SN_MAIN" */
+  network?: string;
+  /** Stealth scheme ID (v2 only, when given) */
+  schemeId?: bigint;
+}
+
+/**
+ * Options for encoding a v2 meta-address
+ */
+export interface MetaAddressOptions {
+  /** Network the meta-address belongs to (omit to encode v1) */
+  network?: string;
+  /** Stealth scheme ID (v2 only) */
+  schemeId?: bigint;
 }
 
 /**
  * Encode a meta-address from StealthKeys
  * @param keys - The stealth keys containing spending and viewing keypairs
+ * @param options - Network and scheme ID, to encode a v2 meta-address (the
+ *   scheme ID defaults to the keys' scheme)
  * @returns The encoded meta-address string
  */
-export function encodeMetaAddress(keys: StealthKeys): string {
+export function encodeMetaAddress(
+  keys: StealthKeys,
+  options: MetaAddressOptions = {}
+): string {
   return encodeMetaAddressFromPubKeys(
     keys.spendingKey.publicKey,
-    keys.viewingKey.publicKey
+    keys.viewingKey.publicKey,
+    { ...options, schemeId: options.schemeId ?? keys.schemeId }
   );
 }
 
@@ -43,56 +88,155 @@ export function encodeMetaAddress(keys: StealthKeys): string {
  * Encode a meta-address from public keys
  * @param spendingPubKey - The spending public key
  * @param viewingPubKey - The viewing public key
+ * @param options - Network and scheme ID, to encode a v2 meta-address
  * @returns The encoded meta-address string
+ * @throws InvalidMetaAddressError if a scheme ID is given without a network,
+ *   or the network is not a valid chain name
  */
 export function encodeMetaAddressFromPubKeys(
   spendingPubKey: bigint,
-  viewingPubKey: bigint
+  viewingPubKey: bigint,
+  options: MetaAddressOptions = {}
 ): string {
+  const { network, schemeId } = options;
   const spendingHex = "0x" + spendingPubKey.toString(16);
   const viewingHex = "0x" + viewingPubKey.toString(16);
-  return `${META_ADDRESS_PREFIX}:${CHAIN_ID}:${spendingHex}:${viewingHex}`;
+
+  if (network === undefined) {
+    if (schemeId !== undefined) {
+      throw new InvalidMetaAddressError("A scheme ID requires a v2 meta-address with a network");
+    }
+    return `${META_ADDRESS_PREFIX}:${CHAIN_ID}:${spendingHex}:${viewingHex}`;
+  }
+
+  validateNetwork(network);
+  const fields = [META_ADDRESS_PREFIX, CHAIN_ID, META_ADDRESS_V2, network, spendingHex, viewingHex];
+  if (schemeId !== undefined) {
+    fields.push("0x" + schemeId.toString(16));
+  }
+  fields.push(checksum(network, spendingPubKey, viewingPubKey, schemeId));
+  return fields.join(":");
 }
 
 /**
- * Parse a meta-address string
+ * Parse a meta-address string (v1 or v2)
  * @param metaAddress - The encoded meta-address string
  * @returns The parsed MetaAddress
- * @throws If the meta-address format is invalid
+ * @throws InvalidMetaAddressError if the meta-address format or checksum is
+ *   invalid, or a key is not a valid curve point
  */
 export function parseMetaAddress(metaAddress: string): MetaAddress {
   const parts = metaAddress.split(":");
+  const isV2 = parts[2] === META_ADDRESS_V2;
 
-  if (parts.length !== 4) {
-    throw new Error(
-      `Invalid meta-address format: expected 4 parts, got ${parts.length}`
+  if (isV2 ? parts.length !== 7 && parts.length !== 8 : parts.length !== 4) {
+    throw new InvalidMetaAddressError(
+      `Invalid meta-address format: expected ${isV2 ? "7 or 8" : "4"} parts, got ${parts.length}`
     );
   }
 
-  const [prefix, chain, spendingStr, viewingStr] = parts;
+  const [prefix, chain] = parts;
 
   if (prefix !== META_ADDRESS_PREFIX) {
-    throw new Error(
+    throw new InvalidMetaAddressError(
       `Invalid meta-address prefix: expected "${META_ADDRESS_PREFIX}", got "${prefix}"`
     );
   }
 
   if (chain !== CHAIN_ID) {
-    throw new Error(
+    throw new InvalidMetaAddressError(
       `Invalid chain ID: expected "${CHAIN_ID}", got "${chain}"`
     );
   }
 
+  if (!isV2) {
+    const spendingPubKey = parseFelt(parts[2], "spending public key");
+    const viewingPubKey = parseFelt(parts[3], "viewing public key");
+    validateKeys(spendingPubKey, viewingPubKey, undefined);
+    return { chain, spendingPubKey, viewingPubKey };
+  }
+
+  const [, , , network, spendingStr, viewingStr] = parts;
+  validateNetwork(network);
   const spendingPubKey = parseFelt(spendingStr, "spending public key");
   const viewingPubKey = parseFelt(viewingStr, "viewing public key");
+  const schemeId =
+    parts.length === 8 ? parseFelt(parts[6], "scheme ID") : undefined;
+
+  const expected = checksum(network, spendingPubKey, viewingPubKey, schemeId);
+  if (parts[parts.length - 1].toLowerCase() !== expected) {
+    throw new InvalidMetaAddressError(
+      "Invalid meta-address checksum: the meta-address is mistyped or corrupted"
+    );
+  }
+  validateKeys(spendingPubKey, viewingPubKey, schemeId);
 
   return {
     chain,
     spendingPubKey,
     viewingPubKey,
+    network,
+    ...(schemeId !== undefined && { schemeId }),
   };
 }
 
+/**
+ * Get the network name of a Starknet chain ID
+ * @param chainId - The chain ID, as returned by provider.getChainId() (e.g. "0x534e5f4d41494e")
+ * @returns The network name (e.g. "SN_MAIN")
+ */
+export function networkFromChainId(chainId: string): string {
+  return shortString.decodeShortString(chainId);
+}
+
+/**
+ * Check that a network name is a valid Starknet chain name
+ */
+function validateNetwork(network: string): void {
+  if (!/^[A-Za-z0-9_]{1,31}$/.test(network)) {
+    throw new InvalidMetaAddressError(`Invalid meta-address network: "${network}"`);
+  }
+}
+
+/**
+ * Check that both public keys are valid curve points
+ * The spending key is checked by its scheme; keys of an unregistered scheme
+ * are left for generateStealthAddress to reject.
+ */
+function validateKeys(
+  spendingPubKey: bigint,
+  viewingPubKey: bigint,
+  schemeId: bigint | undefined
+): void {
+  try {
+    if (schemeId === undefined || isSupportedScheme(schemeId)) {
+      getScheme(schemeId).validateSpendingPublicKey(spendingPubKey, "spending public key");
+    }
+    validatePublicKey(viewingPubKey, "viewing public key");
+  } catch (e) {
+    if (!(e instanceof AmoraError)) throw e;
+    throw new InvalidMetaAddressError(e.message, { cause: e });
+  }
+}
+
+/**
+ * Compute the checksum of a v2 meta-address's fields
+ */
+function checksum(
+  network: string,
+  spendingPubKey: bigint,
+  viewingPubKey: bigint,
+  schemeId: bigint | undefined
+): string {
+  const hash = poseidonHash(
+    BigInt(shortString.encodeShortString(network)),
+    schemeId ?? 0n,
+    spendingPubKey,
+    viewingPubKey
+  );
+  return (hash & 0xffffffffn).toString(16).padStart(CHECKSUM_LENGTH, "0");
+}
+
 /**
  * Parse a felt252 value from a hex string
  * @param value - The hex string (with or without 0x prefix)
@@ -100,24 +244,25 @@ export function parseMetaAddress(metaAddress: string): MetaAddress {
  * @returns The parsed bigint
  */
 function parseFelt(value: string, fieldName: string): bigint {
+  let result: bigint;
   try {
     // Handle both "0x..." and raw hex formats
     const normalized = value.startsWith("0x") ? value : `0x${value}`;
-    const result = BigInt(normalized);
-
-    // Validate it's a valid felt252 (< 2^252)
-    const MAX_FELT = 2n ** 252n;
-    if (result >= MAX_FELT || result < 0n) {
-      throw new Error(`${fieldName} is out of felt252 range`);
-    }
-
-    return result;
+    result = BigInt(normalized);
   } catch (e) {
-    if (e instanceof Error && e.message.includes("out of felt252 range")) {
-      throw e;
-    }
-    throw new Error(`Invalid ${fieldName}: cannot parse "${value}" as hex`);
+    throw new InvalidMetaAddressError(
+      `Invalid ${fieldName}: cannot parse "${value}" as hex`,
+      { cause: e }
+    );
   }
+
+  // Validate it's a valid felt252 (< 2^252)
+  const MAX_FELT = 2n ** 252n;
+  if (result >= MAX_FELT || result < 0n) {
+    throw new InvalidMetaAddressError(`${fieldName} is out of felt252 range`);
+  }
+
+  return result;
 }
 
 /**
@@ -0,0 +1,296 @@
+/**
+ * Typed announcement metadata
+ *
+ * Announcement metadata is a felt252 array. Tagged metadata starts with a
+ * header felt (a magic value plus a version byte), followed by fields
+ * encoded as [tag, length, ...values]:
+ *
+ *   [header, TOKEN, 1, token, AMOUNT, 2, low, high, MEMO, n, ...memo, ...]
+ *
+ * Tags below APP_TAG_START are reserved for the SDK; higher tags are free for
+ * app-defined fields. Unknown reserved tags are skipped, so newer fields do
+ * not break older decoders.
+ *
+ * Announcements written before this format use the untagged legacy layout
+ * [token, amount, ...extra], which still decodes (as version 0).
+ */
+
+import { encodeMemo, decodeMemo } from "./memo";
+import { MalformedMetadataError, OutOfRangeError } from "./errors";
+
+/**
+ * Current metadata format version
+ */
+export const METADATA_VERSION = 1;
+
+/**
+ * Magic value in the header felt ("AMORA_META" as a short string)
+ */
+const METADATA_MAGIC = 0x414d4f52415f4d455441n;
+
+/**
+ * Field tags
+ */
+export const METADATA_TAG = {
+  TOKEN: 1n,
+  AMOUNT: 2n,
+  MEMO: 3n,
+  INVOICE_REF: 4n,
+  NFT_TOKEN_ID: 5n,
+  ENCRYPTED_MEMO: 6n,
+  PROTOCOL: 7n,
+  SCHEME: 8n,
+} as const;
+
+/**
+ * First tag available for app-defined fields
+ */
+export const APP_TAG_START = 0x100n;
+
+const U128_MASK = (1n << 128n) - 1n;
+const U256_MAX = (1n << 256n) - 1n;
+
+/**
+ * An app-defined metadata field
+ */
+export interface AppMetadataField {
+  /** Field tag (must be at least APP_TAG_START) */
+  tag: bigint;
+  /** Field values as felts */
+  data: bigint[];
+}
+
+/**
+ * Stealth protocol an announcement was made with (absent for v1)
+ */
+export interface AnnouncementProtocol {
+  /** Protocol version */
+  version: number;
+  /** View tag width, in bits */
+  viewTagBits: number;
+  /** The full view tag (the announcement's view tag field holds its low 8 bits) */
+  viewTag: number;
+}
+
+/**
+ * Metadata fields that can be attached to a payment
+ */
+export interface MetadataFields {
+  /** Token contract address */
+  token?: string;
+  /** Amount sent (u256) */
+  amount?: bigint;
+  /** Plaintext memo */
+  memo?: string;
+  /** Memo encrypted to the recipient (see encryptMemo) */
+  encryptedMemo?: bigint[];
+  /** Invoice or order reference */
+  invoiceRef?: bigint;
+  /** Token ID of a transferred NFT (u256) */
+  nftTokenId?: bigint;
+  /** App-defined fields */
+  appFields?: AppMetadataField[];
+  /** Stealth protocol (set for v2 announcements) */
+  protocol?: AnnouncementProtocol;
+  /** Stealth scheme ID (set for schemes other than STARK) */
+  schemeId?: bigint;
+}
+
+/**
+ * Decoded announcement metadata
+ */
+export interface AnnouncementMetadata extends MetadataFields {
+  /** Format version (0 for legacy untagged metadata) */
+  version: number;
+  /** Trailing felts of legacy metadata, after token and amount */
+  extra?: bigint[];
+}
+
+/**
+ * Encode metadata fields into tagged felts
+ * @param fields - The fields to encode
+ * @returns The metadata felts
+ * @throws OutOfRangeError if a u256 value is out of range or an app tag is reserved
+ */
+export function encodeMetadata(fields: MetadataFields): bigint[] {
+  const felts: bigint[] = [(METADATA_MAGIC << 8n) | BigInt(METADATA_VERSION)];
+  const push = (tag: bigint, data: bigint[]) => felts.push(tag, BigInt(data.length), ...data);
+
+  if (fields.token !== undefined) {
+    push(METADATA_TAG.TOKEN, [BigInt(fields.token)]);
+  }
+  if (fields.amount !== undefined) {
+    push(METADATA_TAG.AMOUNT, encodeU256(fields.amount, "amount"));
+  }
+  if (fields.memo !== undefined) {
+    push(METADATA_TAG.MEMO, encodeMemo(fields.memo));
+  }
+  if (fields.encryptedMemo !== undefined) {
+    push(METADATA_TAG.ENCRYPTED_MEMO, fields.encryptedMemo);
+  }
+  if (fields.invoiceRef !== undefined) {
+    push(METADATA_TAG.INVOICE_REF, [fields.invoiceRef]);
+  }
+  if (fields.nftTokenId !== undefined) {
+    push(METADATA_TAG.NFT_TOKEN_ID, encodeU256(fields.nftTokenId, "NFT token ID"));
+  }
+  if (fields.protocol !== undefined) {
+    const { version, viewTagBits, viewTag } = fields.protocol;
+    push(METADATA_TAG.PROTOCOL, [BigInt(version), BigInt(viewTagBits), BigInt(viewTag)]);
+  }
+  if (fields.schemeId !== undefined) {
+    push(METADATA_TAG.SCHEME, [fields.schemeId]);
+  }
+  for (const field of fields.appFields ?? []) {
+    if (field.tag < APP_TAG_START) {
+      throw new OutOfRangeError(
+        `App metadata tag 0x${field.tag.toString(16)} is reserved (must be >= 0x${APP_TAG_START.toString(16)})`,
+        field.tag
+      );
+    }
+    push(field.tag, field.data);
+  }
+
+  return felts;
+}
+
+/**
+ * Decode announcement metadata (tagged or legacy)
+ * @param felts - The metadata felts from an announcement
+ * @returns The decoded metadata
+ * @throws MalformedMetadataError if tagged metadata is truncated or has an
+ *   unsupported version
+ */
+export function decodeMetadata(felts: bigint[]): AnnouncementMetadata {
+  if (!isTaggedMetadata(felts)) {
+    return decodeLegacyMetadata(felts);
+  }
+
+  const version = Number(felts[0] & 0xffn);
+  if (version !== METADATA_VERSION) {
+    throw new MalformedMetadataError(`Unsupported metadata version: ${version}`);
+  }
+
+  const metadata: AnnouncementMetadata = { version };
+  let i = 1;
+  while (i < felts.length) {
+    if (i + 1 >= felts.length) {
+      throw new MalformedMetadataError("Malformed metadata: truncated field header");
+    }
+    const tag = felts[i];
+    const length = Number(felts[i + 1]);
+    const data = felts.slice(i + 2, i + 2 + length);
+    if (data.length !== length) {
+      throw new MalformedMetadataError(
+        `Malformed metadata: field 0x${tag.toString(16)} is truncated`
+      );
+    }
+    i += 2 + length;
+
+    if (tag >= APP_TAG_START) {
+      (metadata.appFields ??= []).push({ tag, data });
+      continue;
+    }
+    switch (tag) {
+      case METADATA_TAG.TOKEN:
+        metadata.token = "0x" + expectLength(data, 1, "token")[0].toString(16);
+        break;
+      case METADATA_TAG.AMOUNT:
+        metadata.amount = decodeU256(expectLength(data, 2, "amount"));
+        break;
+      case METADATA_TAG.MEMO:
+        metadata.memo = decodeMemo(data);
+        break;
+      case METADATA_TAG.ENCRYPTED_MEMO:
+        metadata.encryptedMemo = data;
+        break;
+      case METADATA_TAG.INVOICE_REF:
+        metadata.invoiceRef = expectLength(data, 1, "invoice reference")[0];
+        break;
+      case METADATA_TAG.NFT_TOKEN_ID:
+        metadata.nftTokenId = decodeU256(expectLength(data, 2, "NFT token ID"));
+        break;
+      case METADATA_TAG.PROTOCOL: {
+        const [version, viewTagBits, viewTag] = expectLength(data, 3, "protocol").map(Number);
+        metadata.protocol = { version, viewTagBits, viewTag };
+        break;
+      }
+      case METADATA_TAG.SCHEME:
+        metadata.schemeId = expectLength(data, 1, "scheme ID")[0];
+        break;
+      default:
+        // Reserved tag from a newer version: skip it
+        break;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Decode announcement metadata, or return undefined if it is malformed
+ * @param felts - The metadata felts from an announcement
+ * @returns The decoded metadata, or undefined
+ */
+export function tryDecodeMetadata(felts: bigint[]): AnnouncementMetadata | undefined {
+  try {
+    return decodeMetadata(felts);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether metadata felts use the tagged format
+ * @param felts - The metadata felts
+ * @returns true if the first felt is a tagged metadata header
+ */
+export function isTaggedMetadata(felts: bigint[]): boolean {
+  return felts.length > 0 && felts[0] >> 8n === METADATA_MAGIC;
+}
+
+/**
+ * Decode legacy [token, amount, ...extra] metadata
+ */
+function decodeLegacyMetadata(felts: bigint[]): AnnouncementMetadata {
+  const metadata: AnnouncementMetadata = { version: 0 };
+  if (felts.length > 0) {
+    metadata.token = "0x" + felts[0].toString(16);
+  }
+  if (felts.length > 1) {
+    metadata.amount = felts[1];
+  }
+  if (felts.length > 2) {
+    metadata.extra = felts.slice(2);
+  }
+  return metadata;
+}
+
+/**
+ * Split a u256 into [low, high] felts
+ */
+function encodeU256(value: bigint, name: string): bigint[] {
+  if (value < 0n || value > U256_MAX) {
+    throw new OutOfRangeError(`Metadata ${name} is out of u256 range`, value);
+  }
+  return [value & U128_MASK, value >> 128n];
+}
+
+/**
+ * Join [low, high] felts into a u256
+ */
+function decodeU256([low, high]: bigint[]): bigint {
+  return low + (high << 128n);
+}
+
+/**
+ * Check a field has the expected number of values
+ */
+function expectLength(data: bigint[], length: number, name: string): bigint[] {
+  if (data.length !== length) {
+    throw new MalformedMetadataError(
+      `Malformed metadata: ${name} must have ${length} value(s), got ${data.length}`
+    );
+  }
+  return data;
+}
@@ -0,0 +1,170 @@
+/**
+ * Multi-recipient scanning
+ *
+ * Scans one announcement set against many recipients at once, for
+ * custodial services that manage keys for many users. Runs in two phases:
+ * first the cheap ECDH + view tag check for every recipient, then address
+ * derivation only for the (recipient, announcement) pairs whose tag matched.
+ * Each announcement is checked only against recipients of its stealth scheme.
+ */
+
+import type { StealthKeys } from "./keys";
+import type { Announcement } from "./stealth";
+import type { ExportedViewingKey, ViewingKeyMatch } from "./viewing-key";
+import { announcementScheme, matchViewTags } from "./stealth";
+import { readPaymentDetails } from "./encrypted-memo";
+import { recoverPoint, type CurvePoint, type ProtocolVersion } from "./crypto";
+import { getScheme, starkScheme, type StealthScheme } from "./schemes";
+import {
+  matchAccountClass,
+  resolveAccountClasses,
+  type AccountClasses,
+  type StealthAccountClass,
+} from "./account-classes";
+
+/**
+ * A recipient to scan for
+ */
+export interface ScanRecipient {
+  /** Caller-defined recipient identifier (e.g. a user ID) */
+  id: string;
+  /** Full stealth keys, or a viewing key for watch-only scanning */
+  keys: StealthKeys | ExportedViewingKey;
+  /** Class hash of the recipient's stealth accounts (default: the scan's account classes) */
+  accountClassHash?: string;
+}
+
+/**
+ * A match found for one of several recipients
+ */
+export interface RecipientMatch extends ViewingKeyMatch {
+  /** The ID of the recipient the announcement belongs to */
+  recipientId: string;
+  /** The stealth private key (only when the recipient has full StealthKeys) */
+  stealthPrivateKey?: bigint;
+}
+
+/**
+ * Scan announcements for many recipients at once
+ *
+ * @param announcements - Array of announcements to scan
+ * @param recipients - The recipients to scan for
+ * @param accountClasses - The stealth account class hash, or the candidate
+ *   account classes (each recipient is matched against those of its scheme)
+ * @returns Matches tagged by recipient ID, in announcement order (announcements
+ *   that fail validation are skipped)
+ * @throws UnsupportedSchemeError if a recipient's scheme is not registered
+ */
+export function scanAnnouncementsForRecipients(
+  announcements: Announcement[],
+  recipients: ScanRecipient[],
+  accountClasses: AccountClasses
+): RecipientMatch[] {
+  // Group recipients by scheme, so each announcement is checked against its own
+  const groups = new Map<
+    bigint,
+    { scheme: StealthScheme; recipients: ScanRecipient[]; viewingKeys: bigint[] }
+  >();
+  for (const recipient of recipients) {
+    const scheme = getScheme(recipient.keys.schemeId);
+    let group = groups.get(scheme.id);
+    if (group === undefined) {
+      group = { scheme, recipients: [], viewingKeys: [] };
+      groups.set(scheme.id, group);
+    }
+    group.recipients.push(recipient);
+    group.viewingKeys.push(
+      isStealthKeys(recipient.keys)
+        ? recipient.keys.viewingKey.privateKey
+        : recipient.keys.viewingPrivateKey
+    );
+  }
+
+  // Phase 1: view tag check for every (announcement, recipient) pair
+  const candidates: {
+    announcement: Announcement;
+    recipient: ScanRecipient;
+    scheme: StealthScheme;
+    sharedSecret: bigint;
+    version: ProtocolVersion;
+  }[] = [];
+  for (const announcement of announcements) {
+    const group = groups.get(announcementScheme(announcement));
+    if (group === undefined) {
+      continue;
+    }
+    const { scheme } = group;
+    matchViewTags(announcement, group.viewingKeys, scheme).forEach((tagMatch, i) => {
+      if (tagMatch !== null) {
+        candidates.push({ announcement, recipient: group.recipients[i], scheme, ...tagMatch });
+      }
+    });
+  }
+
+  // Phase 2: derive and verify the stealth address for tag matches only
+  const resolved = new Map<
+    ScanRecipient,
+    { spendingKey: bigint | CurvePoint; accountClasses: StealthAccountClass[] }
+  >();
+  const matches: RecipientMatch[] = [];
+  for (const { announcement, recipient, scheme, sharedSecret, version } of candidates) {
+    const keys = recipient.keys;
+    let state = resolved.get(recipient);
+    if (state === undefined) {
+      const spendingPubKey = isStealthKeys(keys)
+        ? keys.spendingKey.publicKey
+        : keys.spendingPubKey;
+      // Recover STARK points and resolve account classes once per recipient
+      state = {
+        spendingKey: scheme === starkScheme
+          ? recoverPoint(spendingPubKey, "spending public key")
+          : spendingPubKey,
+        accountClasses: resolveAccountClasses(
+          recipient.accountClassHash ?? accountClasses,
+          scheme.id
+        ),
+      };
+      resolved.set(recipient, state);
+    }
+
+    const stealthPubKey = scheme.computeStealthPublicKey(state.spendingKey, sharedSecret, version);
+    const accountClass = matchAccountClass(
+      state.accountClasses,
+      stealthPubKey,
+      announcement.stealthAddress
+    );
+    if (accountClass === undefined) {
+      continue;
+    }
+
+    const match: RecipientMatch = {
+      recipientId: recipient.id,
+      announcement,
+      sharedSecret,
+      stealthPubKey,
+      ...readPaymentDetails(announcement, sharedSecret),
+      protocolVersion: version,
+      ...(scheme !== starkScheme && { schemeId: scheme.id }),
+      accountClassHash: accountClass.classHash,
+    };
+    if (isStealthKeys(keys)) {
+      match.stealthPrivateKey = scheme.computeStealthPrivateKey(
+        keys.spendingKey.privateKey,
+        sharedSecret,
+        version
+      );
+    }
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+/**
+ * Distinguish full StealthKeys from an exported viewing key
+ */
+function isStealthKeys(
+  keys: StealthKeys | ExportedViewingKey
+): keys is StealthKeys {
+  return "viewingKey" in keys;
+}
@@ -0,0 +1,331 @@
+/**
+ * Parallel announcement scanning
+ *
+ * Splits announcements into batches and scans them on Node worker_threads
+ * or Web Workers, so large history scans do not block the main thread.
+ * Results are identical to scanAnnouncements and in the same order. When
+ * workers are unavailable (or fail to start) it falls back to scanning
+ * serially on the calling thread.
+ *
+ * Workers run the `scan-worker` entry shipped next to the SDK bundle; pass
+ * `workerUrl` when a bundler moves it, or `workerFactory` to supply your own.
+ */
+
+import { scanAnnouncements, type Announcement, type StealthPayment } from "./stealth";
+
+/**
+ * A batch of announcements to scan for one recipient
+ */
+export interface ScanTask {
+  announcements: Announcement[];
+  viewingPrivateKey: bigint;
+  spendingPublicKey: bigint;
+  spendingPrivateKey: bigint;
+  accountClassHash: string;
+  /** The recipient's stealth scheme (default: STARK) */
+  schemeId?: bigint;
+}
+
+/**
+ * Message sent to a scan worker
+ */
+export interface ScanWorkerRequest {
+  id: number;
+  task: ScanTask;
+}
+
+/**
+ * Message sent back by a scan worker
+ */
+export interface ScanWorkerResponse {
+  id: number;
+  payments?: StealthPayment[];
+  error?: string;
+}
+
+/**
+ * A worker able to run scan tasks
+ */
+export interface ScanWorker {
+  /** Run a task and resolve with its matches */
+  run(task: ScanTask): Promise<StealthPayment[]>;
+  /** Release the worker */
+  terminate(): void;
+}
+
+/**
+ * Creates scan workers; may throw if workers are not supported
+ */
+export type ScanWorkerFactory = () => ScanWorker | Promise<ScanWorker>;
+
+/**
+ * Options for parallel scanning
+ */
+export interface ParallelScanOptions {
+  /** Number of workers (defaults to available cores minus one) */
+  workers?: number;
+  /** Announcements per task (defaults to an even split across workers) */
+  batchSize?: number;
+  /** Location of the scan-worker script (defaults to the one beside the SDK) */
+  workerUrl?: string | URL;
+  /** Custom worker factory (overrides workerUrl) */
+  workerFactory?: ScanWorkerFactory;
+  /** The recipient's stealth scheme (default: STARK) */
+  schemeId?: bigint;
+}
+
+/**
+ * Run a scan task (the body of a scan worker)
+ * @param task - The task to run
+ * @returns The matched stealth payments
+ */
+export function runScanTask(task: ScanTask): StealthPayment[] {
+  return scanAnnouncements(
+    task.announcements,
+    task.viewingPrivateKey,
+    task.spendingPublicKey,
+    task.spendingPrivateKey,
+    task.accountClassHash,
+    task.schemeId
+  );
+}
+
+/**
+ * Handle a worker request message and build the response
+ * @param request - The request received by the worker
+ * @returns The response to post back
+ */
+export function handleScanWorkerRequest(
+  request: ScanWorkerRequest
+): ScanWorkerResponse {
+  try {
+    return { id: request.id, payments: runScanTask(request.task) };
+  } catch (e) {
+    return { id: request.id, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/**
+ * Scan announcements in parallel across workers
+ *
+ * @param announcements - Array of announcements to scan
+ * @param viewingPrivateKey - The recipient's viewing private key
+ * @param spendingPublicKey - The recipient's spending public key
+ * @param spendingPrivateKey - The recipient's spending private key
+ * @param accountClassHash - The class hash of the stealth account contract
+ * @param options - Worker count, batch size and worker source
+ * @returns Array of matched stealth payments, in announcement order
+ */
+export async function scanAnnouncementsParallel(
+  announcements: Announcement[],
+  viewingPrivateKey: bigint,
+  spendingPublicKey: bigint,
+  spendingPrivateKey: bigint,
+  accountClassHash: string,
+  options: ParallelScanOptions = {}
+): Promise<StealthPayment[]> {
+  const keys = {
+    viewingPrivateKey,
+    spendingPublicKey,
+    spendingPrivateKey,
+    accountClassHash,
+    ...(options.schemeId !== undefined && { schemeId: options.schemeId }),
+  };
+  const serial = () => runScanTask({ announcements, ...keys });
+
+  const workerCount = Math.min(
+    options.workers ?? (await defaultWorkerCount()),
+    announcements.length
+  );
+  if (workerCount <= 1) {
+    return serial();
+  }
+
+  const batchSize =
+    options.batchSize ?? Math.ceil(announcements.length / workerCount);
+  const batches: Announcement[][] = [];
+  for (let i = 0; i < announcements.length; i += batchSize) {
+    batches.push(announcements.slice(i, i + batchSize));
+  }
+
+  const factory =
+    options.workerFactory ?? defaultWorkerFactory(options.workerUrl);
+  if (factory === null) {
+    return serial();
+  }
+
+  let workers: ScanWorker[];
+  try {
+    workers = await Promise.all(
+      Array.from({ length: Math.min(workerCount, batches.length) }, () =>
+        factory()
+      )
+    );
+  } catch {
+    return serial();
+  }
+
+  try {
+    const results: StealthPayment[][] = new Array(batches.length);
+    let next = 0;
+    await Promise.all(
+      workers.map(async (worker) => {
+        while (next < batches.length) {
+          const index = next++;
+          results[index] = await worker.run({
+            announcements: batches[index],
+            ...keys,
+          });
+        }
+      })
+    );
+    return results.flat();
+  } catch (e) {
+    if (e instanceof WorkerUnavailableError) {
+      return serial();
+    }
+    throw e;
+  } finally {
+    for (const worker of workers) worker.terminate();
+  }
+}
+
+/**
+ * Thrown when a worker fails to load or crashes (as opposed to a scan error)
+ */
+class WorkerUnavailableError extends Error {}
+
+/**
+ * Minimal message endpoint shared by Node and Web workers
+ */
+interface WorkerEndpoint {
+  postMessage(message: ScanWorkerRequest): void;
+  onMessage(handler: (message: ScanWorkerResponse) => void): void;
+  onError(handler: (error: unknown) => void): void;
+  terminate(): void;
+}
+
+/**
+ * Wrap a worker endpoint as a ScanWorker
+ */
+function wrapEndpoint(endpoint: WorkerEndpoint): ScanWorker {
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    { resolve: (p: StealthPayment[]) => void; reject: (e: unknown) => void }
+  >();
+
+  endpoint.onMessage((message) => {
+    const entry = pending.get(message.id);
+    if (!entry) return;
+    pending.delete(message.id);
+    if (message.error !== undefined) {
+      entry.reject(new Error(message.error));
+    } else {
+      entry.resolve(message.payments ?? []);
+    }
+  });
+
+  endpoint.onError((error) => {
+    for (const entry of pending.values()) {
+      entry.reject(new WorkerUnavailableError(String(error)));
+    }
+    pending.clear();
+  });
+
+  return {
+    run(task) {
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        endpoint.postMessage({ id, task });
+      });
+    },
+    terminate: () => endpoint.terminate(),
+  };
+}
+
+/**
+ * Whether the code is running under Node.js
+ */
+function isNode(): boolean {
+  return typeof process !== "undefined" && !!process.versions?.node;
+}
+
+/**
+ * Default number of workers: available cores minus one for the caller
+ */
+async function defaultWorkerCount(): Promise<number> {
+  let cores = 1;
+  if (isNode()) {
+    const os = await import("node:os");
+    cores = os.availableParallelism?.() ?? os.cpus().length;
+  } else {
+    const nav = (globalThis as { navigator?: { hardwareConcurrency?: number } })
+      .navigator;
+    cores = nav?.hardwareConcurrency ?? 1;
+  }
+  return Math.max(cores - 1, 1);
+}
+
+/**
+ * Location of the scan-worker script shipped beside the SDK bundle
+ */
+function defaultWorkerUrl(): string | URL {
+  return typeof __filename !== "undefined"
+    ? __filename.replace(/[^/\\]+$/, "scan-worker.js")
+    : new URL("./scan-worker.mjs", import.meta.url);
+}
+
+/**
+ * Build a worker factory for the current platform, or null if none exists
+ */
+function defaultWorkerFactory(workerUrl?: string | URL): ScanWorkerFactory | null {
+  if (isNode()) {
+    return async () => {
+      const { Worker } = await import("node:worker_threads");
+      const worker = new Worker(workerUrl ?? defaultWorkerUrl());
+      return wrapEndpoint({
+        postMessage: (message) => worker.postMessage(message),
+        onMessage: (handler) => worker.on("message", handler),
+        onError: (handler) => {
+          worker.on("error", handler);
+          worker.on("exit", (code) => handler(`worker exited with code ${code}`));
+        },
+        terminate: () => void worker.terminate(),
+      });
+    };
+  }
+
+  const WebWorker = (globalThis as { Worker?: WebWorkerConstructor }).Worker;
+  if (WebWorker === undefined) {
+    return null;
+  }
+  return () => {
+    const worker = new WebWorker(workerUrl ?? defaultWorkerUrl(), {
+      type: "module",
+    });
+    return wrapEndpoint({
+      postMessage: (message) => worker.postMessage(message),
+      onMessage: (handler) =>
+        worker.addEventListener("message", (e) => handler(e.data)),
+      onError: (handler) => worker.addEventListener("error", handler),
+      terminate: () => worker.terminate(),
+    });
+  };
+}
+
+/**
+ * The subset of the DOM Worker API used here
+ */
+type WebWorkerConstructor = new (
+  url: string | URL,
+  options?: { type?: "module" | "classic" }
+) => {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message" | "error",
+    listener: (event: { data: ScanWorkerResponse }) => void
+  ): void;
+  terminate(): void;
+};
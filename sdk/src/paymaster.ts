@@ -0,0 +1,463 @@
+/**
+ * Paymaster-sponsored transactions (SNIP-29)
+ *
+ * Funding a stealth account's gas from a known wallet links the account to
+ * its owner. A paymaster avoids that: the SDK describes the deployment and
+ * the withdrawal calls, the paymaster returns an outside execution (SNIP-9)
+ * for the stealth account to sign, then submits it and pays the gas. The
+ * paymaster is either sponsored or takes its fee in a gas token, typically
+ * the token being withdrawn.
+ *
+ * PaymasterClient is the pluggable interface; RpcPaymaster speaks the
+ * SNIP-29 JSON-RPC API and MockPaymaster runs in memory for tests.
+ */
+
+import {
+  CallData,
+  hash,
+  num,
+  outsideExecution,
+  constants,
+  OutsideExecutionVersion,
+  type Call,
+  type TypedData,
+} from "starknet";
+
+/**
+ * How the paymaster is paid
+ * - sponsored: the paymaster covers the fee
+ * - default: the account pays the fee in `gasToken` within the execution
+ */
+export type PaymasterFeeMode =
+  | { mode: "sponsored" }
+  | { mode: "default"; gasToken: string };
+
+/**
+ * An account deployment carried out by the paymaster
+ */
+export interface PaymasterDeployment {
+  /** Address of the account to deploy */
+  address: string;
+  /** Account class hash */
+  classHash: string;
+  /** Address salt */
+  salt: string;
+  /** Constructor calldata */
+  calldata: string[];
+  /** Deployment data version */
+  version: 1;
+}
+
+/**
+ * A transaction for the paymaster to build
+ */
+export type PaymasterTransaction =
+  | { type: "deploy"; deployment: PaymasterDeployment }
+  | { type: "invoke"; invoke: PaymasterInvoke }
+  | { type: "deploy_and_invoke"; deployment: PaymasterDeployment; invoke: PaymasterInvoke };
+
+/**
+ * Calls to run from an account
+ */
+export interface PaymasterInvoke {
+  /** The account the calls run from */
+  userAddress: string;
+  /** The calls */
+  calls: Call[];
+}
+
+/**
+ * Fee quoted by the paymaster
+ */
+export interface PaymasterFeeEstimate {
+  /** Price of the gas token, in STRK */
+  gasTokenPriceInStrk: bigint;
+  /** Estimated fee, in STRK */
+  estimatedFeeInStrk: bigint;
+  /** Estimated fee, in the gas token */
+  estimatedFeeInGasToken: bigint;
+  /** Most the fee can be, in STRK */
+  suggestedMaxFeeInStrk: bigint;
+  /** Most the fee can be, in the gas token */
+  suggestedMaxFeeInGasToken: bigint;
+}
+
+/**
+ * A transaction built by the paymaster
+ */
+export interface PaymasterBuiltTransaction {
+  type: PaymasterTransaction["type"];
+  /** Outside execution to sign (absent for plain deployments) */
+  typedData?: TypedData;
+  /** The fee quote */
+  fee: PaymasterFeeEstimate;
+}
+
+/**
+ * A signed transaction for the paymaster to execute
+ */
+export type PaymasterExecution =
+  | { type: "deploy"; deployment: PaymasterDeployment }
+  | { type: "invoke"; invoke: PaymasterSignedInvoke }
+  | {
+      type: "deploy_and_invoke";
+      deployment: PaymasterDeployment;
+      invoke: PaymasterSignedInvoke;
+    };
+
+/**
+ * A signed outside execution
+ */
+export interface PaymasterSignedInvoke {
+  /** The account the calls run from */
+  userAddress: string;
+  /** The outside execution returned by buildTransaction */
+  typedData: TypedData;
+  /** The account's signature over typedData */
+  signature: string[];
+}
+
+/**
+ * Result of executing a transaction through the paymaster
+ */
+export interface PaymasterExecuteResult {
+  /** Hash of the submitted transaction */
+  transactionHash: string;
+  /** Paymaster-side tracking ID */
+  trackingId: string;
+}
+
+/**
+ * A paymaster client
+ */
+export interface PaymasterClient {
+  /**
+   * Build a transaction, returning the outside execution to sign and the fee
+   */
+  buildTransaction(
+    transaction: PaymasterTransaction,
+    feeMode: PaymasterFeeMode
+  ): Promise<PaymasterBuiltTransaction>;
+
+  /**
+   * Submit a built (and signed) transaction
+   */
+  executeTransaction(
+    execution: PaymasterExecution,
+    feeMode: PaymasterFeeMode
+  ): Promise<PaymasterExecuteResult>;
+}
+
+/**
+ * Options for RpcPaymaster
+ */
+export interface RpcPaymasterOptions {
+  /** URL of the SNIP-29 paymaster endpoint */
+  nodeUrl: string;
+  /** Extra HTTP headers (e.g. an API key) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Paymaster client for a SNIP-29 JSON-RPC endpoint
+ */
+export class RpcPaymaster implements PaymasterClient {
+  private readonly nodeUrl: string;
+  private readonly headers: Record<string, string>;
+  private requestId = 0;
+
+  constructor(options: RpcPaymasterOptions) {
+    this.nodeUrl = options.nodeUrl;
+    this.headers = options.headers ?? {};
+  }
+
+  /**
+   * Check whether the paymaster is up
+   * @returns true if it accepts requests
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.request<boolean>("paymaster_isAvailable", {});
+  }
+
+  /**
+   * Get the tokens the paymaster accepts fees in
+   * @returns The gas token addresses
+   */
+  async getSupportedTokens(): Promise<string[]> {
+    const tokens = await this.request<{ token_address: string }[]>(
+      "paymaster_getSupportedTokens",
+      {}
+    );
+    return tokens.map((t) => t.token_address);
+  }
+
+  async buildTransaction(
+    transaction: PaymasterTransaction,
+    feeMode: PaymasterFeeMode
+  ): Promise<PaymasterBuiltTransaction> {
+    const result = await this.request<RpcBuildResult>("paymaster_buildTransaction", {
+      transaction: {
+        type: transaction.type,
+        ...("deployment" in transaction && {
+          deployment: toRpcDeployment(transaction.deployment),
+        }),
+        ...("invoke" in transaction && {
+          invoke: {
+            user_address: transaction.invoke.userAddress,
+            calls: transaction.invoke.calls.map(toRpcCall),
+          },
+        }),
+      },
+      parameters: toRpcParameters(feeMode),
+    });
+
+    return {
+      type: result.type,
+      typedData: result.typed_data,
+      fee: {
+        gasTokenPriceInStrk: BigInt(result.fee.gas_token_price_in_strk),
+        estimatedFeeInStrk: BigInt(result.fee.estimated_fee_in_strk),
+        estimatedFeeInGasToken: BigInt(result.fee.estimated_fee_in_gas_token),
+        suggestedMaxFeeInStrk: BigInt(result.fee.suggested_max_fee_in_strk),
+        suggestedMaxFeeInGasToken: BigInt(result.fee.suggested_max_fee_in_gas_token),
+      },
+    };
+  }
+
+  async executeTransaction(
+    execution: PaymasterExecution,
+    feeMode: PaymasterFeeMode
+  ): Promise<PaymasterExecuteResult> {
+    const result = await this.request<{ transaction_hash: string; tracking_id: string }>(
+      "paymaster_executeTransaction",
+      {
+        transaction: {
+          type: execution.type,
+          ...("deployment" in execution && {
+            deployment: toRpcDeployment(execution.deployment),
+          }),
+          ...("invoke" in execution && {
+            invoke: {
+              user_address: execution.invoke.userAddress,
+              typed_data: execution.invoke.typedData,
+              signature: execution.invoke.signature,
+            },
+          }),
+        },
+        parameters: toRpcParameters(feeMode),
+      }
+    );
+    return { transactionHash: result.transaction_hash, trackingId: result.tracking_id };
+  }
+
+  /**
+   * Send a JSON-RPC request and unwrap its result
+   */
+  private async request<T>(method: string, params: object): Promise<T> {
+    const response = await fetch(this.nodeUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...this.headers },
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++this.requestId, method, params }),
+    });
+    if (!response.ok) {
+      throw new Error(`Paymaster request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as {
+      result?: T;
+      error?: { code: number; message: string };
+    };
+    if (body.error) {
+      throw new Error(`Paymaster error ${body.error.code}: ${body.error.message}`);
+    }
+    return body.result as T;
+  }
+}
+
+/**
+ * Options for MockPaymaster
+ */
+export interface MockPaymasterOptions {
+  /** Address fees are paid to, and the outside execution caller */
+  address?: string;
+  /** Fee charged in the gas token (default 0) */
+  fee?: bigint;
+  /** Tokens accepted as gas tokens (default: any) */
+  supportedTokens?: string[];
+  /** Chain ID for the outside execution domain (default Sepolia) */
+  chainId?: string;
+}
+
+/**
+ * A transaction executed by MockPaymaster
+ */
+export interface MockPaymasterExecution {
+  type: PaymasterTransaction["type"];
+  deployment?: PaymasterDeployment;
+  /** Account the calls ran from */
+  userAddress?: string;
+  /** Calls run, including the fee transfer */
+  calls: Call[];
+  signature?: string[];
+  feeMode: PaymasterFeeMode;
+  transactionHash: string;
+}
+
+/**
+ * In-memory paymaster for tests
+ *
+ * Builds real SNIP-9 outside executions, appending a transfer of `fee` in
+ * the gas token when it is not sponsored, and records every execution
+ * instead of submitting it.
+ */
+export class MockPaymaster implements PaymasterClient {
+  readonly address: string;
+  readonly fee: bigint;
+  /** Executed transactions, in order */
+  readonly executions: MockPaymasterExecution[] = [];
+  private readonly supportedTokens?: bigint[];
+  private readonly chainId: string;
+  private readonly built = new Map<string, Call[]>();
+  private nonce = 0n;
+
+  constructor(options: MockPaymasterOptions = {}) {
+    this.address = options.address ?? "0x7061796d6173746572";
+    this.fee = options.fee ?? 0n;
+    this.supportedTokens = options.supportedTokens?.map((t) => BigInt(t));
+    this.chainId = options.chainId ?? constants.StarknetChainId.SN_SEPOLIA;
+  }
+
+  async buildTransaction(
+    transaction: PaymasterTransaction,
+    feeMode: PaymasterFeeMode
+  ): Promise<PaymasterBuiltTransaction> {
+    this.checkFeeMode(transaction.type, feeMode);
+    const fee = feeMode.mode === "sponsored" ? 0n : this.fee;
+    const quote: PaymasterFeeEstimate = {
+      gasTokenPriceInStrk: 1n,
+      estimatedFeeInStrk: fee,
+      estimatedFeeInGasToken: fee,
+      suggestedMaxFeeInStrk: fee,
+      suggestedMaxFeeInGasToken: fee,
+    };
+    if (transaction.type === "deploy") {
+      return { type: transaction.type, fee: quote };
+    }
+
+    const calls = [...transaction.invoke.calls];
+    if (feeMode.mode === "default" && fee > 0n) {
+      calls.push({
+        contractAddress: feeMode.gasToken,
+        entrypoint: "transfer",
+        calldata: CallData.compile({
+          recipient: this.address,
+          amount: { low: fee & ((1n << 128n) - 1n), high: fee >> 128n },
+        }),
+      });
+    }
+    const typedData = outsideExecution.getTypedData(
+      this.chainId,
+      { caller: this.address, execute_after: 0, execute_before: 0xffffffffff },
+      num.toHex(++this.nonce),
+      calls,
+      OutsideExecutionVersion.V2
+    );
+    this.built.set(JSON.stringify(typedData), calls);
+    return { type: transaction.type, typedData, fee: quote };
+  }
+
+  async executeTransaction(
+    execution: PaymasterExecution,
+    feeMode: PaymasterFeeMode
+  ): Promise<PaymasterExecuteResult> {
+    this.checkFeeMode(execution.type, feeMode);
+    let calls: Call[] = [];
+    if (execution.type !== "deploy") {
+      const built = this.built.get(JSON.stringify(execution.invoke.typedData));
+      if (built === undefined) {
+        throw new Error("Mock paymaster: unknown typed data");
+      }
+      if (execution.invoke.signature.length === 0) {
+        throw new Error("Mock paymaster: missing signature");
+      }
+      calls = built;
+    }
+
+    const transactionHash = "0x" + (this.executions.length + 1).toString(16);
+    this.executions.push({
+      type: execution.type,
+      deployment: "deployment" in execution ? execution.deployment : undefined,
+      userAddress: "invoke" in execution ? execution.invoke.userAddress : undefined,
+      signature: "invoke" in execution ? execution.invoke.signature : undefined,
+      calls,
+      feeMode,
+      transactionHash,
+    });
+    return { transactionHash, trackingId: transactionHash };
+  }
+
+  /**
+   * Reject fee modes a real paymaster would reject
+   */
+  private checkFeeMode(type: PaymasterTransaction["type"], feeMode: PaymasterFeeMode): void {
+    if (feeMode.mode === "sponsored") return;
+    if (type === "deploy") {
+      throw new Error("Mock paymaster: a plain deployment must be sponsored");
+    }
+    if (this.supportedTokens && !this.supportedTokens.includes(BigInt(feeMode.gasToken))) {
+      throw new Error(`Mock paymaster: unsupported gas token ${feeMode.gasToken}`);
+    }
+  }
+}
+
+/**
+ * Raw paymaster_buildTransaction result
+ */
+interface RpcBuildResult {
+  type: PaymasterTransaction["type"];
+  typed_data?: TypedData;
+  fee: {
+    gas_token_price_in_strk: string;
+    estimated_fee_in_strk: string;
+    estimated_fee_in_gas_token: string;
+    suggested_max_fee_in_strk: string;
+    suggested_max_fee_in_gas_token: string;
+  };
+}
+
+/**
+ * Convert a call to the SNIP-29 {to, selector, calldata} form
+ */
+function toRpcCall(call: Call): { to: string; selector: string; calldata: string[] } {
+  return {
+    to: num.toHex(call.contractAddress),
+    selector: hash.getSelectorFromName(call.entrypoint),
+    calldata: CallData.toHex(call.calldata ?? []),
+  };
+}
+
+/**
+ * Convert deployment data to its SNIP-29 form
+ */
+function toRpcDeployment(deployment: PaymasterDeployment) {
+  return {
+    address: deployment.address,
+    class_hash: deployment.classHash,
+    salt: deployment.salt,
+    calldata: deployment.calldata,
+    version: deployment.version,
+  };
+}
+
+/**
+ * Build SNIP-29 execution parameters for a fee mode
+ */
+function toRpcParameters(feeMode: PaymasterFeeMode) {
+  return {
+    version: "0x1",
+    fee_mode:
+      feeMode.mode === "sponsored"
+        ? { mode: "sponsored" }
+        : { mode: "default", gas_token: feeMode.gasToken },
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import { parseMetaAddress, isValidMetaAddress, type MetaAddress } from "./meta-address";
+import { InvalidMetaAddressError, InvalidPaymentLinkError } from "./errors";
 
 const PAYMENT_LINK_SCHEME = "amora";
 const PAYMENT_LINK_HOST = "pay";
@@ -45,11 +46,11 @@ export interface ParsedPaymentLink {
  *
  * @param params - Payment link parameters
  * @returns The encoded payment link URI
- * @throws If the meta-address is invalid
+ * @throws InvalidMetaAddressError if the meta-address is invalid
  */
 export function generatePaymentLink(params: PaymentLinkParams): string {
   if (!isValidMetaAddress(params.metaAddress)) {
-    throw new Error("Invalid meta-address");
+    throw new InvalidMetaAddressError("Invalid meta-address");
   }
 
   const queryParts: string[] = [`meta=${encodeURIComponent(params.metaAddress)}`];
@@ -74,13 +75,14 @@ export function generatePaymentLink(params: PaymentLinkParams): string {
  *
  * @param link - The payment link URI to parse
  * @returns The parsed payment link data
- * @throws If the link format is invalid or contains an invalid meta-address
+ * @throws InvalidPaymentLinkError if the link format is invalid, or
+ *   InvalidMetaAddressError if it contains an invalid meta-address
  */
 export function parsePaymentLink(link: string): ParsedPaymentLink {
   // Validate scheme
   const schemePrefix = `${PAYMENT_LINK_SCHEME}://${PAYMENT_LINK_HOST}?`;
   if (!link.startsWith(schemePrefix)) {
-    throw new Error(`Invalid payment link: must start with "${schemePrefix}"`);
+    throw new InvalidPaymentLinkError(`Invalid payment link: must start with "${schemePrefix}"`);
   }
 
   const queryString = link.slice(schemePrefix.length);
@@ -88,7 +90,7 @@ export function parsePaymentLink(link: string): ParsedPaymentLink {
 
   const metaRaw = params.get("meta");
   if (!metaRaw) {
-    throw new Error("Invalid payment link: missing meta-address");
+    throw new InvalidPaymentLinkError("Invalid payment link: missing meta-address");
   }
 
   const metaAddressRaw = decodeURIComponent(metaRaw);
@@ -106,7 +108,13 @@ export function parsePaymentLink(link: string): ParsedPaymentLink {
 
   const amount = params.get("amount");
   if (amount) {
-    result.amount = BigInt(amount);
+    try {
+      result.amount = BigInt(amount);
+    } catch (e) {
+      throw new InvalidPaymentLinkError(`Invalid payment link: invalid amount "${amount}"`, {
+        cause: e,
+      });
+    }
   }
 
   const memo = params.get("memo");
@@ -0,0 +1,33 @@
+/**
+ * Scan worker entry point
+ *
+ * Loaded by scanAnnouncementsParallel in a Node worker thread or a Web
+ * Worker. Receives ScanWorkerRequest messages and replies with the matches.
+ */
+
+import {
+  handleScanWorkerRequest,
+  type ScanWorkerRequest,
+  type ScanWorkerResponse,
+} from "./parallel";
+
+interface WebWorkerScope {
+  postMessage(message: ScanWorkerResponse): void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: ScanWorkerRequest }) => void
+  ): void;
+}
+
+if (typeof process !== "undefined" && process.versions?.node) {
+  void import("node:worker_threads").then(({ parentPort }) => {
+    parentPort?.on("message", (request: ScanWorkerRequest) => {
+      parentPort.postMessage(handleScanWorkerRequest(request));
+    });
+  });
+} else {
+  const scope = globalThis as unknown as WebWorkerScope;
+  scope.addEventListener("message", (event) => {
+    scope.postMessage(handleScanWorkerRequest(event.data));
+  });
+}
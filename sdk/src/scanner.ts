@@ -0,0 +1,416 @@
+/**
+ * Checkpointed incremental scanning
+ *
+ * AmoraScanner remembers the last scanned block and the payments found so
+ * far through a pluggable ScanStore, so each call only fetches new blocks
+ * and only returns payments it has not reported before.
+ */
+
+import type { Amora } from "./contracts";
+import type { StealthKeys } from "./keys";
+import type { Announcement, StealthPayment } from "./stealth";
+import type { FetchAnnouncementsOptions } from "./announcements";
+import { scanAnnouncements } from "./stealth";
+import {
+  findLastBlockWithFinality,
+  type BlockStatus,
+  type FinalityStatus,
+} from "./finality";
+
+/**
+ * Persisted scanner state
+ */
+export interface ScanState {
+  /** Last block included in a completed scan */
+  lastScannedBlock: number;
+  /** Every payment found so far, in chain order */
+  payments: StealthPayment[];
+  /** Hashes of scanned blocks that are not yet final, for reorg detection */
+  trackedBlocks?: TrackedBlock[];
+  /** Highest scanned block known to be accepted on L1 */
+  finalizedBlock?: number;
+}
+
+/**
+ * A scanned block whose hash is re-checked on the next scan
+ */
+export interface TrackedBlock {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/**
+ * Storage backend for scanner state
+ */
+export interface ScanStore {
+  /** Load the saved state, or null if nothing has been saved yet */
+  load(): Promise<ScanState | null>;
+  /** Persist the state, replacing any previous state */
+  save(state: ScanState): Promise<void>;
+}
+
+/**
+ * Options for creating an AmoraScanner
+ */
+export interface AmoraScannerOptions {
+  /** State storage (defaults to a new MemoryScanStore) */
+  store?: ScanStore;
+  /** Block to start from when the store is empty (default 0) */
+  startBlock?: number;
+  /**
+   * Minimum finality for scanned blocks (default "ACCEPTED_ON_L2").
+   * With "ACCEPTED_ON_L1" the scanner stops at the last L1-accepted block
+   * and never sees a reorg.
+   */
+  finality?: Exclude<FinalityStatus, "PENDING">;
+  /** Called with the payments rolled back by a reorg and the first rolled-back block */
+  onReorg?: (removed: StealthPayment[], fromBlock: number) => void;
+}
+
+/**
+ * Serialize scanner state to a JSON string (bigints are stored as hex)
+ * @param state - The state to serialize
+ * @returns The JSON string
+ */
+export function serializeScanState(state: ScanState): string {
+  return JSON.stringify(state, (_key, value) =>
+    typeof value === "bigint" ? { $bigint: "0x" + value.toString(16) } : value
+  );
+}
+
+/**
+ * Deserialize scanner state produced by serializeScanState
+ * @param json - The JSON string
+ * @returns The parsed state
+ * @throws If the JSON does not describe a scanner state
+ */
+export function deserializeScanState(json: string): ScanState {
+  const state = JSON.parse(json, (_key, value) =>
+    value !== null &&
+    typeof value === "object" &&
+    typeof value.$bigint === "string"
+      ? BigInt(value.$bigint)
+      : value
+  );
+
+  if (
+    typeof state?.lastScannedBlock !== "number" ||
+    !Array.isArray(state.payments)
+  ) {
+    throw new Error("Invalid scan state: missing lastScannedBlock or payments");
+  }
+
+  return state as ScanState;
+}
+
+/**
+ * Compute the deduplication key of an announcement
+ * @param announcement - The announcement
+ * @returns "<transactionHash>:<eventIndex>"
+ */
+export function announcementId(announcement: Announcement): string {
+  return `${announcement.transactionHash ?? ""}:${announcement.eventIndex ?? 0}`;
+}
+
+/**
+ * In-memory scan store (state is lost when the process exits)
+ */
+export class MemoryScanStore implements ScanStore {
+  private state: string | null = null;
+
+  async load(): Promise<ScanState | null> {
+    return this.state === null ? null : deserializeScanState(this.state);
+  }
+
+  async save(state: ScanState): Promise<void> {
+    // Store a serialized copy so callers cannot mutate the saved state
+    this.state = serializeScanState(state);
+  }
+}
+
+/**
+ * JSON file scan store for Node.js
+ *
+ * The file contains stealth private keys; keep it somewhere only the owner
+ * can read.
+ */
+export class JsonFileScanStore implements ScanStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<ScanState | null> {
+    const fs = await import("node:fs/promises");
+    try {
+      return deserializeScanState(await fs.readFile(this.filePath, "utf8"));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  async save(state: ScanState): Promise<void> {
+    const fs = await import("node:fs/promises");
+    // Write to a temp file and rename so a crash never leaves a partial file
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, serializeScanState(state), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/** Checkpoint blocks (blocks without payments) kept for reorg detection */
+const MAX_TRACKED_CHECKPOINTS = 8;
+
+/**
+ * Keep every tracked payment block but only the most recent checkpoints
+ */
+function pruneCheckpoints(
+  tracked: TrackedBlock[],
+  payments: StealthPayment[]
+): TrackedBlock[] {
+  const paymentBlocks = new Set(
+    payments.map((p) => p.announcement.blockNumber)
+  );
+  const checkpoints = tracked
+    .filter((b) => !paymentBlocks.has(b.blockNumber))
+    .slice(-MAX_TRACKED_CHECKPOINTS);
+  return tracked.filter(
+    (b) => paymentBlocks.has(b.blockNumber) || checkpoints.includes(b)
+  );
+}
+
+/**
+ * Incremental scanner that resumes from its last checkpoint
+ *
+ * The scanner remembers the hashes of non-final blocks it relied on (each
+ * checkpoint block and each block holding a payment). Before scanning it
+ * re-checks them; if one no longer matches, the chain was reorganized, so
+ * payments from the fork point onwards are rolled back, reported through
+ * onReorg, and found again (and re-returned) by the rescan.
+ */
+export class AmoraScanner {
+  private readonly store: ScanStore;
+  private readonly startBlock: number;
+  private readonly finality: FinalityStatus;
+  private readonly onReorg?: (removed: StealthPayment[], fromBlock: number) => void;
+
+  constructor(
+    private readonly amora: Amora,
+    private readonly keys: StealthKeys,
+    options: AmoraScannerOptions = {}
+  ) {
+    this.store = options.store ?? new MemoryScanStore();
+    this.startBlock = options.startBlock ?? 0;
+    this.finality = options.finality ?? "ACCEPTED_ON_L2";
+    this.onReorg = options.onReorg;
+  }
+
+  /**
+   * Scan blocks after the last checkpoint and save the new checkpoint
+   * @param toBlock - Ending block number (or "latest")
+   * @param options - Options forwarded to fetchAnnouncements
+   * @returns Only the payments not found by previous scans (including
+   *          payments re-found after a reorg)
+   */
+  async scan(
+    toBlock: number | "latest" = "latest",
+    options: FetchAnnouncementsOptions = {}
+  ): Promise<StealthPayment[]> {
+    const loaded = (await this.store.load()) ?? {
+      lastScannedBlock: this.startBlock - 1,
+      payments: [],
+    };
+    const state = await this.reconcile(loaded);
+
+    const fromBlock = state.lastScannedBlock + 1;
+    let lastBlock =
+      toBlock === "latest" ? await this.amora.getBlockNumber() : toBlock;
+
+    if (this.finality !== "ACCEPTED_ON_L2" && fromBlock <= lastBlock) {
+      lastBlock = await findLastBlockWithFinality(
+        (block) => this.amora.getBlockStatus(block),
+        fromBlock,
+        lastBlock,
+        this.finality
+      );
+    }
+
+    if (fromBlock > lastBlock) {
+      if (state !== loaded) await this.store.save(state);
+      return [];
+    }
+
+    const announcements = await this.amora.fetchAnnouncements(
+      fromBlock,
+      lastBlock,
+      options
+    );
+
+    const seen = new Set(
+      state.payments.map((p) => announcementId(p.announcement))
+    );
+    const fresh = announcements.filter((a) => {
+      const id = announcementId(a);
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    });
+
+    const newPayments = scanAnnouncements(
+      fresh,
+      this.keys.viewingKey.privateKey,
+      this.keys.spendingKey.publicKey,
+      this.keys.spendingKey.privateKey,
+      this.amora.accountClassesFor(this.keys.schemeId),
+      this.keys.schemeId
+    );
+
+    // Record finality of the new payments and the blocks they rely on
+    const blockNumbers = new Set<number>([lastBlock]);
+    for (const payment of newPayments) {
+      if (payment.announcement.blockNumber !== undefined) {
+        blockNumbers.add(payment.announcement.blockNumber);
+      }
+    }
+    const statuses = await this.fetchStatuses([...blockNumbers]);
+
+    for (const payment of newPayments) {
+      const status = statuses.get(payment.announcement.blockNumber ?? -1);
+      if (status) {
+        payment.announcement.blockHash = status.blockHash;
+        payment.announcement.finality = status.finality;
+      }
+    }
+
+    let trackedBlocks = [...(state.trackedBlocks ?? [])];
+    let finalizedBlock = state.finalizedBlock;
+    for (const status of statuses.values()) {
+      if (status.finality === "ACCEPTED_ON_L1") {
+        finalizedBlock = Math.max(finalizedBlock ?? -1, status.blockNumber);
+      } else {
+        trackedBlocks.push({
+          blockNumber: status.blockNumber,
+          blockHash: status.blockHash,
+        });
+      }
+    }
+
+    const payments = [...state.payments, ...newPayments];
+    trackedBlocks = pruneCheckpoints(trackedBlocks, payments);
+
+    await this.store.save({
+      lastScannedBlock: lastBlock,
+      payments,
+      trackedBlocks,
+      finalizedBlock,
+    });
+
+    return newPayments;
+  }
+
+  /**
+   * Get every payment found so far
+   * @returns The saved payments, in chain order
+   */
+  async getPayments(): Promise<StealthPayment[]> {
+    return (await this.store.load())?.payments ?? [];
+  }
+
+  /**
+   * Get the last block included in a completed scan
+   * @returns The block number, or null if nothing has been scanned yet
+   */
+  async getLastScannedBlock(): Promise<number | null> {
+    return (await this.store.load())?.lastScannedBlock ?? null;
+  }
+
+  /**
+   * Re-check tracked blocks: roll back on reorgs and update finality
+   * @returns The reconciled state (the same object if nothing changed)
+   */
+  private async reconcile(state: ScanState): Promise<ScanState> {
+    const tracked = state.trackedBlocks ?? [];
+    if (tracked.length === 0) return state;
+
+    const statuses = await this.fetchStatuses(tracked.map((b) => b.blockNumber));
+
+    // The lowest tracked block whose hash changed marks the reorg
+    let reorgBlock: number | null = null;
+    for (const block of tracked) {
+      const status = statuses.get(block.blockNumber);
+      if (!status || status.blockHash !== block.blockHash) {
+        reorgBlock = Math.min(reorgBlock ?? Infinity, block.blockNumber);
+      }
+    }
+
+    let payments = state.payments;
+    let lastScannedBlock = state.lastScannedBlock;
+    let remaining = tracked;
+
+    if (reorgBlock !== null) {
+      // Everything up to the highest unchanged block below the reorg is intact
+      let anchor = Math.max(state.finalizedBlock ?? -1, this.startBlock - 1);
+      for (const block of tracked) {
+        if (block.blockNumber < reorgBlock) {
+          anchor = Math.max(anchor, block.blockNumber);
+        }
+      }
+      const rollbackFrom = anchor + 1;
+
+      const removed = payments.filter(
+        (p) => (p.announcement.blockNumber ?? Infinity) >= rollbackFrom
+      );
+      payments = payments.filter(
+        (p) => (p.announcement.blockNumber ?? Infinity) < rollbackFrom
+      );
+      lastScannedBlock = Math.min(lastScannedBlock, anchor);
+      remaining = tracked.filter((b) => b.blockNumber < rollbackFrom);
+
+      if (removed.length > 0) {
+        this.onReorg?.(removed, rollbackFrom);
+      }
+    }
+
+    // Promote finality of the surviving payments; stop tracking final blocks
+    let finalizedBlock = state.finalizedBlock;
+    payments = payments.map((p) => {
+      const status = statuses.get(p.announcement.blockNumber ?? -1);
+      if (!status || status.blockHash !== p.announcement.blockHash) return p;
+      return { ...p, announcement: { ...p.announcement, finality: status.finality } };
+    });
+    remaining = remaining.filter((b) => {
+      const status = statuses.get(b.blockNumber);
+      if (status?.finality !== "ACCEPTED_ON_L1") return true;
+      finalizedBlock = Math.max(finalizedBlock ?? -1, b.blockNumber);
+      return false;
+    });
+
+    return {
+      lastScannedBlock,
+      payments,
+      trackedBlocks: remaining,
+      finalizedBlock,
+    };
+  }
+
+  /**
+   * Fetch statuses for distinct blocks, omitting blocks no longer on chain
+   */
+  private async fetchStatuses(
+    blockNumbers: number[]
+  ): Promise<Map<number, BlockStatus>> {
+    const unique = [...new Set(blockNumbers)];
+    const statuses = await Promise.all(
+      unique.map((block) => this.amora.getBlockStatus(block))
+    );
+
+    const result = new Map<number, BlockStatus>();
+    for (const status of statuses) {
+      if (status !== null) result.set(status.blockNumber, status);
+    }
+    return result;
+  }
+}
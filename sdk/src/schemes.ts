@@ -0,0 +1,310 @@
+/**
+ * Stealth schemes
+ *
+ * A scheme fixes the curve of a recipient's spending key and of the stealth
+ * keys tweaked from it, and the stealth account that holds the funds: how
+ * keys are generated, the ECDH that yields the shared secret, the tweak
+ * applied to the spending key, and the account's constructor calldata and
+ * address salt. Meta-addresses name their scheme by ID (v1 meta-addresses
+ * are STARK), and generation and scanning dispatch through the registry.
+ *
+ * Viewing and ephemeral keys stay on the STARK curve in both built-in
+ * schemes: the registry and announcements store them as felts, which a
+ * secp256k1 x-coordinate does not fit.
+ */
+
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { EthSigner, type SignerInterface } from "starknet";
+import {
+  SCHEME_ID_STARK,
+  FIELD_PRIME,
+  generatePrivateKey,
+  derivePublicKey,
+  ecdh,
+  ecdhMany,
+  poseidonHash,
+  computeStealthTweak,
+  computeStealthPublicKey,
+  computeStealthPrivateKey,
+  normalizePrivateKey,
+  type CurvePoint,
+  type ProtocolVersion,
+} from "./crypto";
+import { validatePrivateKey, validatePublicKey } from "./validation";
+import {
+  InvalidPointError,
+  NonNormalizedKeyError,
+  OutOfRangeError,
+  SchemeConflictError,
+  UnsupportedSchemeError,
+} from "./errors";
+
+/**
+ * Scheme ID for secp256k1 (Ethereum-signer) stealth accounts
+ * "SECP256K1" in ASCII bytes as a felt252
+ */
+export const SCHEME_ID_SECP256K1 = 0x534543503235364b31n;
+
+/**
+ * The operations a stealth scheme provides
+ */
+export interface StealthScheme {
+  /** Scheme ID, as carried by v2 meta-addresses and announcements */
+  readonly id: bigint;
+  /** Short name, e.g. "stark" */
+  readonly name: string;
+
+  /** Generate a spending private key whose public key the scheme accepts */
+  generateSpendingKey(): bigint;
+  /** Derive the spending public key (a felt) of a spending private key */
+  deriveSpendingPublicKey(privateKey: bigint): bigint;
+  /**
+   * The spending private key of the same public key whose point has even y,
+   * the point stealth public keys are derived from
+   */
+  normalizeSpendingKey(privateKey: bigint): bigint;
+  /** Check a spending public key; throws InvalidPointError */
+  validateSpendingPublicKey(publicKey: bigint, name?: string): void;
+  /** Check a spending or stealth private key; throws OutOfRangeError */
+  validatePrivateKey(privateKey: bigint, name?: string): void;
+
+  /** Shared secret of a viewing or ephemeral private key and a public key */
+  ecdh(privateKey: bigint, publicKey: bigint | CurvePoint): bigint;
+  /** Shared secrets of many private keys with one public key */
+  ecdhMany(privateKeys: bigint[], publicKey: bigint | CurvePoint): bigint[];
+
+  /** Tweak a spending public key (or its recovered STARK point) into a stealth public key */
+  computeStealthPublicKey(
+    spendingPubKey: bigint | CurvePoint,
+    sharedSecret: bigint,
+    version: ProtocolVersion
+  ): bigint;
+  /** Tweak a spending private key into a stealth private key */
+  computeStealthPrivateKey(
+    spendingPrivateKey: bigint,
+    sharedSecret: bigint,
+    version: ProtocolVersion
+  ): bigint;
+  /** Derive the stealth public key of a stealth private key */
+  deriveStealthPublicKey(stealthPrivateKey: bigint): bigint;
+
+  /** Constructor calldata of the stealth account of a stealth public key */
+  constructorCalldata(stealthPubKey: bigint): bigint[];
+  /** Address salt of the stealth account of a stealth public key */
+  addressSalt(stealthPubKey: bigint): bigint;
+  /** Signer of the stealth account, as accepted by starknet.js Account */
+  signer(stealthPrivateKey: bigint): string | SignerInterface;
+}
+
+/**
+ * STARK-curve keys and a single-key STARK account (constructor `[public_key]`)
+ */
+export const starkScheme: StealthScheme = {
+  id: BigInt(SCHEME_ID_STARK),
+  name: "stark",
+
+  generateSpendingKey: generatePrivateKey,
+  deriveSpendingPublicKey: derivePublicKey,
+  normalizeSpendingKey: normalizePrivateKey,
+  validateSpendingPublicKey(publicKey, name = "spending public key") {
+    validatePublicKey(publicKey, name);
+  },
+  validatePrivateKey,
+
+  ecdh,
+  ecdhMany,
+
+  computeStealthPublicKey,
+  computeStealthPrivateKey,
+  deriveStealthPublicKey: derivePublicKey,
+
+  constructorCalldata: (stealthPubKey) => [stealthPubKey],
+  addressSalt: (stealthPubKey) => stealthPubKey,
+  signer: (stealthPrivateKey) => stealthPrivateKey.toString(),
+};
+
+/** secp256k1 group order */
+const SECP256K1_ORDER = secp256k1.CURVE.n;
+
+/** Mask of the low 128 bits of a u256 */
+const U128_MASK = (1n << 128n) - 1n;
+
+/** A point on secp256k1 */
+type Secp256k1Point = InstanceType<typeof secp256k1.ProjectivePoint>;
+
+/**
+ * Recover the secp256k1 point with even y of an x-coordinate
+ */
+function liftX(x: bigint, name: string): Secp256k1Point {
+  try {
+    return secp256k1.ProjectivePoint.fromHex("02" + x.toString(16).padStart(64, "0"));
+  } catch (e) {
+    throw new InvalidPointError(`Invalid ${name}: x-coordinate not on secp256k1`, { cause: e });
+  }
+}
+
+/**
+ * Encode a secp256k1 point as its 33-byte compressed (SEC1) key
+ */
+function compress(point: Secp256k1Point): bigint {
+  return BigInt("0x" + point.toHex(true));
+}
+
+/**
+ * Decode a compressed (SEC1) secp256k1 key
+ */
+function decompress(publicKey: bigint): Secp256k1Point {
+  try {
+    return secp256k1.ProjectivePoint.fromHex(publicKey.toString(16).padStart(66, "0"));
+  } catch (e) {
+    throw new InvalidPointError("Invalid stealth public key: not a compressed secp256k1 key", {
+      cause: e,
+    });
+  }
+}
+
+/**
+ * Check that a private key is a valid secp256k1 scalar
+ */
+function validateSecp256k1PrivateKey(privateKey: bigint, name = "private key"): void {
+  if (privateKey <= 0n || privateKey >= SECP256K1_ORDER) {
+    throw new OutOfRangeError(`Invalid ${name}: must be in [1, secp256k1 order)`, privateKey);
+  }
+}
+
+/**
+ * Constructor calldata of an EthAccount: the public key as two u256s
+ */
+function ethAccountCalldata(stealthPubKey: bigint): bigint[] {
+  const { x, y } = decompress(stealthPubKey).toAffine();
+  return [x & U128_MASK, x >> 128n, y & U128_MASK, y >> 128n];
+}
+
+/**
+ * secp256k1 spending and stealth keys, held by an account that verifies
+ * Ethereum signatures (OpenZeppelin EthAccount: constructor
+ * `[x.low, x.high, y.low, y.high]`)
+ *
+ * Spending public keys are x-coordinates with even y, like STARK keys, and
+ * are generated below FIELD_PRIME so they fit a felt. A spending private key
+ * whose point has odd y is rejected rather than used as given; import it
+ * with importKeys to normalize it. Stealth public keys
+ * are compressed SEC1 keys (33 bytes), since their y parity is not fixed.
+ */
+export const secp256k1Scheme: StealthScheme = {
+  id: SCHEME_ID_SECP256K1,
+  name: "secp256k1",
+
+  generateSpendingKey() {
+    for (;;) {
+      const key = secp256k1.utils.normPrivateKeyToScalar(secp256k1.utils.randomPrivateKey());
+      const point = secp256k1.ProjectivePoint.BASE.multiply(key);
+      // Keep x a felt (about 1 key in 32), then normalize to even y
+      if (point.x < FIELD_PRIME) {
+        return point.y % 2n === 0n ? key : SECP256K1_ORDER - key;
+      }
+    }
+  },
+  deriveSpendingPublicKey(privateKey) {
+    validateSecp256k1PrivateKey(privateKey, "spending private key");
+    const point = secp256k1.ProjectivePoint.BASE.multiply(privateKey).toAffine();
+    // The tweak is added to the key as given, so only an even-y key
+    // controls the stealth keys derived from its lifted x-coordinate
+    if (point.y % 2n !== 0n) {
+      throw new NonNormalizedKeyError("spending private key");
+    }
+    return point.x;
+  },
+  normalizeSpendingKey(privateKey) {
+    validateSecp256k1PrivateKey(privateKey, "spending private key");
+    const { y } = secp256k1.ProjectivePoint.BASE.multiply(privateKey).toAffine();
+    return y % 2n === 0n ? privateKey : SECP256K1_ORDER - privateKey;
+  },
+  validateSpendingPublicKey(publicKey, name = "spending public key") {
+    if (publicKey <= 0n || publicKey >= FIELD_PRIME) {
+      throw new InvalidPointError(`Invalid ${name}: x-coordinate out of felt252 range`);
+    }
+    liftX(publicKey, name);
+  },
+  validatePrivateKey: validateSecp256k1PrivateKey,
+
+  ecdh,
+  ecdhMany,
+
+  computeStealthPublicKey(spendingPubKey, sharedSecret, version) {
+    const x = typeof spendingPubKey === "bigint" ? spendingPubKey : spendingPubKey.x;
+    const tweak = computeStealthTweak(sharedSecret, version) % SECP256K1_ORDER;
+    const stealthPoint = liftX(x, "spending public key").add(
+      secp256k1.ProjectivePoint.BASE.multiply(tweak)
+    );
+    return compress(stealthPoint);
+  },
+  computeStealthPrivateKey(spendingPrivateKey, sharedSecret, version) {
+    const tweak = computeStealthTweak(sharedSecret, version);
+    return (spendingPrivateKey + tweak) % SECP256K1_ORDER;
+  },
+  deriveStealthPublicKey(stealthPrivateKey) {
+    validateSecp256k1PrivateKey(stealthPrivateKey, "stealth private key");
+    return compress(secp256k1.ProjectivePoint.BASE.multiply(stealthPrivateKey));
+  },
+
+  constructorCalldata: ethAccountCalldata,
+  addressSalt: (stealthPubKey) => poseidonHash(...ethAccountCalldata(stealthPubKey)),
+  signer: (stealthPrivateKey) =>
+    new EthSigner("0x" + stealthPrivateKey.toString(16).padStart(64, "0")),
+};
+
+/**
+ * Registered schemes, by ID
+ */
+const schemes = new Map<bigint, StealthScheme>([
+  [starkScheme.id, starkScheme],
+  [secp256k1Scheme.id, secp256k1Scheme],
+]);
+
+/**
+ * Register a stealth scheme, so meta-addresses with its ID can be used
+ * @param scheme - The scheme
+ * @throws SchemeConflictError if another scheme is registered with the same ID
+ */
+export function registerScheme(scheme: StealthScheme): void {
+  const existing = schemes.get(scheme.id);
+  if (existing !== undefined && existing !== scheme) {
+    throw new SchemeConflictError(
+      `Stealth scheme ID 0x${scheme.id.toString(16)} is already registered (${existing.name})`,
+      scheme.id
+    );
+  }
+  schemes.set(scheme.id, scheme);
+}
+
+/**
+ * Look up a registered stealth scheme
+ * @param schemeId - The scheme ID (default: STARK)
+ * @returns The scheme
+ * @throws UnsupportedSchemeError if no scheme is registered with the ID
+ */
+export function getScheme(schemeId: bigint = starkScheme.id): StealthScheme {
+  const scheme = schemes.get(schemeId);
+  if (scheme === undefined) {
+    throw new UnsupportedSchemeError(schemeId);
+  }
+  return scheme;
+}
+
+/**
+ * Check whether a stealth scheme is registered
+ * @param schemeId - The scheme ID
+ * @returns true if getScheme would find it
+ */
+export function isSupportedScheme(schemeId: bigint): boolean {
+  return schemes.has(schemeId);
+}
+
+/**
+ * Get every registered stealth scheme
+ * @returns The schemes, in registration order
+ */
+export function getSchemes(): StealthScheme[] {
+  return [...schemes.values()];
+}
@@ -0,0 +1,94 @@
+/**
+ * Stealth keys from a wallet signature
+ *
+ * Users can regenerate their StealthKeys by signing a fixed SNIP-12 typed-data
+ * message with their existing Starknet account, so there is nothing extra to
+ * back up. The spending and viewing keys are derived from the signature with
+ * domain-separated Poseidon hashes.
+ *
+ * This relies on the account signing deterministically (RFC 6979), as the
+ * standard Starknet signers do: the same account, message and chain must
+ * always produce the same signature.
+ */
+
+import { shortString, type Signature, type TypedData } from "starknet";
+import type { StealthKeys } from "./keys";
+import { keysFromPrivateKeys } from "./keys";
+import { poseidonHash, privateKeyFromSeed } from "./crypto";
+
+/**
+ * Version of the key derivation message.
+ * Changing the message changes every derived key, so it is versioned.
+ */
+export const SIGNATURE_KEY_MESSAGE_VERSION = "1";
+
+/**
+ * Statement shown to the user in their wallet when signing
+ */
+const SIGNATURE_KEY_STATEMENT =
+  "Sign this message to generate your Amora stealth keys. Only sign it on sites you trust: anyone with this signature can spend your stealth payments.";
+
+// Domain separators for the two derived keys
+const SPENDING_KEY_DOMAIN = BigInt(shortString.encodeShortString("amora-spending-key"));
+const VIEWING_KEY_DOMAIN = BigInt(shortString.encodeShortString("amora-viewing-key"));
+
+/**
+ * Build the canonical SNIP-12 (revision 1) typed-data message to sign
+ * @param chainId - The Starknet chain ID (e.g. "SN_MAIN" or its hex encoding)
+ * @returns The typed-data message
+ */
+export function getKeyDerivationTypedData(chainId: string): TypedData {
+  return {
+    types: {
+      StarknetDomain: [
+        { name: "name", type: "shortstring" },
+        { name: "version", type: "shortstring" },
+        { name: "chainId", type: "shortstring" },
+        { name: "revision", type: "shortstring" },
+      ],
+      AmoraStealthKeys: [
+        { name: "action", type: "shortstring" },
+        { name: "statement", type: "string" },
+      ],
+    },
+    primaryType: "AmoraStealthKeys",
+    domain: {
+      name: "Amora",
+      version: SIGNATURE_KEY_MESSAGE_VERSION,
+      chainId,
+      revision: "1",
+    },
+    message: {
+      action: "Generate stealth keys",
+      statement: SIGNATURE_KEY_STATEMENT,
+    },
+  };
+}
+
+/**
+ * Derive StealthKeys from a signature over the key derivation message
+ * @param signature - The signature returned by the account's signMessage
+ * @returns Normalized spending and viewing keys
+ */
+export function keysFromSignature(signature: Signature): StealthKeys {
+  const felts = signatureToFelts(signature);
+  if (felts.length === 0) {
+    throw new Error("Empty signature");
+  }
+
+  return keysFromPrivateKeys(
+    privateKeyFromSeed(poseidonHash(SPENDING_KEY_DOMAIN, ...felts)),
+    privateKeyFromSeed(poseidonHash(VIEWING_KEY_DOMAIN, ...felts))
+  );
+}
+
+/**
+ * Flatten a signature (array or {r, s}) into felts
+ */
+function signatureToFelts(signature: Signature): bigint[] {
+  if (Array.isArray(signature)) {
+    return signature.map((felt) => BigInt(felt));
+  }
+  const { r, s } = signature as { r: bigint; s: bigint };
+  return [BigInt(r), BigInt(s)];
+}
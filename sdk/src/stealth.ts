@@ -5,20 +5,64 @@
  * 1. Sender generates ephemeral keypair and computes stealth address
  * 2. Recipient scans announcements to find payments
  * 3. Recipient computes stealth private key to spend funds
+ *
+ * Two protocol versions are supported side by side. v2 announcements carry
+ * their version and full view tag in a PROTOCOL metadata field; announcements
+ * without one are v1.
+ *
+ * Key operations dispatch through the recipient's stealth scheme (see
+ * schemes.ts). Announcements of a scheme other than STARK carry its ID in a
+ * SCHEME metadata field, so scanners skip other schemes' announcements
+ * before ECDH. Addresses are derived with an account class (see
+ * account-classes.ts), and scanners accept any of several classes.
  */
 
-import { hash, ec } from "starknet";
+import { ec } from "starknet";
 import {
   generatePrivateKey,
   derivePublicKey,
-  ecdh,
   computeViewTag,
-  computeStealthPublicKey,
-  computeStealthPrivateKey as computeStealthKey,
+  computeViewTagV2,
   poseidonHash,
+  recoverPoint,
+  PROTOCOL_V1,
+  PROTOCOL_V2,
+  MIN_VIEW_TAG_BITS,
+  MAX_VIEW_TAG_BITS,
+  type CurvePoint,
+  type ProtocolVersion,
 } from "./crypto";
+import { isStealthContext } from "./context";
+import { AccountClassMismatchError, InvalidProtocolError } from "./errors";
 import type { MetaAddress } from "./meta-address";
 import type { KeyPair } from "./keys";
+import type { FinalityStatus } from "./finality";
+import {
+  tryDecodeMetadata,
+  type AnnouncementMetadata,
+  type AnnouncementProtocol,
+} from "./metadata";
+import { readPaymentDetails } from "./encrypted-memo";
+import { ephemeralPointOf } from "./validation";
+import { getScheme, starkScheme, type StealthScheme } from "./schemes";
+import {
+  computeAccountAddress,
+  matchAccountClass,
+  resolveAccountClasses,
+  schemeAccountClass,
+  type AccountClasses,
+  type StealthAccountClass,
+} from "./account-classes";
+
+/**
+ * Stealth protocol to generate a stealth address with
+ */
+export interface ProtocolOptions {
+  /** Protocol version (default: PROTOCOL_V1) */
+  version?: ProtocolVersion;
+  /** View tag width in bits, v2 only (default: MIN_VIEW_TAG_BITS) */
+  viewTagBits?: number;
+}
 
 /**
  * Result of generating a stealth address for a recipient
@@ -30,8 +74,16 @@ export interface GenerateStealthAddressResult {
   stealthPubKey: bigint;
   /** The ephemeral public key to be published in announcement */
   ephemeralPubKey: bigint;
-  /** The view tag for efficient scanning */
+  /** The view tag for efficient scanning (for v2, the low 8 bits) */
   viewTag: number;
+  /** The sender–recipient shared secret (keys encrypted memos; keep private) */
+  sharedSecret: bigint;
+  /** Protocol field the announcement's metadata must carry (v2 only) */
+  protocol?: AnnouncementProtocol;
+  /** Scheme field the announcement's metadata must carry (schemes other than STARK) */
+  schemeId?: bigint;
+  /** Network of the recipient's v2 meta-address, checked before sending */
+  network?: string;
 }
 
 /**
@@ -44,12 +96,20 @@ export interface Announcement {
   ephemeralPubKey: bigint;
   /** The view tag for quick filtering */
   viewTag: number;
-  /** Optional metadata (e.g., token address, amount) */
+  /** Raw metadata felts (e.g., token address, amount) */
   metadata: bigint[];
+  /** Decoded metadata, when the raw metadata is well-formed */
+  decodedMetadata?: AnnouncementMetadata;
   /** Block number of the event */
   blockNumber?: number;
   /** Transaction hash of the announcement */
   transactionHash?: string;
+  /** Index of the event among the registry events emitted by its transaction */
+  eventIndex?: number;
+  /** Hash of the block containing the event (absent while pending) */
+  blockHash?: string;
+  /** Finality status of the block, when known */
+  finality?: FinalityStatus;
 }
 
 /**
@@ -64,70 +124,90 @@ export interface StealthPayment {
   stealthPrivateKey: bigint;
   /** The stealth public key (for verification) */
   stealthPubKey: bigint;
+  /** Decoded announcement metadata (token, amount, memo, ...) */
+  metadata?: AnnouncementMetadata;
+  /** The payment memo, decrypted if it was encrypted to the recipient */
+  memo?: string;
+  /** Stealth protocol version of the announcement */
+  protocolVersion: ProtocolVersion;
+  /** Stealth scheme of the payment (absent for STARK) */
+  schemeId?: bigint;
+  /** Class hash of the stealth account the address was derived with */
+  accountClassHash: string;
 }
 
 /**
  * Generate a stealth address for a recipient
  * @param metaAddress - The recipient's meta-address (parsed)
- * @param accountClassHash - The class hash of the stealth account contract
+ * @param accountClass - The class hash of the stealth account contract, or its account class
+ * @param options - Protocol version and view tag width
  * @returns The stealth address data to be used for payment and announcement
+ * @throws UnsupportedSchemeError if the meta-address uses an unregistered scheme
+ * @throws InvalidProtocolError if the version or view tag width is unsupported
+ * @throws AccountClassMismatchError if the account class is for another scheme
+ *   than the meta-address
  */
 export function generateStealthAddress(
   metaAddress: MetaAddress,
-  accountClassHash: string
+  accountClass: string | StealthAccountClass,
+  options: ProtocolOptions = {}
 ): GenerateStealthAddressResult {
-  // 1. Generate ephemeral keypair
+  // 1. Generate ephemeral keypair (a STARK key: announcements store it as a felt)
   const ephemeralPrivateKey = generatePrivateKey();
-  const ephemeralPubKey = derivePublicKey(ephemeralPrivateKey);
-
-  // 2. Compute shared secret: s = r × K_view
-  const sharedSecret = ecdh(ephemeralPrivateKey, metaAddress.viewingPubKey);
-
-  // 3. Compute view tag for efficient scanning
-  const viewTag = computeViewTag(sharedSecret);
 
-  // 4. Compute stealth public key: P = K_spend + hash(s) × G
-  const stealthPubKey = computeStealthPublicKey(
-    metaAddress.spendingPubKey,
-    sharedSecret
+  return generateStealthAddressWithKey(
+    metaAddress,
+    ephemeralPrivateKey,
+    accountClass,
+    options
   );
-
-  // 5. Compute stealth contract address
-  const stealthAddress = computeStealthContractAddress(
-    stealthPubKey,
-    accountClassHash
-  );
-
-  return {
-    stealthAddress,
-    stealthPubKey,
-    ephemeralPubKey,
-    viewTag,
-  };
 }
 
 /**
  * Generate a stealth address using a specific ephemeral key (for testing)
  * @param metaAddress - The recipient's meta-address
  * @param ephemeralPrivateKey - The ephemeral private key to use
- * @param accountClassHash - The class hash of the stealth account contract
+ * @param accountClass - The class hash of the stealth account contract, or its account class
+ * @param options - Protocol version and view tag width
  * @returns The stealth address data
+ * @throws UnsupportedSchemeError if the meta-address uses an unregistered scheme
+ * @throws InvalidProtocolError if the version or view tag width is unsupported
+ * @throws AccountClassMismatchError if the account class is for another scheme
+ *   than the meta-address
  */
 export function generateStealthAddressWithKey(
   metaAddress: MetaAddress,
   ephemeralPrivateKey: bigint,
-  accountClassHash: string
+  accountClass: string | StealthAccountClass,
+  options: ProtocolOptions = {}
 ): GenerateStealthAddressResult {
+  // Reuse recovered points when given a precomputed context
+  const { scheme, spendingKey, viewingKey } = recipientPoints(metaAddress);
+  if (typeof accountClass !== "string" && accountClass.schemeId !== scheme.id) {
+    throw new AccountClassMismatchError(
+      `Account class "${accountClass.name}" holds ${getScheme(accountClass.schemeId).name} keys, ` +
+        `but the meta-address uses the ${scheme.name} scheme`,
+      accountClass.classHash
+    );
+  }
   const ephemeralPubKey = derivePublicKey(ephemeralPrivateKey);
-  const sharedSecret = ecdh(ephemeralPrivateKey, metaAddress.viewingPubKey);
-  const viewTag = computeViewTag(sharedSecret);
-  const stealthPubKey = computeStealthPublicKey(
-    metaAddress.spendingPubKey,
-    sharedSecret
-  );
+
+  // 2. Compute shared secret: s = r × K_view
+  const sharedSecret = scheme.ecdh(ephemeralPrivateKey, viewingKey);
+
+  // 3. Compute view tag for efficient scanning
+  const version = options.version ?? PROTOCOL_V1;
+  const { viewTag, protocol } = viewTagFor(sharedSecret, options);
+
+  // 4. Compute stealth public key: P = K_spend + tweak(s) × G
+  const stealthPubKey = scheme.computeStealthPublicKey(spendingKey, sharedSecret, version);
+
+  // 5. Compute stealth contract address
   const stealthAddress = computeStealthContractAddress(
     stealthPubKey,
-    accountClassHash
+    accountClass,
+    undefined,
+    scheme.id
   );
 
   return {
@@ -135,6 +215,10 @@ export function generateStealthAddressWithKey(
     stealthPubKey,
     ephemeralPubKey,
     viewTag,
+    sharedSecret,
+    ...(protocol !== undefined && { protocol }),
+    ...(scheme !== starkScheme && { schemeId: scheme.id }),
+    ...(metaAddress.network !== undefined && { network: metaAddress.network }),
   };
 }
 
@@ -142,139 +226,292 @@ export function generateStealthAddressWithKey(
  * Compute the contract address for a stealth account
  * Uses Starknet's standard contract address computation
  * @param publicKey - The stealth public key (constructor arg)
- * @param classHash - The class hash of the stealth account contract
- * @param salt - Optional salt (defaults to the public key)
+ * @param classHash - The class hash of the stealth account contract (the
+ *   scheme's default layout), or its account class
+ * @param salt - Optional salt (defaults to the class's salt: the public key for STARK)
+ * @param schemeId - The stealth scheme of a bare class hash (default: STARK)
  * @returns The contract address as a hex string
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
 export function computeStealthContractAddress(
   publicKey: bigint,
-  classHash: string,
-  salt?: bigint
+  classHash: string | StealthAccountClass,
+  salt?: bigint,
+  schemeId?: bigint
 ): string {
-  // Use the public key as salt if not provided (common pattern for accounts)
-  const actualSalt = salt ?? publicKey;
-
-  // Constructor calldata is just the public key
-  const constructorCalldata = [publicKey.toString()];
-
-  // Compute the contract address using Starknet's formula:
-  // address = pedersen(
-  //   "STARKNET_CONTRACT_ADDRESS",
-  //   deployer_address,
-  //   salt,
-  //   class_hash,
-  //   pedersen(constructor_calldata)
-  // )
-  const address = hash.calculateContractAddressFromHash(
-    actualSalt.toString(),
-    classHash,
-    constructorCalldata,
-    0 // deployer_address = 0 for counterfactual deployment
-  );
+  const accountClass =
+    typeof classHash === "string" ? schemeAccountClass(classHash, schemeId) : classHash;
+  return computeAccountAddress(accountClass, publicKey, salt);
+}
 
-  return address;
+/**
+ * Compute the view tag of a new announcement and, for v2, its protocol field
+ * @param sharedSecret - The sender–recipient shared secret
+ * @param options - Protocol version and view tag width
+ * @returns The on-chain (8-bit) view tag and the v2 protocol field
+ * @throws InvalidProtocolError if the version or view tag width is unsupported
+ */
+function viewTagFor(
+  sharedSecret: bigint,
+  options: ProtocolOptions
+): { viewTag: number; protocol?: AnnouncementProtocol } {
+  const version = options.version ?? PROTOCOL_V1;
+  if (version === PROTOCOL_V1) {
+    if (options.viewTagBits !== undefined && options.viewTagBits !== MIN_VIEW_TAG_BITS) {
+      throw new InvalidProtocolError(`Protocol v1 view tags are ${MIN_VIEW_TAG_BITS} bits wide`);
+    }
+    return { viewTag: computeViewTag(sharedSecret) };
+  }
+  if (version !== PROTOCOL_V2) {
+    throw new InvalidProtocolError(`Unsupported protocol version: ${version}`);
+  }
+
+  const viewTagBits = options.viewTagBits ?? MIN_VIEW_TAG_BITS;
+  if (!isViewTagWidth(viewTagBits)) {
+    throw new InvalidProtocolError(
+      `View tag width must be an integer in [${MIN_VIEW_TAG_BITS}, ${MAX_VIEW_TAG_BITS}]`
+    );
+  }
+  const fullViewTag = computeViewTagV2(sharedSecret, viewTagBits);
+  return {
+    // The registry stores a u8; the full tag travels in the metadata
+    viewTag: fullViewTag & 0xff,
+    protocol: { version, viewTagBits, viewTag: fullViewTag },
+  };
+}
+
+/**
+ * Check whether a view tag width is supported
+ */
+function isViewTagWidth(bits: number): boolean {
+  return Number.isInteger(bits) && bits >= MIN_VIEW_TAG_BITS && bits <= MAX_VIEW_TAG_BITS;
+}
+
+/**
+ * Read the protocol version and full view tag of an announcement
+ * Announcements without a PROTOCOL metadata field are v1, with the on-chain
+ * view tag as their full tag.
+ * @param announcement - The announcement
+ * @returns The announcement's protocol, or null if it declares an unsupported
+ *   version or a view tag that disagrees with the on-chain one
+ */
+export function announcementProtocol(
+  announcement: Announcement
+): AnnouncementProtocol | null {
+  const decoded =
+    announcement.decodedMetadata ?? tryDecodeMetadata(announcement.metadata);
+  const protocol = decoded?.protocol;
+  if (protocol === undefined) {
+    return {
+      version: PROTOCOL_V1,
+      viewTagBits: MIN_VIEW_TAG_BITS,
+      viewTag: announcement.viewTag,
+    };
+  }
+
+  if (
+    protocol.version !== PROTOCOL_V2 ||
+    !isViewTagWidth(protocol.viewTagBits) ||
+    !Number.isInteger(protocol.viewTag) ||
+    protocol.viewTag < 0 ||
+    protocol.viewTag >= 2 ** protocol.viewTagBits ||
+    (protocol.viewTag & 0xff) !== announcement.viewTag
+  ) {
+    return null;
+  }
+  return protocol;
+}
+
+/**
+ * Read the stealth scheme of an announcement
+ * Announcements without a SCHEME metadata field are STARK.
+ * @param announcement - The announcement
+ * @returns The announcement's scheme ID
+ */
+export function announcementScheme(announcement: Announcement): bigint {
+  const decoded =
+    announcement.decodedMetadata ?? tryDecodeMetadata(announcement.metadata);
+  return decoded?.schemeId ?? starkScheme.id;
+}
+
+/**
+ * Check a shared secret against an announcement's full view tag
+ * @param sharedSecret - The candidate shared secret
+ * @param protocol - The announcement's protocol (see announcementProtocol)
+ * @returns true if the view tag matches under the announcement's version
+ */
+export function viewTagMatches(
+  sharedSecret: bigint,
+  protocol: AnnouncementProtocol
+): boolean {
+  if (protocol.version === PROTOCOL_V1) {
+    return computeViewTag(sharedSecret) === protocol.viewTag;
+  }
+  return computeViewTagV2(sharedSecret, protocol.viewTagBits) === protocol.viewTag;
+}
+
+/**
+ * Check an announcement's view tag, returning its shared secret and version
+ */
+export function matchViewTag(
+  announcement: Announcement,
+  viewingPrivateKey: bigint,
+  scheme: StealthScheme
+): { sharedSecret: bigint; version: ProtocolVersion } | null {
+  return matchViewTags(announcement, [viewingPrivateKey], scheme)[0];
+}
+
+/**
+ * Check an announcement's view tag against many viewing keys of one scheme,
+ * recovering the ephemeral point once
+ * @returns For each viewing key, in order, its shared secret and the version, or null
+ */
+export function matchViewTags(
+  announcement: Announcement,
+  viewingPrivateKeys: bigint[],
+  scheme: StealthScheme
+): ({ sharedSecret: bigint; version: ProtocolVersion } | null)[] {
+  // Skip announcements that cannot belong to a real payment
+  const ephemeralPoint = ephemeralPointOf(announcement);
+  if (ephemeralPoint === null) {
+    return viewingPrivateKeys.map(() => null);
+  }
+  const protocol = announcementProtocol(announcement);
+  if (protocol === null || announcementScheme(announcement) !== scheme.id) {
+    return viewingPrivateKeys.map(() => null);
+  }
+  const version = protocol.version as ProtocolVersion;
+
+  // Compute shared secrets: s = k_view × R, then filter by view tag
+  return scheme
+    .ecdhMany(viewingPrivateKeys, ephemeralPoint)
+    .map((sharedSecret) =>
+      viewTagMatches(sharedSecret, protocol) ? { sharedSecret, version } : null
+    );
 }
 
 /**
  * Check if an announcement matches the recipient's viewing key
- * Uses the view tag for quick filtering
+ * Uses the view tag for quick filtering, under the announcement's protocol
+ * version (see announcementProtocol)
  * @param announcement - The announcement to check
  * @param viewingPrivateKey - The recipient's viewing private key
- * @returns The shared secret if it matches, null otherwise
+ * @param schemeId - The recipient's stealth scheme (default: STARK)
+ * @returns The shared secret if it matches, null otherwise (including for
+ *   an announcement that fails validation, such as an invalid ephemeral key,
+ *   or one of another scheme)
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
 export function checkAnnouncementViewTag(
   announcement: Announcement,
-  viewingPrivateKey: bigint
+  viewingPrivateKey: bigint,
+  schemeId?: bigint
 ): bigint | null {
-  // Compute shared secret: s = k_view × R
-  const sharedSecret = ecdh(viewingPrivateKey, announcement.ephemeralPubKey);
-
-  // Compute expected view tag
-  const expectedViewTag = computeViewTag(sharedSecret);
-
-  // Quick filter using view tag
-  if (expectedViewTag !== announcement.viewTag) {
-    return null;
-  }
-
-  return sharedSecret;
+  return matchViewTag(announcement, viewingPrivateKey, getScheme(schemeId))?.sharedSecret ?? null;
 }
 
 /**
  * Verify an announcement matches a recipient and compute the stealth private key
  * @param announcement - The announcement to verify
  * @param viewingPrivateKey - The recipient's viewing private key
- * @param spendingPublicKey - The recipient's spending public key
+ * @param spendingPublicKey - The recipient's spending public key (or its recovered point)
  * @param spendingPrivateKey - The recipient's spending private key
- * @param accountClassHash - The class hash of the stealth account contract
+ * @param accountClasses - The stealth account class hash, or the candidate account classes
+ * @param schemeId - The recipient's stealth scheme (default: STARK)
  * @returns StealthPayment if the announcement matches, null otherwise
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
 export function verifyAndComputeStealthKey(
   announcement: Announcement,
   viewingPrivateKey: bigint,
-  spendingPublicKey: bigint,
+  spendingPublicKey: bigint | CurvePoint,
   spendingPrivateKey: bigint,
-  accountClassHash: string
+  accountClasses: AccountClasses,
+  schemeId?: bigint
 ): StealthPayment | null {
+  const scheme = getScheme(schemeId);
+
   // First, check the view tag
-  const sharedSecret = checkAnnouncementViewTag(announcement, viewingPrivateKey);
-  if (sharedSecret === null) {
+  const match = matchViewTag(announcement, viewingPrivateKey, scheme);
+  if (match === null) {
     return null;
   }
+  const { sharedSecret, version } = match;
 
   // Compute expected stealth public key
-  const stealthPubKey = computeStealthPublicKey(spendingPublicKey, sharedSecret);
+  const stealthPubKey = scheme.computeStealthPublicKey(spendingPublicKey, sharedSecret, version);
 
-  // Compute expected stealth address
-  const expectedAddress = computeStealthContractAddress(
+  // Verify the address is that of one of the account classes
+  const accountClass = matchAccountClass(
+    resolveAccountClasses(accountClasses, scheme.id),
     stealthPubKey,
-    accountClassHash
+    announcement.stealthAddress
   );
-
-  // Verify the address matches
-  if (
-    normalizeAddress(expectedAddress) !==
-    normalizeAddress(announcement.stealthAddress)
-  ) {
+  if (accountClass === undefined) {
     return null;
   }
 
   // Compute the stealth private key
-  const stealthPrivateKey = computeStealthKey(spendingPrivateKey, sharedSecret);
+  const stealthPrivateKey = scheme.computeStealthPrivateKey(
+    spendingPrivateKey,
+    sharedSecret,
+    version
+  );
 
   return {
     announcement,
     sharedSecret,
     stealthPrivateKey,
     stealthPubKey,
+    ...readPaymentDetails(announcement, sharedSecret),
+    protocolVersion: version,
+    ...(scheme !== starkScheme && { schemeId: scheme.id }),
+    accountClassHash: accountClass.classHash,
   };
 }
 
 /**
  * Scan multiple announcements to find payments for a recipient
+ * Announcements that fail validation are skipped.
  * @param announcements - Array of announcements to scan
  * @param viewingPrivateKey - The recipient's viewing private key
- * @param spendingPublicKey - The recipient's spending public key
+ * @param spendingPublicKey - The recipient's spending public key (or its recovered point)
  * @param spendingPrivateKey - The recipient's spending private key
- * @param accountClassHash - The class hash of the stealth account contract
+ * @param accountClasses - The stealth account class hash, or the candidate account classes
+ * @param schemeId - The recipient's stealth scheme (default: STARK)
  * @returns Array of matched stealth payments
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
 export function scanAnnouncements(
   announcements: Announcement[],
   viewingPrivateKey: bigint,
-  spendingPublicKey: bigint,
+  spendingPublicKey: bigint | CurvePoint,
   spendingPrivateKey: bigint,
-  accountClassHash: string
+  accountClasses: AccountClasses,
+  schemeId?: bigint
 ): StealthPayment[] {
   const payments: StealthPayment[] = [];
+  const scheme = getScheme(schemeId);
+  const candidates = resolveAccountClasses(accountClasses, scheme.id);
+
+  // Recover the spending point once for the whole scan (STARK keys only)
+  let spendingPoint = spendingPublicKey;
+  if (typeof spendingPublicKey === "bigint") {
+    if (scheme === starkScheme) {
+      spendingPoint = recoverPoint(spendingPublicKey, "spending public key");
+    } else {
+      scheme.validateSpendingPublicKey(spendingPublicKey);
+    }
+  }
 
   for (const announcement of announcements) {
     const payment = verifyAndComputeStealthKey(
       announcement,
       viewingPrivateKey,
-      spendingPublicKey,
+      spendingPoint,
       spendingPrivateKey,
-      accountClassHash
+      candidates,
+      scheme.id
     );
 
     if (payment !== null) {
@@ -290,22 +527,35 @@ export function scanAnnouncements(
  * This is the key needed to sign transactions from the stealth address
  * @param spendingPrivateKey - The recipient's spending private key
  * @param sharedSecret - The shared secret from the payment
+ * @param version - The payment's protocol version (default: PROTOCOL_V1)
+ * @param schemeId - The payment's stealth scheme (default: STARK)
  * @returns The stealth private key
+ * @throws UnsupportedSchemeError if the scheme is not registered
  */
 export function computeStealthPrivateKey(
   spendingPrivateKey: bigint,
-  sharedSecret: bigint
+  sharedSecret: bigint,
+  version: ProtocolVersion = PROTOCOL_V1,
+  schemeId?: bigint
 ): bigint {
-  return computeStealthKey(spendingPrivateKey, sharedSecret);
+  return getScheme(schemeId).computeStealthPrivateKey(spendingPrivateKey, sharedSecret, version);
 }
 
 /**
- * Normalize a Starknet address to lowercase without leading zeros
- * @param address - The address to normalize
- * @returns The normalized address
+ * Pick the recipient's scheme and the recovered points of a context, or
+ * fall back to the raw keys
  */
-function normalizeAddress(address: string): string {
-  // Remove 0x prefix, convert to lowercase, remove leading zeros, add 0x back
-  const hex = address.toLowerCase().replace(/^0x0*/, "");
-  return "0x" + hex;
+function recipientPoints(metaAddress: MetaAddress): {
+  scheme: StealthScheme;
+  spendingKey: bigint | CurvePoint;
+  viewingKey: bigint | CurvePoint;
+} {
+  const scheme = getScheme(metaAddress.schemeId);
+  return isStealthContext(metaAddress)
+    ? {
+        scheme,
+        spendingKey: metaAddress.spendingPoint ?? metaAddress.spendingPubKey,
+        viewingKey: metaAddress.viewingPoint,
+      }
+    : { scheme, spendingKey: metaAddress.spendingPubKey, viewingKey: metaAddress.viewingPubKey };
 }
@@ -0,0 +1,141 @@
+/**
+ * Sweep planning for many stealth payments
+ *
+ * Groups scanned payments by stealth account, so every account is deployed
+ * at most once and all of its tokens are withdrawn in a single multicall.
+ * Amora.sweep executes the plan and reports a result for every payment.
+ */
+
+import type { StealthPayment } from "./stealth";
+import type { PaymentBalance } from "./balances";
+import type { TransactionOptions } from "./transactions";
+import type { PaymasterFeeMode } from "./paymaster";
+import { normalizeAddress } from "./validation";
+
+/**
+ * Options for sweeping payments
+ */
+export interface SweepOptions {
+  /** Tokens to sweep from every account (defaults to each payment's metadata token) */
+  tokens?: string[];
+  /** Maximum number of balance reads in flight at once */
+  concurrency?: number;
+  /** Called after each account has been processed */
+  onAccount?: (results: SweepPaymentResult[]) => void;
+  /** Fee token and fee limits of the deployments and withdrawals */
+  transactionOptions?: TransactionOptions;
+  /**
+   * How the paymaster is paid, when one is configured (default: its fee is
+   * taken in each account's first swept token)
+   */
+  feeMode?: PaymasterFeeMode;
+}
+
+/**
+ * A stealth account to sweep, with the payments it received
+ */
+export interface SweepGroup {
+  /** The stealth account address (normalized) */
+  stealthAddress: string;
+  /** The account's private key */
+  stealthPrivateKey: bigint;
+  /** The account's public key */
+  stealthPubKey: bigint;
+  /** The account's stealth scheme (absent for STARK) */
+  schemeId?: bigint;
+  /** Class hash of the account (default: the scheme's first account class) */
+  accountClassHash?: string;
+  /** Payments received by this account */
+  payments: StealthPayment[];
+  /** Non-zero balances to withdraw, one per token */
+  transfers: { token: string; amount: bigint }[];
+  /** Why a balance of the account could not be read, if one could not */
+  readError?: Error;
+}
+
+/**
+ * Outcome of sweeping one payment
+ * - swept: its account was emptied into the destination
+ * - empty: its account held no balance of the swept tokens
+ * - skipped: no token was given and its metadata has none
+ * - failed: its account's balances could not be read, its fees could not be
+ *   covered, or deploying or withdrawing from it failed
+ */
+export type SweepStatus = "swept" | "empty" | "skipped" | "failed";
+
+/**
+ * Result for one payment of a sweep
+ */
+export interface SweepPaymentResult {
+  payment: StealthPayment;
+  /** The payment's stealth account address (normalized) */
+  stealthAddress: string;
+  status: SweepStatus;
+  /** Tokens and amounts withdrawn from the payment's account (after fees) */
+  transfers: { token: string; amount: bigint }[];
+  /** Hash of the account deployment, if it had to be deployed */
+  deployTransactionHash?: string;
+  /** Hash of the withdrawal multicall */
+  transactionHash?: string;
+  /** The error, for failed payments */
+  error?: Error;
+}
+
+/**
+ * Result of a sweep
+ */
+export interface SweepResult {
+  /** One result per payment, in input order */
+  results: SweepPaymentResult[];
+  /** Total withdrawn per token address */
+  totals: Map<string, bigint>;
+}
+
+/**
+ * Group payment balances by stealth account
+ * @param payments - The payments being swept
+ * @param balances - Their balances (from fetchPaymentBalances)
+ * @returns One group per stealth account, in order of first payment
+ */
+export function planSweep(
+  payments: StealthPayment[],
+  balances: PaymentBalance[]
+): SweepGroup[] {
+  const groups = new Map<string, SweepGroup>();
+
+  for (const payment of payments) {
+    const stealthAddress = normalizeAddress(payment.announcement.stealthAddress);
+    const group = groups.get(stealthAddress);
+    if (group) {
+      group.payments.push(payment);
+    } else {
+      groups.set(stealthAddress, {
+        stealthAddress,
+        stealthPrivateKey: payment.stealthPrivateKey,
+        stealthPubKey: payment.stealthPubKey,
+        ...(payment.schemeId !== undefined && { schemeId: payment.schemeId }),
+        ...(payment.accountClassHash !== undefined && {
+          accountClassHash: payment.accountClassHash,
+        }),
+        payments: [payment],
+        transfers: [],
+      });
+    }
+  }
+
+  // Each (account, token) balance appears once per payment; withdraw it once
+  for (const { stealthAddress, token, balance, error } of balances) {
+    const group = groups.get(stealthAddress);
+    if (group !== undefined && error !== undefined) {
+      group.readError ??= error;
+    } else if (
+      group !== undefined &&
+      balance > 0n &&
+      !group.transfers.some((t) => t.token === token)
+    ) {
+      group.transfers.push({ token, amount: balance });
+    }
+  }
+
+  return [...groups.values()];
+}
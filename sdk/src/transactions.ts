@@ -0,0 +1,128 @@
+/**
+ * Transaction options for sending, deploying and withdrawing
+ *
+ * Starknet v3 transactions pay fees in STRK and are bounded by per-resource
+ * limits (L1 and L2 gas) plus an optional tip; v1 transactions pay in ETH
+ * and are bounded by a single max fee. These options pick the version and
+ * the limits explicitly, so a stealth account holding only STRK can deploy
+ * itself and withdraw.
+ */
+
+import type { UniversalDetails } from "starknet";
+import { InvalidTransactionOptionsError, OutOfRangeError } from "./errors";
+
+/** Transaction version of ETH-fee transactions */
+const V1 = "0x1";
+
+/** Transaction version of STRK-fee transactions */
+const V3 = "0x3";
+
+/**
+ * Limit on one resource of a v3 transaction
+ */
+export interface ResourceBound {
+  /** Maximum amount of the resource */
+  maxAmount: bigint;
+  /** Maximum price per unit, in FRI */
+  maxPricePerUnit: bigint;
+}
+
+/**
+ * Resource limits of a v3 transaction
+ */
+export interface ResourceBounds {
+  l1Gas: ResourceBound;
+  /** L2 gas limits (default: none) */
+  l2Gas?: ResourceBound;
+}
+
+/**
+ * Fee options for a transaction
+ */
+export interface TransactionOptions {
+  /**
+   * Token the fee is paid in: "STRK" sends a v3 transaction, "ETH" a v1 one
+   * (default: the account's own default, or v3 when v3 limits are given)
+   */
+  feeToken?: "ETH" | "STRK";
+  /** Resource limits of a v3 transaction (default: estimated) */
+  resourceBounds?: ResourceBounds;
+  /** Tip of a v3 transaction, per unit of L2 gas */
+  tip?: bigint;
+  /** Maximum fee of a v1 transaction (default: estimated) */
+  maxFee?: bigint;
+}
+
+/**
+ * Check whether transaction options set the fee token or any fee limit
+ * @param options - The transaction options
+ * @returns True if any fee setting is given
+ */
+export function hasFeeSettings(options: TransactionOptions): boolean {
+  const { feeToken, resourceBounds, tip, maxFee } = options;
+  return (
+    feeToken !== undefined ||
+    resourceBounds !== undefined ||
+    tip !== undefined ||
+    maxFee !== undefined
+  );
+}
+
+/**
+ * Convert transaction options to starknet.js transaction details
+ * @param options - The transaction options
+ * @returns The details to pass to execute or deployAccount
+ * @throws InvalidTransactionOptionsError if the options mix v1 and v3 fee settings
+ * @throws OutOfRangeError if a resource bound is negative
+ */
+export function toTransactionDetails(options: TransactionOptions = {}): UniversalDetails {
+  const { feeToken, resourceBounds, tip, maxFee } = options;
+  const hasV3Limits = resourceBounds !== undefined || tip !== undefined;
+
+  if (feeToken === "ETH" && hasV3Limits) {
+    throw new InvalidTransactionOptionsError(
+      "Resource bounds and tip require STRK fees (v3 transactions)"
+    );
+  }
+  if (maxFee !== undefined && (feeToken === "STRK" || hasV3Limits)) {
+    throw new InvalidTransactionOptionsError(
+      "maxFee only applies to ETH fees (v1 transactions); use resourceBounds"
+    );
+  }
+
+  const details: UniversalDetails = {};
+  if (feeToken === "STRK" || hasV3Limits) {
+    details.version = V3;
+  } else if (feeToken === "ETH" || maxFee !== undefined) {
+    details.version = V1;
+  }
+  if (resourceBounds !== undefined) {
+    details.resourceBounds = {
+      l1_gas: toRpcBound(resourceBounds.l1Gas),
+      l2_gas: toRpcBound(resourceBounds.l2Gas ?? { maxAmount: 0n, maxPricePerUnit: 0n }),
+    };
+  }
+  if (tip !== undefined) {
+    details.tip = tip;
+  }
+  if (maxFee !== undefined) {
+    details.maxFee = maxFee;
+  }
+  return details;
+}
+
+/**
+ * Convert a resource bound to its RPC form
+ */
+function toRpcBound(bound: ResourceBound): { max_amount: string; max_price_per_unit: string } {
+  if (bound.maxAmount < 0n || bound.maxPricePerUnit < 0n) {
+    throw new OutOfRangeError(
+      "Resource bounds must not be negative",
+      bound.maxAmount < 0n ? bound.maxAmount : bound.maxPricePerUnit
+    );
+  }
+  return {
+    max_amount: "0x" + bound.maxAmount.toString(16),
+    max_price_per_unit: "0x" + bound.maxPricePerUnit.toString(16),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Validation of cryptographic inputs
+ *
+ * Keys and announcements arrive as strings, RPC events and user input, and
+ * curve arithmetic on an invalid value either throws deep inside a scan or
+ * silently computes garbage. These checks run at the edges instead: the
+ * parsers validate what they decode, and the scanners skip announcements
+ * that fail validation (an invalid ephemeral key cannot belong to a real
+ * payment).
+ *
+ * - Public keys must be the x-coordinate of a point on the STARK curve
+ *   other than the identity (which reads as x = 0)
+ * - Private keys must be scalars in [1, CURVE_ORDER)
+ * - Felts must be in [0, FIELD_PRIME)
+ */
+
+import type { Announcement } from "./stealth";
+import {
+  CURVE_ORDER,
+  FIELD_PRIME,
+  recoverPoint,
+  type CurvePoint,
+} from "./crypto";
+import { AmoraError, OutOfRangeError } from "./errors";
+
+/** Largest view tag an announcement can carry */
+const MAX_VIEW_TAG = 0xff;
+
+/**
+ * Check that a private key is a valid STARK curve scalar
+ * @param privateKey - The private key
+ * @param name - The key's name for error messages
+ * @throws OutOfRangeError if the key is not in [1, CURVE_ORDER)
+ */
+export function validatePrivateKey(privateKey: bigint, name = "private key"): void {
+  if (privateKey <= 0n || privateKey >= CURVE_ORDER) {
+    throw new OutOfRangeError(
+      `Invalid ${name}: must be in [1, CURVE_ORDER)`,
+      privateKey
+    );
+  }
+}
+
+/**
+ * Check that a public key is the x-coordinate of a curve point
+ * @param publicKey - The public key (x-coordinate)
+ * @param name - The key's name for error messages
+ * @returns The recovered point (even y)
+ * @throws InvalidPointError if the key is 0 (the identity), outside the
+ *   field, or not on the curve
+ */
+export function validatePublicKey(publicKey: bigint, name = "public key"): CurvePoint {
+  return recoverPoint(publicKey, name);
+}
+
+/**
+ * Check that a value is a felt252
+ * @param value - The value
+ * @param name - The value's name for error messages
+ * @throws OutOfRangeError if the value is not in [0, FIELD_PRIME)
+ */
+export function validateFelt(value: bigint, name = "value"): void {
+  if (value < 0n || value >= FIELD_PRIME) {
+    throw new OutOfRangeError(`Invalid ${name}: out of felt252 range`, value);
+  }
+}
+
+/**
+ * Check that an announcement can be scanned
+ * @param announcement - The announcement
+ * @returns The recovered ephemeral public key point, for reuse in ECDH
+ * @throws InvalidPointError if the ephemeral key is not a valid point
+ * @throws OutOfRangeError if the view tag or a metadata felt is out of range
+ */
+export function validateAnnouncement(announcement: Announcement): CurvePoint {
+  const { viewTag, metadata } = announcement;
+  if (!Number.isInteger(viewTag) || viewTag < 0 || viewTag > MAX_VIEW_TAG) {
+    throw new OutOfRangeError(
+      `Invalid view tag: must be an integer in [0, ${MAX_VIEW_TAG}]`,
+      viewTag
+    );
+  }
+  metadata.forEach((felt, i) => validateFelt(felt, `metadata felt ${i}`));
+  return validatePublicKey(announcement.ephemeralPubKey, "ephemeral public key");
+}
+
+/**
+ * Recover the ephemeral public key point of an announcement, if it is valid
+ * Scanners use this to skip invalid announcements instead of throwing mid-scan.
+ * @param announcement - The announcement
+ * @returns The ephemeral public key point, or null if the announcement is invalid
+ */
+export function ephemeralPointOf(announcement: Announcement): CurvePoint | null {
+  try {
+    return validateAnnouncement(announcement);
+  } catch (e) {
+    if (e instanceof AmoraError) return null;
+    throw e;
+  }
+}
+
+/**
+ * Check whether a private key is a valid STARK curve scalar
+ * @param privateKey - The private key
+ * @returns true if the key is in [1, CURVE_ORDER)
+ */
+export function isValidPrivateKey(privateKey: bigint): boolean {
+  return privateKey > 0n && privateKey < CURVE_ORDER;
+}
+
+/**
+ * Check whether a public key is the x-coordinate of a curve point
+ * @param publicKey - The public key (x-coordinate)
+ * @returns true if the key is a valid point other than the identity
+ */
+export function isValidPublicKey(publicKey: bigint): boolean {
+  try {
+    validatePublicKey(publicKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a Starknet address to lowercase without leading zeros, for comparison
+ */
+export function normalizeAddress(address: string): string {
+  const hex = address.toLowerCase().replace(/^0x0*/, "");
+  return "0x" + hex;
+}
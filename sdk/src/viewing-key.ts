@@ -4,13 +4,24 @@
  * Exports the viewing private key + spending public key so a watch-only
  * client can detect incoming payments without being able to spend them.
  *
- * Format: vk:starknet:0x<viewing_private_key>:0x<spending_public_key>
+ * Format: vk:starknet:0x<viewing_private_key>:0x<spending_public_key>[:0x<scheme_id>]
+ * (the scheme ID is present only for schemes other than STARK)
  */
 
 import type { StealthKeys } from "./keys";
 import type { Announcement } from "./stealth";
-import { computeStealthContractAddress } from "./stealth";
-import { ecdh, computeViewTag, computeStealthPublicKey } from "./crypto";
+import type { AnnouncementMetadata } from "./metadata";
+import { matchViewTag } from "./stealth";
+import { readPaymentDetails } from "./encrypted-memo";
+import { recoverPoint, type CurvePoint, type ProtocolVersion } from "./crypto";
+import { AmoraError, InvalidViewingKeyError } from "./errors";
+import { validatePrivateKey } from "./validation";
+import { getScheme, starkScheme } from "./schemes";
+import {
+  matchAccountClass,
+  resolveAccountClasses,
+  type AccountClasses,
+} from "./account-classes";
 
 const VIEWING_KEY_PREFIX = "vk";
 const VIEWING_KEY_CHAIN = "starknet";
@@ -25,6 +36,8 @@ export interface ExportedViewingKey {
   viewingPrivateKey: bigint;
   /** The spending public key (enables address verification, but not spending) */
   spendingPubKey: bigint;
+  /** Stealth scheme of the spending key (absent for STARK) */
+  schemeId?: bigint;
 }
 
 /**
@@ -37,18 +50,32 @@ export interface ViewingKeyMatch {
   sharedSecret: bigint;
   /** The stealth public key for this payment */
   stealthPubKey: bigint;
+  /** Decoded announcement metadata (token, amount, memo, ...) */
+  metadata?: AnnouncementMetadata;
+  /** The payment memo, decrypted if it was encrypted to the recipient */
+  memo?: string;
+  /** Stealth protocol version of the announcement */
+  protocolVersion: ProtocolVersion;
+  /** Stealth scheme of the payment (absent for STARK) */
+  schemeId?: bigint;
+  /** Class hash of the stealth account the address was derived with */
+  accountClassHash: string;
 }
 
 /**
  * Export a viewing key from stealth keys
  *
  * @param keys - The full stealth keys
- * @returns The viewing key string in format "vk:starknet:0x<viewing_priv>:0x<spending_pub>"
+ * @returns The viewing key string in format "vk:starknet:0x<viewing_priv>:0x<spending_pub>",
+ *   followed by ":0x<scheme_id>" for schemes other than STARK
  */
 export function exportViewingKey(keys: StealthKeys): string {
   const viewingHex = "0x" + keys.viewingKey.privateKey.toString(16);
   const spendingHex = "0x" + keys.spendingKey.publicKey.toString(16);
-  return `${VIEWING_KEY_PREFIX}:${VIEWING_KEY_CHAIN}:${viewingHex}:${spendingHex}`;
+  const encoded = `${VIEWING_KEY_PREFIX}:${VIEWING_KEY_CHAIN}:${viewingHex}:${spendingHex}`;
+  return keys.schemeId === undefined
+    ? encoded
+    : `${encoded}:0x${keys.schemeId.toString(16)}`;
 }
 
 /**
@@ -56,49 +83,67 @@ export function exportViewingKey(keys: StealthKeys): string {
  *
  * @param viewingKeyStr - The viewing key string
  * @returns The parsed viewing key
- * @throws If the format is invalid
+ * @throws InvalidViewingKeyError if the format is invalid or the scheme is
+ *   not registered
  */
 export function importViewingKey(viewingKeyStr: string): ExportedViewingKey {
   const parts = viewingKeyStr.split(":");
 
-  if (parts.length !== 4) {
-    throw new Error(
-      `Invalid viewing key format: expected 4 parts, got ${parts.length}`
+  if (parts.length !== 4 && parts.length !== 5) {
+    throw new InvalidViewingKeyError(
+      `Invalid viewing key format: expected 4 parts (5 with a scheme ID), got ${parts.length}`
     );
   }
 
-  const [prefix, chain, viewingStr, spendingStr] = parts;
+  const [prefix, chain, viewingStr, spendingStr, schemeStr] = parts;
 
   if (prefix !== VIEWING_KEY_PREFIX) {
-    throw new Error(
+    throw new InvalidViewingKeyError(
       `Invalid viewing key prefix: expected "${VIEWING_KEY_PREFIX}", got "${prefix}"`
     );
   }
 
   if (chain !== VIEWING_KEY_CHAIN) {
-    throw new Error(
+    throw new InvalidViewingKeyError(
       `Invalid viewing key chain: expected "${VIEWING_KEY_CHAIN}", got "${chain}"`
     );
   }
 
-  const viewingPrivateKey = BigInt(viewingStr);
-  const spendingPubKey = BigInt(spendingStr);
+  const viewingPrivateKey = parseKey(viewingStr, "viewing private key");
+  const spendingPubKey = parseKey(spendingStr, "spending public key");
+  const schemeId =
+    schemeStr === undefined ? undefined : parseKey(schemeStr, "scheme ID");
 
-  if (viewingPrivateKey <= 0n) {
-    throw new Error("Invalid viewing key: viewing private key must be positive");
-  }
-
-  if (spendingPubKey <= 0n) {
-    throw new Error("Invalid viewing key: spending public key must be positive");
+  try {
+    validatePrivateKey(viewingPrivateKey, "viewing private key");
+    getScheme(schemeId).validateSpendingPublicKey(spendingPubKey, "spending public key");
+  } catch (e) {
+    if (!(e instanceof AmoraError)) throw e;
+    throw new InvalidViewingKeyError(`Invalid viewing key: ${e.message}`, { cause: e });
   }
 
   return {
     chain,
     viewingPrivateKey,
     spendingPubKey,
+    ...(schemeId !== undefined && schemeId !== starkScheme.id && { schemeId }),
   };
 }
 
+/**
+ * Parse a hex key field of a viewing key
+ */
+function parseKey(value: string, fieldName: string): bigint {
+  try {
+    return BigInt(value);
+  } catch (e) {
+    throw new InvalidViewingKeyError(
+      `Invalid viewing key: cannot parse ${fieldName} "${value}"`,
+      { cause: e }
+    );
+  }
+}
+
 /**
  * Check if a string is a valid viewing key
  *
@@ -119,46 +164,44 @@ export function isValidViewingKey(viewingKeyStr: string): boolean {
  *
  * Uses the same ECDH + view tag + stealth address verification as full scanning,
  * but omits stealth private key derivation since the spending private key is not available.
+ * Announcements that fail validation, or of another scheme than the viewing
+ * key's, are skipped.
  *
  * @param announcements - Array of announcements to scan
  * @param viewingKey - The exported viewing key
- * @param accountClassHash - The class hash of the stealth account contract
+ * @param accountClasses - The stealth account class hash, or the candidate account classes
  * @returns Array of matched announcements with shared secrets
+ * @throws UnsupportedSchemeError if the viewing key's scheme is not registered
  */
 export function scanWithViewingKey(
   announcements: Announcement[],
   viewingKey: ExportedViewingKey,
-  accountClassHash: string
+  accountClasses: AccountClasses
 ): ViewingKeyMatch[] {
   const matches: ViewingKeyMatch[] = [];
+  const scheme = getScheme(viewingKey.schemeId);
+  const candidates = resolveAccountClasses(accountClasses, scheme.id);
 
-  for (const announcement of announcements) {
-    // 1. Compute shared secret: s = k_view × R
-    const sharedSecret = ecdh(viewingKey.viewingPrivateKey, announcement.ephemeralPubKey);
+  // Recover the spending point once for the whole scan (STARK keys only)
+  const spendingKey: bigint | CurvePoint =
+    scheme === starkScheme
+      ? recoverPoint(viewingKey.spendingPubKey, "spending public key")
+      : viewingKey.spendingPubKey;
 
-    // 2. Check view tag
-    const expectedViewTag = computeViewTag(sharedSecret);
-    if (expectedViewTag !== announcement.viewTag) {
+  for (const announcement of announcements) {
+    // 1. Compute shared secret s = k_view × R and check the view tag
+    const tagMatch = matchViewTag(announcement, viewingKey.viewingPrivateKey, scheme);
+    if (tagMatch === null) {
       continue;
     }
+    const { sharedSecret, version } = tagMatch;
 
-    // 3. Compute expected stealth public key: P = K_spend + hash(s) × G
-    const stealthPubKey = computeStealthPublicKey(
-      viewingKey.spendingPubKey,
-      sharedSecret
-    );
-
-    // 4. Compute expected stealth address
-    const expectedAddress = computeStealthContractAddress(
-      stealthPubKey,
-      accountClassHash
-    );
-
-    // 5. Verify address matches (normalize for comparison)
-    const normalizedExpected = normalizeAddress(expectedAddress);
-    const normalizedActual = normalizeAddress(announcement.stealthAddress);
+    // 2. Compute expected stealth public key: P = K_spend + tweak(s) × G
+    const stealthPubKey = scheme.computeStealthPublicKey(spendingKey, sharedSecret, version);
 
-    if (normalizedExpected !== normalizedActual) {
+    // 3. Verify the address is that of one of the account classes
+    const accountClass = matchAccountClass(candidates, stealthPubKey, announcement.stealthAddress);
+    if (accountClass === undefined) {
       continue;
     }
 
@@ -166,16 +209,12 @@ export function scanWithViewingKey(
       announcement,
       sharedSecret,
       stealthPubKey,
+      ...readPaymentDetails(announcement, sharedSecret),
+      protocolVersion: version,
+      ...(scheme !== starkScheme && { schemeId: scheme.id }),
+      accountClassHash: accountClass.classHash,
     });
   }
 
   return matches;
 }
-
-/**
- * Normalize a Starknet address for comparison
- */
-function normalizeAddress(address: string): string {
-  const hex = address.toLowerCase().replace(/^0x0*/, "");
-  return "0x" + hex;
-}
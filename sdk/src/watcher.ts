@@ -0,0 +1,335 @@
+/**
+ * Live payment watching
+ *
+ * Keeps fetching and scanning announcements as new blocks land and emits
+ * each match once. Polls the provider by default, or follows an event
+ * subscription (e.g. a websocket channel) when one is available. Failures
+ * are reported through onError and retried with exponential backoff.
+ */
+
+import type { Amora } from "./contracts";
+import type { Announcement } from "./stealth";
+import {
+  parseAnnouncementEvent,
+  type AnnouncementEvent,
+  type FetchAnnouncementsOptions,
+} from "./announcements";
+import { announcementId } from "./scanner";
+
+/** Default delay between polls, in milliseconds */
+export const DEFAULT_POLL_INTERVAL = 10_000;
+
+/** Default upper bound for the retry backoff, in milliseconds */
+export const DEFAULT_MAX_BACKOFF = 60_000;
+
+/**
+ * Handlers passed to an event subscription
+ */
+export interface EventSubscriptionHandlers {
+  /** Called for every registry event, in chain order */
+  onEvent: (event: AnnouncementEvent) => void;
+  /** Called when the subscription fails; it is considered closed afterwards */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * A push-based source of registry events, such as a websocket channel
+ */
+export interface EventSubscriptionSource {
+  /**
+   * Subscribe to events emitted by `address` from `fromBlock` onwards
+   * @returns A function that cancels the subscription
+   */
+  subscribeEvents(
+    filter: { address: string; fromBlock: number },
+    handlers: EventSubscriptionHandlers
+  ): Promise<() => void>;
+}
+
+/**
+ * Options for watching payments
+ */
+export interface WatchOptions<T> {
+  /** First block to watch (defaults to the block after the current one) */
+  fromBlock?: number;
+  /** Called once for every matched payment */
+  onPayment: (payment: T) => void;
+  /** Called on fetch or subscription failures before retrying, and when onPayment throws */
+  onError?: (error: unknown) => void;
+  /** "auto" uses a subscription when one is available (default), else polls */
+  transport?: "auto" | "poll" | "subscription";
+  /** Event subscription source (overrides the provider's own) */
+  subscription?: EventSubscriptionSource;
+  /** Delay between polls in milliseconds (default 10000) */
+  pollInterval?: number;
+  /** Maximum retry backoff in milliseconds (default 60000) */
+  maxBackoff?: number;
+  /** Options forwarded to fetchAnnouncements */
+  fetchOptions?: Omit<FetchAnnouncementsOptions, "signal">;
+}
+
+/**
+ * Check whether an object exposes an event subscription
+ * @param source - The object to check (typically the provider)
+ * @returns true if it implements EventSubscriptionSource
+ */
+export function isEventSubscriptionSource(
+  source: unknown
+): source is EventSubscriptionSource {
+  return (
+    typeof source === "object" &&
+    source !== null &&
+    typeof (source as EventSubscriptionSource).subscribeEvents === "function"
+  );
+}
+
+/**
+ * A running payment watcher
+ */
+export class AmoraWatcher<T> {
+  private readonly controller = new AbortController();
+  private readonly seen = new Map<string, number>();
+  /** Registry events pushed per transaction, to number them like fetchAnnouncements */
+  private readonly pushedEvents = new Map<string, { block: number; events: string[] }>();
+  private readonly pollInterval: number;
+  private readonly maxBackoff: number;
+  private unsubscribe: (() => void) | null = null;
+  private cursor: number | null;
+  private failures = 0;
+
+  constructor(
+    private readonly amora: Amora,
+    private readonly match: (announcements: Announcement[]) => T[],
+    private readonly options: WatchOptions<T>,
+    private readonly subscription: EventSubscriptionSource | null
+  ) {
+    this.cursor = options.fromBlock ?? null;
+    this.pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.maxBackoff = options.maxBackoff ?? DEFAULT_MAX_BACKOFF;
+
+    if (options.transport === "subscription" && subscription === null) {
+      throw new Error(
+        "Subscription transport requested but no event subscription is available"
+      );
+    }
+
+    const useSubscription =
+      options.transport !== "poll" && subscription !== null;
+    void (useSubscription ? this.runSubscription() : this.runPolling());
+  }
+
+  /**
+   * Whether the watcher is still running
+   */
+  get isRunning(): boolean {
+    return !this.controller.signal.aborted;
+  }
+
+  /**
+   * The next block the watcher will fetch (all earlier blocks are processed)
+   */
+  get nextBlock(): number | null {
+    return this.cursor;
+  }
+
+  /**
+   * Stop watching and release the subscription, if any
+   */
+  stop(): void {
+    if (!this.isRunning) return;
+    this.controller.abort();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private async runPolling(): Promise<void> {
+    while (this.isRunning) {
+      try {
+        await this.catchUp();
+        this.failures = 0;
+        await this.sleep(this.pollInterval);
+      } catch (e) {
+        await this.handleFailure(e);
+      }
+    }
+  }
+
+  private async runSubscription(): Promise<void> {
+    while (this.isRunning) {
+      try {
+        await this.catchUp();
+        const closed = await this.subscribe();
+        this.failures = 0;
+        // Stays here until the subscription fails or the watcher stops
+        await this.handleFailure(await closed);
+      } catch (e) {
+        await this.handleFailure(e);
+      }
+    }
+  }
+
+  /**
+   * Fetch and process everything from the cursor up to the latest block
+   */
+  private async catchUp(): Promise<void> {
+    const latest = await this.amora.getBlockNumber();
+    if (this.cursor === null) {
+      this.cursor = latest + 1;
+    }
+    if (this.cursor > latest || !this.isRunning) return;
+
+    const announcements = await this.amora.fetchAnnouncements(
+      this.cursor,
+      latest,
+      { ...this.options.fetchOptions, signal: this.controller.signal }
+    );
+    this.process(announcements);
+    this.advance(latest + 1);
+  }
+
+  /**
+   * Open the subscription from the cursor
+   * @returns A promise that resolves with the error that closed it
+   */
+  private async subscribe(): Promise<Promise<unknown>> {
+    const signal = this.controller.signal;
+    let fail!: (error: unknown) => void;
+    const closed = new Promise<unknown>((resolve) => {
+      fail = resolve;
+    });
+    // Resolve when stopped so the run loop can exit
+    const onAbort = () => fail(undefined);
+    let failed = false;
+
+    const unsubscribe = await this.subscription!.subscribeEvents(
+      {
+        address: this.amora.registryAddress,
+        fromBlock: this.cursor!,
+      },
+      {
+        onEvent: (event) => {
+          if (!this.isRunning) return;
+          try {
+            const eventIndex = this.pushedEventIndex(event);
+            const announcement = parseAnnouncementEvent(event);
+            if (announcement === null) return;
+            announcement.eventIndex = eventIndex;
+            this.process([announcement]);
+            // The event's block may still have more events coming
+            if (announcement.blockNumber !== undefined) {
+              this.advance(announcement.blockNumber);
+            }
+          } catch (e) {
+            this.options.onError?.(e);
+          }
+        },
+        onError: (error) => {
+          failed = true;
+          this.unsubscribe = null;
+          signal.removeEventListener("abort", onAbort);
+          fail(error);
+        },
+      }
+    );
+
+    if (!this.isRunning) {
+      // Stopped while subscribing, so stop() had nothing to release
+      unsubscribe();
+      return Promise.resolve(undefined);
+    }
+    if (!failed) {
+      this.unsubscribe = unsubscribe;
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+    return closed;
+  }
+
+  /**
+   * Index of a pushed event among the registry events of its transaction
+   *
+   * Events arrive one at a time, so they are numbered in arrival order. A
+   * redelivered event keeps its first index, so it is still deduplicated.
+   */
+  private pushedEventIndex(event: AnnouncementEvent): number {
+    const txKey = event.transaction_hash ?? "";
+    let pushed = this.pushedEvents.get(txKey);
+    if (pushed === undefined) {
+      pushed = { block: event.block_number ?? 0, events: [] };
+      this.pushedEvents.set(txKey, pushed);
+    }
+    const key = event.data.join(",");
+    const index = pushed.events.indexOf(key);
+    if (index !== -1) return index;
+    pushed.events.push(key);
+    return pushed.events.length - 1;
+  }
+
+  /**
+   * Match announcements and emit every payment not emitted before
+   *
+   * Announcements are marked seen before their payments are emitted, so a
+   * failing onPayment is reported through onError and the remaining
+   * payments are still emitted.
+   */
+  private process(announcements: Announcement[]): void {
+    const fresh = announcements.filter((a) => {
+      const id = announcementId(a);
+      if (this.seen.has(id)) return false;
+      this.seen.set(id, a.blockNumber ?? 0);
+      return true;
+    });
+
+    for (const payment of this.match(fresh)) {
+      if (!this.isRunning) return;
+      try {
+        this.options.onPayment(payment);
+      } catch (e) {
+        this.options.onError?.(e);
+      }
+    }
+  }
+
+  /**
+   * Move the cursor forward and forget announcements below it
+   */
+  private advance(block: number): void {
+    if (this.cursor !== null && block <= this.cursor) return;
+    this.cursor = block;
+    for (const [id, seenBlock] of this.seen) {
+      if (seenBlock < block) this.seen.delete(id);
+    }
+    for (const [txKey, pushed] of this.pushedEvents) {
+      if (pushed.block < block) this.pushedEvents.delete(txKey);
+    }
+  }
+
+  /**
+   * Report a failure and wait out the backoff
+   */
+  private async handleFailure(error: unknown): Promise<void> {
+    if (!this.isRunning) return;
+    this.options.onError?.(error);
+    const delay = Math.min(
+      this.pollInterval * 2 ** this.failures,
+      this.maxBackoff
+    );
+    this.failures++;
+    await this.sleep(delay);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    const signal = this.controller.signal;
+    return new Promise((resolve) => {
+      if (signal.aborted) return resolve();
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
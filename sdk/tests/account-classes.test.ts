@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Account } from "starknet";
+import {
+  defineAccountClass,
+  schemeAccountClass,
+  argentAccountClass,
+  computeAccountAddress,
+  resolveAccountClasses,
+  matchAccountClass,
+} from "../src/account-classes";
+import {
+  generateStealthAddress,
+  computeStealthContractAddress,
+  scanAnnouncements,
+  type Announcement,
+  type GenerateStealthAddressResult,
+} from "../src/stealth";
+import { generateKeys } from "../src/keys";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import { exportViewingKey, importViewingKey, scanWithViewingKey } from "../src/viewing-key";
+import { scanAnnouncementsForRecipients } from "../src/multi-scan";
+import { planSweep } from "../src/sweep";
+import { SCHEME_ID_SECP256K1, starkScheme } from "../src/schemes";
+import { Amora } from "../src/contracts";
+import { AccountClassMismatchError, AccountClassNotFoundError } from "../src/errors";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const ARGENT_CLASS_HASH =
+  "0x036078334509b514626504edc9fb252328d1a240e4e948bef8d0c08dff45927f";
+
+const argent = argentAccountClass(ARGENT_CLASS_HASH);
+
+/**
+ * Build the announcement a sender would publish for a stealth result
+ */
+const announce = (stealth: GenerateStealthAddressResult): Announcement => ({
+  stealthAddress: stealth.stealthAddress,
+  ephemeralPubKey: stealth.ephemeralPubKey,
+  viewTag: stealth.viewTag,
+  metadata: [],
+});
+
+describe("account classes", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("descriptors", () => {
+    it("should default to the scheme's salt and a payload of the class's fields", () => {
+      const accountClass = defineAccountClass({
+        name: "custom",
+        classHash: TEST_CLASS_HASH,
+        constructorCalldata: (stealthPubKey) => [stealthPubKey, 0n],
+      });
+
+      expect(accountClass.schemeId).toBe(starkScheme.id);
+      expect(accountClass.outsideExecution).toBe(false);
+      expect(accountClass.addressSalt(7n)).toBe(7n);
+      expect(accountClass.deployPayload(7n)).toEqual({
+        classHash: TEST_CLASS_HASH,
+        constructorCalldata: ["7", "0"],
+        addressSalt: "7",
+      });
+    });
+
+    it("should match the built-in address for the scheme's default layout", () => {
+      const stark = schemeAccountClass(TEST_CLASS_HASH);
+
+      expect(stark.name).toBe("stark");
+      expect(computeAccountAddress(stark, 5n)).toBe(
+        computeStealthContractAddress(5n, TEST_CLASS_HASH)
+      );
+      expect(computeStealthContractAddress(5n, argent)).not.toBe(
+        computeStealthContractAddress(5n, TEST_CLASS_HASH)
+      );
+    });
+
+    it("should build Argent calldata without a guardian", () => {
+      expect(argent.constructorCalldata(5n)).toEqual([0n, 5n, 1n]);
+      expect(argent.addressSalt(5n)).toBe(5n);
+      expect(argent.outsideExecution).toBe(true);
+    });
+
+    it("should resolve account classes to those of one scheme", () => {
+      const stark = schemeAccountClass(TEST_CLASS_HASH);
+      const eth = schemeAccountClass(TEST_CLASS_HASH, SCHEME_ID_SECP256K1);
+
+      expect(resolveAccountClasses([stark, eth, argent])).toEqual([stark, argent]);
+      expect(resolveAccountClasses([stark, eth], SCHEME_ID_SECP256K1)).toEqual([eth]);
+      expect(resolveAccountClasses(argent, SCHEME_ID_SECP256K1)).toEqual([]);
+      expect(resolveAccountClasses(TEST_CLASS_HASH)[0].classHash).toBe(TEST_CLASS_HASH);
+    });
+  });
+
+  describe("scanning", () => {
+    const keys = generateKeys();
+    const meta = parseMetaAddress(encodeMetaAddress(keys));
+    const classes = [schemeAccountClass(TEST_CLASS_HASH), argent];
+
+    it("should match any candidate class and record the one that matched", () => {
+      const stealth = generateStealthAddress(meta, argent);
+      const announcements = [
+        announce(generateStealthAddress(meta, TEST_CLASS_HASH)),
+        announce(stealth),
+      ];
+
+      const payments = scanAnnouncements(
+        announcements,
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        classes
+      );
+      const viewingKeyMatches = scanWithViewingKey(
+        announcements,
+        importViewingKey(exportViewingKey(keys)),
+        classes
+      );
+      const recipientMatches = scanAnnouncementsForRecipients(
+        announcements,
+        [{ id: "alice", keys }],
+        classes
+      );
+
+      for (const matches of [payments, viewingKeyMatches, recipientMatches]) {
+        expect(matches.map((m) => m.accountClassHash)).toEqual([
+          TEST_CLASS_HASH,
+          ARGENT_CLASS_HASH,
+        ]);
+      }
+      expect(
+        matchAccountClass(classes, payments[1].stealthPubKey, stealth.stealthAddress)
+      ).toBe(argent);
+      expect(
+        scanAnnouncements(
+          announcements,
+          keys.viewingKey.privateKey,
+          keys.spendingKey.publicKey,
+          keys.spendingKey.privateKey,
+          TEST_CLASS_HASH
+        )
+      ).toHaveLength(1);
+    });
+
+    it("should reject an account class of another scheme", () => {
+      const eth = schemeAccountClass(TEST_CLASS_HASH, SCHEME_ID_SECP256K1);
+
+      expect(() => generateStealthAddress(meta, eth)).toThrow(
+        'Account class "secp256k1" holds secp256k1 keys, but the meta-address uses the stark scheme'
+      );
+      expect(() => generateStealthAddress(meta, eth)).toThrow(AccountClassMismatchError);
+    });
+  });
+
+  describe("Amora", () => {
+    /**
+     * Amora over a provider where no account is deployed
+     */
+    const fakeAmora = (config: { accountClassHash?: string }) =>
+      new Amora({
+        provider: {
+          getClassHashAt: async () => {
+            throw new Error("Contract not found");
+          },
+        } as never,
+        amoraAddress: "0x1",
+        accountClasses: [argent],
+        ...config,
+      });
+
+    it("should generate with the first class and fall back to configured classes", () => {
+      const amora = fakeAmora({ accountClassHash: TEST_CLASS_HASH });
+      const argentOnly = fakeAmora({});
+
+      expect(amora.accountClassesFor().map((c) => c.name)).toEqual(["stark", "argent"]);
+      expect(amora.stealthAccountClassHash).toBe(TEST_CLASS_HASH);
+      expect(argentOnly.accountClassHashFor()).toBe(ARGENT_CLASS_HASH);
+      expect(() => argentOnly.accountClassesFor(SCHEME_ID_SECP256K1)).toThrow(
+        "set accountClassHashes.secp256k1 or accountClasses in the Amora config"
+      );
+      expect(() => argentOnly.accountClassesFor(SCHEME_ID_SECP256K1)).toThrow(
+        AccountClassNotFoundError
+      );
+    });
+
+    it("should deploy the class a payment was found with", async () => {
+      const amora = fakeAmora({ accountClassHash: TEST_CLASS_HASH });
+      const keys = generateKeys();
+      const stealth = generateStealthAddress(
+        parseMetaAddress(encodeMetaAddress(keys)),
+        argent
+      );
+      const [payment] = scanAnnouncements(
+        [announce(stealth)],
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        amora.accountClassesFor()
+      );
+      const deploy = vi
+        .spyOn(Account.prototype, "deployAccount")
+        .mockResolvedValue({ transaction_hash: "0xd", contract_address: "0x0" });
+
+      await amora.deployStealthAccount(payment.stealthPrivateKey, undefined, {
+        accountClassHash: payment.accountClassHash,
+      });
+
+      expect(planSweep([payment], [])[0].accountClassHash).toBe(ARGENT_CLASS_HASH);
+      expect(deploy.mock.contexts[0]).toMatchObject({ address: stealth.stealthAddress });
+      expect(deploy.mock.calls[0][0]).toMatchObject({
+        classHash: ARGENT_CLASS_HASH,
+        constructorCalldata: ["0", stealth.stealthPubKey.toString(), "1"],
+      });
+      await expect(
+        amora.deployStealthAccount(payment.stealthPrivateKey, undefined, {
+          accountClassHash: "0x99",
+        })
+      ).rejects.toThrow("No stark stealth account class with class hash 0x99 is configured");
+      await expect(
+        amora.deployStealthAccount(payment.stealthPrivateKey, undefined, {
+          accountClassHash: "0x99",
+        })
+      ).rejects.toMatchObject({ code: "ACCOUNT_CLASS_NOT_FOUND", classHash: "0x99" });
+    });
+
+    it("should reject a deploy payload that deploys another address", async () => {
+      const misdeployed = defineAccountClass({
+        name: "misdeployed",
+        classHash: TEST_CLASS_HASH,
+        constructorCalldata: (stealthPubKey) => [stealthPubKey],
+        deployPayload: (stealthPubKey) => ({
+          classHash: TEST_CLASS_HASH,
+          constructorCalldata: [stealthPubKey.toString()],
+          addressSalt: "0",
+        }),
+      });
+      const amora = new Amora({
+        provider: {} as never,
+        amoraAddress: "0x1",
+        accountClasses: [misdeployed],
+      });
+      const deploy = vi.spyOn(Account.prototype, "deployAccount");
+
+      await expect(amora.deployStealthAccount(5n)).rejects.toThrow(AccountClassMismatchError);
+      expect(deploy).not.toHaveBeenCalled();
+    });
+  });
+});
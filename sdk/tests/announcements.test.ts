@@ -0,0 +1,239 @@
+import { describe, it, expect } from "vitest";
+import type { RpcProvider } from "starknet";
+import {
+  fetchAnnouncementEvents,
+  parseAnnouncementEvent,
+  splitBlockRange,
+  type AnnouncementEvent,
+  type FetchAnnouncementsProgress,
+} from "../src/announcements";
+import { encodeMetadata } from "../src/metadata";
+import { MalformedAnnouncementError } from "../src/errors";
+
+const REGISTRY = "0x0388dfa21daf46e8d230f02df0bee78e42f93b33920db171d0f96d9d30f7a7b2";
+
+function makeEvent(blockNumber: number, index: number): AnnouncementEvent {
+  return {
+    data: ["0x" + (blockNumber * 1000 + index + 1).toString(16), "0x1", "0x4", "0x7", "0x0"],
+    block_number: blockNumber,
+    transaction_hash: `0x${blockNumber.toString(16)}${index}`,
+  };
+}
+
+interface EventFilterArg {
+  from_block: { block_number: number };
+  to_block: { block_number: number };
+  chunk_size: number;
+  continuation_token?: string;
+}
+
+/**
+ * Mock provider serving `eventsPerBlock` events per block, paged by chunk_size
+ * with numeric continuation tokens
+ */
+function mockProvider(latestBlock: number, eventsPerBlock: number) {
+  const calls: EventFilterArg[] = [];
+  const provider = {
+    getBlockNumber: async () => latestBlock,
+    getEvents: async (filter: EventFilterArg) => {
+      calls.push(filter);
+      const all: AnnouncementEvent[] = [];
+      for (let b = filter.from_block.block_number; b <= filter.to_block.block_number; b++) {
+        for (let i = 0; i < eventsPerBlock; i++) {
+          all.push(makeEvent(b, i));
+        }
+      }
+      const offset = Number(filter.continuation_token ?? "0");
+      const events = all.slice(offset, offset + filter.chunk_size);
+      const nextOffset = offset + events.length;
+      return {
+        events,
+        continuation_token: nextOffset < all.length ? String(nextOffset) : undefined,
+      };
+    },
+  };
+  return { provider: provider as unknown as RpcProvider, calls };
+}
+
+describe("announcements", () => {
+  describe("splitBlockRange", () => {
+    it("should split a range into inclusive sub-ranges", () => {
+      expect(splitBlockRange(0, 24, 10)).toEqual([
+        { fromBlock: 0, toBlock: 9 },
+        { fromBlock: 10, toBlock: 19 },
+        { fromBlock: 20, toBlock: 24 },
+      ]);
+    });
+
+    it("should return an empty list when fromBlock > toBlock", () => {
+      expect(splitBlockRange(10, 5, 10)).toEqual([]);
+    });
+
+    it("should reject a non-positive range size", () => {
+      expect(() => splitBlockRange(0, 10, 0)).toThrow("Invalid block range size");
+    });
+  });
+
+  describe("parseAnnouncementEvent", () => {
+    it("should parse the fixed fields and metadata", () => {
+      const announcement = parseAnnouncementEvent({
+        data: ["0xabc", "0x1", "0x4", "0x2a", "0x2", "0x10", "0x20"],
+        block_number: 7,
+        transaction_hash: "0xdead",
+      });
+
+      expect(announcement).toEqual({
+        stealthAddress: "0xabc",
+        ephemeralPubKey: 4n,
+        viewTag: 42,
+        metadata: [16n, 32n],
+        decodedMetadata: { version: 0, token: "0x10", amount: 32n },
+        blockNumber: 7,
+        transactionHash: "0xdead",
+      });
+    });
+
+    it("should decode tagged metadata and keep malformed metadata raw", () => {
+      const felts = encodeMetadata({ token: "0x10", amount: 5n, memo: "hi" });
+      const toHex = (n: bigint | number) => "0x" + n.toString(16);
+      const event = (metadata: bigint[]) => ({
+        data: ["0xabc", "0x1", "0x4", "0x2a", toHex(metadata.length), ...metadata.map(toHex)],
+      });
+
+      expect(parseAnnouncementEvent(event(felts))?.decodedMetadata).toEqual({
+        version: 1,
+        token: "0x10",
+        amount: 5n,
+        memo: "hi",
+      });
+
+      const truncated = parseAnnouncementEvent(event(felts.slice(0, -1)));
+      expect(truncated?.metadata).toEqual(felts.slice(0, -1));
+      expect(truncated?.decodedMetadata).toBeUndefined();
+    });
+
+    it("should reject events with fields that are not felts", () => {
+      const event = { data: ["0x1", "0x2", "not-a-felt", "0x7", "0x0"] };
+      expect(() => parseAnnouncementEvent(event)).toThrow(MalformedAnnouncementError);
+    });
+
+    it("should return null for events with too few fields", () => {
+      expect(parseAnnouncementEvent({ data: ["0x1", "0x2"] })).toBeNull();
+    });
+  });
+
+  describe("fetchAnnouncementEvents", () => {
+    it("should follow continuation tokens past the first page", async () => {
+      const { provider, calls } = mockProvider(9, 5);
+
+      const announcements = await fetchAnnouncementEvents(provider, REGISTRY, 0, "latest", {
+        chunkSize: 7,
+      });
+
+      expect(announcements).toHaveLength(50);
+      expect(calls.length).toBeGreaterThan(1);
+    });
+
+    it("should split wide ranges and keep chain order", async () => {
+      const { provider, calls } = mockProvider(100, 1);
+
+      const announcements = await fetchAnnouncementEvents(provider, REGISTRY, 0, 99, {
+        blockRangeSize: 10,
+        concurrency: 3,
+      });
+
+      expect(calls).toHaveLength(10);
+      expect(announcements.map((a) => a.blockNumber)).toEqual(
+        Array.from({ length: 100 }, (_, i) => i)
+      );
+    });
+
+    it("should report progress for each sub-range", async () => {
+      const { provider } = mockProvider(29, 2);
+      const progress: FetchAnnouncementsProgress[] = [];
+
+      await fetchAnnouncementEvents(provider, REGISTRY, 0, 29, {
+        blockRangeSize: 10,
+        concurrency: 1,
+        onProgress: (p) => progress.push(p),
+      });
+
+      expect(progress).toHaveLength(3);
+      expect(progress[2]).toEqual({
+        fromBlock: 0,
+        toBlock: 29,
+        completedRanges: 3,
+        totalRanges: 3,
+        blocksFetched: 30,
+        totalBlocks: 30,
+        announcementsFound: 60,
+      });
+    });
+
+    it("should stop when the signal is aborted", async () => {
+      const { provider, calls } = mockProvider(99, 1);
+      const controller = new AbortController();
+
+      const promise = fetchAnnouncementEvents(provider, REGISTRY, 0, 99, {
+        blockRangeSize: 10,
+        concurrency: 1,
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      });
+
+      await expect(promise).rejects.toThrow();
+      expect(calls).toHaveLength(1);
+    });
+
+    it("should stop the other sub-ranges once one fails", async () => {
+      let calls = 0;
+      const provider = {
+        getBlockNumber: async () => 99,
+        getEvents: async () => {
+          calls++;
+          if (calls === 1) throw new Error("rpc down");
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          return { events: [] };
+        },
+      } as unknown as RpcProvider;
+
+      const promise = fetchAnnouncementEvents(provider, REGISTRY, 0, 99, {
+        blockRangeSize: 10,
+        concurrency: 3,
+      });
+
+      await expect(promise).rejects.toThrow("rpc down");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(calls).toBe(3);
+    });
+
+    it("should skip malformed events and report them", async () => {
+      const bad = { data: ["0x1", "0x2", "zz", "0x7", "0x0"], transaction_hash: "0xbad" };
+      const provider = {
+        getBlockNumber: async () => 0,
+        getEvents: async () => ({ events: [makeEvent(0, 0), bad, makeEvent(0, 1)] }),
+      } as unknown as RpcProvider;
+      const errors: MalformedAnnouncementError[] = [];
+
+      const announcements = await fetchAnnouncementEvents(provider, REGISTRY, 0, 0, {
+        onDecodeError: (error) => errors.push(error),
+      });
+
+      expect(announcements).toHaveLength(2);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].code).toBe("MALFORMED_ANNOUNCEMENT");
+      expect(errors[0].event).toBe(bad);
+    });
+
+    it("should reject immediately with an already-aborted signal", async () => {
+      const { provider, calls } = mockProvider(9, 1);
+
+      await expect(
+        fetchAnnouncementEvents(provider, REGISTRY, 0, 9, {
+          signal: AbortSignal.abort(),
+        })
+      ).rejects.toThrow();
+      expect(calls).toHaveLength(0);
+    });
+  });
+});
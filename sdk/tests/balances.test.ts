@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import type { Call, ProviderInterface } from "starknet";
+import { decodeU256, fetchPaymentBalances } from "../src/balances";
+import type { StealthPayment } from "../src/stealth";
+
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const ETH = "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+
+function payment(stealthAddress: string, token?: string): StealthPayment {
+  return {
+    announcement: { stealthAddress, ephemeralPubKey: 1n, viewTag: 0, metadata: [] },
+    sharedSecret: 1n,
+    stealthPrivateKey: 1n,
+    stealthPubKey: 1n,
+    metadata: token === undefined ? undefined : { version: 1, token },
+  };
+}
+
+/**
+ * Provider answering balanceOf from a table keyed by "token:account"
+ */
+function mockProvider(table: Record<string, bigint>) {
+  const calls: Call[] = [];
+  const provider = {
+    callContract: async (call: Call) => {
+      calls.push(call);
+      const account = (call.calldata as string[])[0];
+      const balance = table[`${call.contractAddress}:${account}`] ?? 0n;
+      const low = balance & ((1n << 128n) - 1n);
+      return ["0x" + low.toString(16), "0x" + (balance >> 128n).toString(16)];
+    },
+  };
+  return { provider: provider as unknown as ProviderInterface, calls };
+}
+
+describe("balances", () => {
+  describe("decodeU256", () => {
+    it("should decode arrays, objects and plain values", () => {
+      expect(decodeU256(["0x5", "0x1"])).toBe(5n + (1n << 128n));
+      expect(decodeU256({ low: 5n, high: 1n })).toBe(5n + (1n << 128n));
+      expect(decodeU256(42n)).toBe(42n);
+    });
+  });
+
+  describe("fetchPaymentBalances", () => {
+    it("should default to each payment's metadata token", async () => {
+      const { provider, calls } = mockProvider({
+        [`${STRK}:0xa`]: 100n,
+        [`${ETH}:0xb`]: 7n,
+      });
+      const payments = [payment("0xa", STRK), payment("0xb", ETH)];
+
+      const { balances, totals } = await fetchPaymentBalances(provider, payments);
+
+      expect(calls).toHaveLength(2);
+      expect(balances.map((b) => [b.stealthAddress, b.token, b.balance])).toEqual([
+        ["0xa", STRK, 100n],
+        ["0xb", ETH, 7n],
+      ]);
+      expect(balances[0].payment).toBe(payments[0]);
+      expect(totals).toEqual(new Map([[STRK, 100n], [ETH, 7n]]));
+    });
+
+    it("should check every given token for every payment", async () => {
+      const { provider, calls } = mockProvider({
+        [`${STRK}:0xa`]: 1n,
+        [`${ETH}:0xa`]: 2n,
+        [`${STRK}:0xb`]: 1n << 130n,
+      });
+
+      const { balances, totals } = await fetchPaymentBalances(
+        provider,
+        [payment("0xa", STRK), payment("0xb")],
+        [STRK, ETH]
+      );
+
+      expect(calls).toHaveLength(4);
+      expect(balances).toHaveLength(4);
+      expect(totals.get(STRK)).toBe(1n + (1n << 130n));
+      expect(totals.get(ETH)).toBe(2n);
+    });
+
+    it("should read and count a shared stealth address once", async () => {
+      const { provider, calls } = mockProvider({ [`${STRK}:0xa`]: 10n });
+
+      const { balances, totals } = await fetchPaymentBalances(provider, [
+        payment("0xa", STRK),
+        payment("0x0A", STRK),
+      ]);
+
+      expect(calls).toHaveLength(1);
+      expect(balances.map((b) => b.balance)).toEqual([10n, 10n]);
+      expect(totals.get(STRK)).toBe(10n);
+    });
+
+    it("should report payments without a known token", async () => {
+      const { provider, calls } = mockProvider({});
+      const unknown = payment("0xc");
+
+      const result = await fetchPaymentBalances(provider, [unknown]);
+
+      expect(calls).toHaveLength(0);
+      expect(result.balances).toEqual([]);
+      expect(result.unknownToken).toEqual([unknown]);
+    });
+
+    it("should limit the reads in flight", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const provider = {
+        callContract: async () => {
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise((r) => setTimeout(r, 1));
+          inFlight--;
+          return ["0x0", "0x0"];
+        },
+      } as unknown as ProviderInterface;
+      const payments = Array.from({ length: 10 }, (_, i) =>
+        payment("0x" + (i + 1).toString(16), STRK)
+      );
+
+      await fetchPaymentBalances(provider, payments, undefined, { concurrency: 3 });
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it("should report a failed read on its entries and keep the others", async () => {
+      const { provider } = mockProvider({ [`${STRK}:0xa`]: 5n });
+      const callContract = provider.callContract.bind(provider);
+      provider.callContract = async (call) => {
+        if ((call.calldata as string[])[0] === "0xb") throw new Error("RPC down");
+        return callContract(call);
+      };
+
+      const { balances, totals } = await fetchPaymentBalances(provider, [
+        payment("0xa", STRK),
+        payment("0xb", STRK),
+      ]);
+
+      expect(balances[0]).not.toHaveProperty("error");
+      expect(balances[1]).toMatchObject({ balance: 0n, error: new Error("RPC down") });
+      expect(totals.get(STRK)).toBe(5n);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { createStealthContext, isStealthContext } from "../src/context";
+import { generateKeys } from "../src/keys";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import {
+  generateStealthAddress,
+  generateStealthAddressWithKey,
+  scanAnnouncements,
+  type Announcement,
+} from "../src/stealth";
+import {
+  generatePrivateKey,
+  derivePublicKey,
+  ecdh,
+  precomputePoint,
+  computeStealthPublicKey,
+} from "../src/crypto";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+
+describe("context", () => {
+  describe("precomputePoint", () => {
+    it("should give the same ECDH and stealth key results as raw keys", () => {
+      const publicKey = derivePublicKey(generatePrivateKey());
+      const point = precomputePoint(publicKey);
+      const privateKey = generatePrivateKey();
+
+      expect(point.x).toBe(publicKey);
+      expect(ecdh(privateKey, point)).toBe(ecdh(privateKey, publicKey));
+      expect(computeStealthPublicKey(point, 42n)).toBe(computeStealthPublicKey(publicKey, 42n));
+    });
+  });
+
+  describe("createStealthContext", () => {
+    it("should build a context from a meta-address", () => {
+      const keys = generateKeys();
+      const meta = parseMetaAddress(encodeMetaAddress(keys));
+      const context = createStealthContext(meta);
+
+      expect(isStealthContext(context)).toBe(true);
+      expect(isStealthContext(meta)).toBe(false);
+      expect(context.spendingPubKey).toBe(meta.spendingPubKey);
+      expect(context.viewingPoint.x).toBe(meta.viewingPubKey);
+    });
+
+    it("should build a context from stealth keys", () => {
+      const keys = generateKeys();
+      const context = createStealthContext(keys);
+
+      expect(context.chain).toBe("starknet");
+      expect(context.spendingPoint.x).toBe(keys.spendingKey.publicKey);
+      expect(context.viewingPoint.x).toBe(keys.viewingKey.publicKey);
+    });
+
+    it("should return an existing context unchanged", () => {
+      const context = createStealthContext(generateKeys());
+      expect(createStealthContext(context)).toBe(context);
+    });
+  });
+
+  describe("using a context", () => {
+    it("should generate the same stealth address as the plain meta-address", () => {
+      const keys = generateKeys();
+      const meta = parseMetaAddress(encodeMetaAddress(keys));
+      const context = createStealthContext(meta);
+      const ephemeralPrivateKey = generatePrivateKey();
+
+      expect(generateStealthAddressWithKey(context, ephemeralPrivateKey, TEST_CLASS_HASH)).toEqual(
+        generateStealthAddressWithKey(meta, ephemeralPrivateKey, TEST_CLASS_HASH)
+      );
+    });
+
+    it("should produce payments the recipient can scan", () => {
+      const keys = generateKeys();
+      const context = createStealthContext(parseMetaAddress(encodeMetaAddress(keys)));
+
+      const announcements: Announcement[] = Array.from({ length: 5 }, () => {
+        const result = generateStealthAddress(context, TEST_CLASS_HASH);
+        return {
+          stealthAddress: result.stealthAddress,
+          ephemeralPubKey: result.ephemeralPubKey,
+          viewTag: result.viewTag,
+          metadata: [],
+        };
+      });
+
+      const payments = scanAnnouncements(
+        announcements,
+        keys.viewingKey.privateKey,
+        createStealthContext(keys).spendingPoint,
+        keys.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+
+      expect(payments).toHaveLength(5);
+    });
+  });
+});
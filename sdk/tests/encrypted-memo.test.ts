@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { encryptMemo, decryptMemo, readMemo } from "../src/encrypted-memo";
+import { decodeMetadata, encodeMetadata } from "../src/metadata";
+import { Amora } from "../src/contracts";
+import { generateKeys } from "../src/keys";
+import { encodeMetaAddress, parseMetaAddress } from "../src/meta-address";
+import { generateStealthAddress, scanAnnouncements } from "../src/stealth";
+import { exportViewingKey, importViewingKey, scanWithViewingKey } from "../src/viewing-key";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+describe("encrypted-memo", () => {
+  const keys = generateKeys();
+  const stealth = generateStealthAddress(
+    parseMetaAddress(encodeMetaAddress(keys)),
+    TEST_CLASS_HASH
+  );
+
+  describe("encryptMemo / decryptMemo", () => {
+    it("should round-trip with the shared secret", () => {
+      const memo = "Invoice #42 — 3 coffees ☕";
+      const felts = encryptMemo(memo, stealth.sharedSecret);
+
+      expect(decryptMemo(felts, stealth.sharedSecret)).toBe(memo);
+    });
+
+    it("should round-trip an empty memo", () => {
+      expect(decryptMemo(encryptMemo("", 1n), 1n)).toBe("");
+    });
+
+    it("should use a fresh nonce each time", () => {
+      expect(encryptMemo("hi", 1n)).not.toEqual(encryptMemo("hi", 1n));
+    });
+
+    it("should not reveal the plaintext", () => {
+      const felts = encryptMemo("secret invoice", stealth.sharedSecret);
+      const bytes = felts.map((f) => f.toString(16)).join("");
+
+      expect(bytes).not.toContain(Buffer.from("secret").toString("hex"));
+    });
+
+    it("should reject the wrong shared secret", () => {
+      const felts = encryptMemo("hello", stealth.sharedSecret);
+
+      expect(() => decryptMemo(felts, stealth.sharedSecret + 1n)).toThrow(
+        "Cannot decrypt memo"
+      );
+    });
+
+    it("should reject tampered ciphertext", () => {
+      const felts = encryptMemo("hello", stealth.sharedSecret);
+      felts[1] ^= 1n;
+
+      expect(() => decryptMemo(felts, stealth.sharedSecret)).toThrow("Cannot decrypt memo");
+    });
+  });
+
+  describe("readMemo", () => {
+    it("should prefer the encrypted memo and fall back to plaintext", () => {
+      const encryptedMemo = encryptMemo("private", 7n);
+
+      expect(readMemo({ version: 1, encryptedMemo }, 7n)).toBe("private");
+      expect(readMemo({ version: 1, memo: "public" }, 7n)).toBe("public");
+      expect(readMemo({ version: 1, encryptedMemo }, 8n)).toBeUndefined();
+      expect(readMemo(undefined, 7n)).toBeUndefined();
+    });
+  });
+
+  describe("send and scan", () => {
+    const amora = new Amora({
+      provider: {} as never,
+      amoraAddress: "0x1",
+      accountClassHash: TEST_CLASS_HASH,
+    });
+
+    // Announce calldata: [stealth_address, ephemeral_pubkey, view_tag, metadata_len, ...metadata]
+    const announcedMetadata = (calldata: string[]) => calldata.slice(4).map(BigInt);
+
+    it("should encrypt the memo option by default", () => {
+      const [, announce] = amora.buildSendCalls(STRK, 1n, stealth, { memo: "for rent" });
+      const metadata = decodeMetadata(announcedMetadata(announce.calldata as string[]));
+
+      expect(metadata.memo).toBeUndefined();
+      expect(decryptMemo(metadata.encryptedMemo!, stealth.sharedSecret)).toBe("for rent");
+    });
+
+    it("should encrypt memos in batch sends", () => {
+      const metaAddress = encodeMetaAddress(keys);
+      const { calls, stealthResults } = amora.buildBatchSendCalls([
+        { metaAddress, tokenAddress: STRK, amount: 1n, metadata: { memo: "a" } },
+        { metaAddress, tokenAddress: STRK, amount: 2n, metadata: { memo: "b" } },
+      ]);
+
+      const memos = [calls[1], calls[3]].map((call, i) =>
+        decryptMemo(
+          decodeMetadata(announcedMetadata(call.calldata as string[])).encryptedMemo!,
+          stealthResults[i].sharedSecret
+        )
+      );
+      expect(memos).toEqual(["a", "b"]);
+    });
+
+    it("should decrypt the memo in StealthPayment and ViewingKeyMatch", () => {
+      const metadata = encodeMetadata({
+        token: STRK,
+        amount: 1n,
+        encryptedMemo: encryptMemo("thanks!", stealth.sharedSecret),
+      });
+      const announcement = { ...stealth, metadata };
+
+      const [payment] = scanAnnouncements(
+        [announcement],
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+      const [match] = scanWithViewingKey(
+        [announcement],
+        importViewingKey(exportViewingKey(keys)),
+        TEST_CLASS_HASH
+      );
+
+      expect(payment.memo).toBe("thanks!");
+      expect(match.memo).toBe("thanks!");
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Account } from "starknet";
+import {
+  AccountNotDeployedError,
+  AmoraError,
+  InsufficientBalanceError,
+  InvalidMetaAddressError,
+  InvalidPaymentLinkError,
+  InvalidPointError,
+  InvalidViewingKeyError,
+  MalformedMemoError,
+  InvalidTransactionOptionsError,
+  SchemeConflictError,
+  InvalidKeystoreError,
+  WrongPasswordError,
+  MalformedMetadataError,
+  InvalidMnemonicError,
+  OutOfRangeError,
+  UnexpectedResponseError,
+  isAmoraError,
+} from "../src/errors";
+import { parseMetaAddress } from "../src/meta-address";
+import { importViewingKey } from "../src/viewing-key";
+import { decodeMemo } from "../src/memo";
+import { parsePaymentLink } from "../src/payment-link";
+import { ecdh } from "../src/crypto";
+import { reserveFees, feeTokenForUnit } from "../src/fees";
+import { Amora } from "../src/contracts";
+import { generateKeys, keysFromMnemonic, keysFromSeed } from "../src/keys";
+import { toTransactionDetails } from "../src/transactions";
+import { registerScheme, secp256k1Scheme, starkScheme } from "../src/schemes";
+import { encodeMetadata, decodeMetadata } from "../src/metadata";
+import { decryptMemo } from "../src/encrypted-memo";
+import { encryptKeys, decryptKeys } from "../src/keystore";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+/**
+ * Run `fn` and return what it throws
+ */
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (e) {
+    return e;
+  }
+  throw new Error("Expected an error");
+}
+
+describe("errors", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should give every error a class, a name and a stable code", () => {
+    const error = new InvalidMetaAddressError("bad");
+
+    expect(error).toBeInstanceOf(AmoraError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("InvalidMetaAddressError");
+    expect(error.code).toBe("INVALID_META_ADDRESS");
+    expect(isAmoraError(error)).toBe(true);
+    expect(isAmoraError(error, "INVALID_META_ADDRESS")).toBe(true);
+    expect(isAmoraError(error, "INVALID_POINT")).toBe(false);
+    expect(isAmoraError(new Error("bad"))).toBe(false);
+  });
+
+  it("should throw typed errors from the parsers", () => {
+    expect(thrown(() => parseMetaAddress("st:starknet:0x1"))).toBeInstanceOf(InvalidMetaAddressError);
+    expect(thrown(() => parseMetaAddress("st:starknet:0xzz:0x1"))).toBeInstanceOf(InvalidMetaAddressError);
+    expect(thrown(() => parseMetaAddress(`st:starknet:0x${"f".repeat(64)}:0x1`))).toBeInstanceOf(
+      InvalidMetaAddressError
+    );
+    expect(thrown(() => importViewingKey("vk:starknet:0x1"))).toBeInstanceOf(InvalidViewingKeyError);
+    expect(thrown(() => importViewingKey("vk:starknet:xyz:0x1"))).toBeInstanceOf(InvalidViewingKeyError);
+    expect(thrown(() => decodeMemo([]))).toBeInstanceOf(MalformedMemoError);
+    expect(thrown(() => parsePaymentLink("https://pay"))).toBeInstanceOf(InvalidPaymentLinkError);
+    expect(thrown(() => parsePaymentLink("amora://pay?meta=st:x"))).toBeInstanceOf(InvalidMetaAddressError);
+  });
+
+  it("should throw typed errors from options, codecs and key derivation", () => {
+    expect(thrown(() => toTransactionDetails({ feeToken: "ETH", tip: 1n }))).toBeInstanceOf(
+      InvalidTransactionOptionsError
+    );
+    expect(thrown(() => registerScheme({ ...secp256k1Scheme, id: starkScheme.id }))).toMatchObject({
+      code: "SCHEME_CONFLICT",
+      schemeId: starkScheme.id,
+    });
+    expect(thrown(() => registerScheme({ ...starkScheme, name: "copy" }))).toBeInstanceOf(
+      SchemeConflictError
+    );
+    expect(thrown(() => decodeMetadata(encodeMetadata({ amount: 5n }).slice(0, -1)))).toBeInstanceOf(
+      MalformedMetadataError
+    );
+    expect(thrown(() => encodeMetadata({ amount: -1n }))).toBeInstanceOf(OutOfRangeError);
+    expect(thrown(() => decryptMemo([1n, 2n], 1n))).toBeInstanceOf(MalformedMemoError);
+    expect(thrown(() => keysFromMnemonic("not a mnemonic"))).toBeInstanceOf(InvalidMnemonicError);
+    expect(thrown(() => keysFromSeed(new Uint8Array(32), { accountIndex: -1 }))).toBeInstanceOf(
+      OutOfRangeError
+    );
+    expect(thrown(() => feeTokenForUnit("GWEI"))).toBeInstanceOf(UnexpectedResponseError);
+  });
+
+  it("should throw typed keystore errors", async () => {
+    const json = await encryptKeys(generateKeys(), "pw", { iterations: 1000 });
+
+    await expect(decryptKeys(json, "wrong")).rejects.toThrow(WrongPasswordError);
+    await expect(decryptKeys("{", "pw")).rejects.toThrow(InvalidKeystoreError);
+    await expect(decryptKeys({ ...JSON.parse(json), type: "full", viewingPubKey: "0x1" }, "pw"))
+      .rejects.toMatchObject({ code: "INVALID_KEYSTORE" });
+  });
+
+  it("should throw InvalidPointError for an x-coordinate off the curve", () => {
+    // x^3 + alpha*x + beta is not a square for x = 5
+    const error = thrown(() => ecdh(1n, 5n)) as InvalidPointError;
+
+    expect(error).toBeInstanceOf(InvalidPointError);
+    expect(error.code).toBe("INVALID_POINT");
+    expect(error.message).toBe("Invalid point: x-coordinate not on curve");
+  });
+
+  it("should report the balance and fees that do not fit", () => {
+    const error = thrown(() =>
+      reserveFees([{ token: STRK, amount: 10n }], {
+        feeToken: STRK,
+        deployFee: 5n,
+        withdrawFee: 7n,
+        totalFee: 12n,
+        withdrawDetails: {},
+      })
+    ) as InsufficientBalanceError;
+
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error.code).toBe("INSUFFICIENT_BALANCE");
+    expect(error).toMatchObject({ token: STRK, balance: 10n, required: 12n });
+  });
+
+  it("should report a sender account that is not deployed", async () => {
+    const rpcError = new Error("RPC: starknet_getNonce with params {...}\n 20: Contract not found");
+    vi.spyOn(Account.prototype, "execute").mockRejectedValue(rpcError);
+    const amora = new Amora({
+      provider: {} as never,
+      amoraAddress: "0x1",
+      accountClassHash: TEST_CLASS_HASH,
+    });
+    const account = new Account({} as never, "0xabc", "0x1");
+
+    const error = await amora.register(account, generateKeys()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AccountNotDeployedError);
+    expect(error).toMatchObject({ code: "ACCOUNT_NOT_DEPLOYED", address: "0xabc", cause: rpcError });
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Account, TransactionType, type Call } from "starknet";
+import {
+  feeBreakdown,
+  predictAnnouncements,
+  simulatedAnnouncements,
+  summarizeFees,
+} from "../src/estimate";
+import { Amora } from "../src/contracts";
+import { generateKeys } from "../src/keys";
+import { encodeMetaAddress } from "../src/meta-address";
+import { derivePublicKey } from "../src/crypto";
+import { computeStealthContractAddress } from "../src/stealth";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const REGISTRY = "0x1";
+const ETH = "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const DESTINATION = "0xdead";
+const SENDER = "0xabc";
+
+/**
+ * A WEI fee estimate of `fee`, with a max fee of twice that
+ */
+function estimate(fee: bigint) {
+  return {
+    unit: "WEI",
+    overall_fee: fee,
+    gas_consumed: fee / 2n,
+    gas_price: 2n,
+    data_gas_consumed: 1n,
+    data_gas_price: 0n,
+    suggestedMaxFee: fee * 2n,
+    resourceBounds: {
+      l1_gas: { max_amount: "0x0", max_price_per_unit: "0x0" },
+      l2_gas: { max_amount: "0x0", max_price_per_unit: "0x0" },
+    },
+  } as never;
+}
+
+/**
+ * A simulated transaction of `fee` WEI whose execution emits `events` from `contract`
+ */
+function simulated(
+  type: "INVOKE" | "DEPLOY_ACCOUNT",
+  fee: bigint,
+  execution: { contract: string; events: { order: number; keys: string[]; data: string[] }[] } | "revert"
+) {
+  const invocation =
+    execution === "revert"
+      ? { revert_reason: "u256_sub Overflow" }
+      : {
+          contract_address: SENDER,
+          events: [],
+          // The registry is reached through the account's __execute__
+          calls: [{ contract_address: execution.contract, events: execution.events, calls: [] }],
+        };
+  return {
+    transaction_trace:
+      type === "INVOKE"
+        ? { type, execute_invocation: invocation }
+        : { type, constructor_invocation: invocation },
+    fee_estimation: {
+      unit: "WEI",
+      overall_fee: "0x" + fee.toString(16),
+      gas_consumed: "0x1",
+      gas_price: "0x1",
+      data_gas_consumed: "0x0",
+      data_gas_price: "0x0",
+    },
+    suggestedMaxFee: fee * 2n,
+    resourceBounds: {
+      l1_gas: { max_amount: "0x0", max_price_per_unit: "0x0" },
+      l2_gas: { max_amount: "0x0", max_price_per_unit: "0x0" },
+    },
+  };
+}
+
+/**
+ * Amora over a provider where every account holds `balance` and none is deployed
+ */
+function fakeAmora(balance = 0n) {
+  const provider = {
+    callContract: async () => ["0x" + balance.toString(16), "0x0"],
+    getClassHashAt: async () => {
+      throw new Error("Contract not found");
+    },
+  };
+  return new Amora({
+    provider: provider as never,
+    amoraAddress: REGISTRY,
+    accountClassHash: TEST_CLASS_HASH,
+  });
+}
+
+describe("estimate", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("feeBreakdown and summarizeFees", () => {
+    it("should break down and total transaction fees", () => {
+      const deploy = feeBreakdown("DEPLOY_ACCOUNT", estimate(40n));
+      const invoke = feeBreakdown("INVOKE", estimate(20n), { maxFee: 25n });
+
+      expect(deploy).toEqual({
+        type: "DEPLOY_ACCOUNT",
+        feeToken: "0x049d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7",
+        unit: "WEI",
+        gasConsumed: 20n,
+        gasPrice: 2n,
+        dataGasConsumed: 1n,
+        dataGasPrice: 0n,
+        overallFee: 40n,
+        maxFee: 80n,
+      });
+      expect(invoke.maxFee).toBe(25n);
+      expect(summarizeFees([deploy, invoke], [])).toMatchObject({
+        overallFee: 60n,
+        maxFee: 105n,
+        announcements: [],
+      });
+    });
+  });
+
+  describe("predictAnnouncements", () => {
+    it("should predict the announcement of a send", () => {
+      const amora = fakeAmora();
+      const stealthResult = amora.generateStealthAddress(encodeMetaAddress(generateKeys()));
+      const calls = amora.buildSendCalls(STRK, 10n, stealthResult, { memo: "hi", publicMemo: true });
+
+      const [announcement] = predictAnnouncements(calls, REGISTRY, SENDER);
+
+      expect(BigInt(announcement.stealthAddress)).toBe(BigInt(stealthResult.stealthAddress));
+      expect(announcement.ephemeralPubKey).toBe(stealthResult.ephemeralPubKey);
+      expect(announcement.viewTag).toBe(stealthResult.viewTag);
+      expect(announcement.decodedMetadata).toMatchObject({ amount: 10n, memo: "hi" });
+    });
+
+    it("should ignore calls to other contracts", () => {
+      const call: Call = { contractAddress: "0x2", entrypoint: "announce", calldata: ["0x1", "0x2", "0x3", "0x0"] };
+      expect(predictAnnouncements([call], REGISTRY, SENDER)).toEqual([]);
+    });
+  });
+
+  describe("simulatedAnnouncements", () => {
+    it("should read registry events from nested calls in emission order", () => {
+      const events = [
+        { order: 3, keys: [], data: ["0x20", SENDER, "0x7", "0x2", "0x0"] },
+        { order: 1, keys: [], data: ["0x10", SENDER, "0x4", "0x1", "0x0"] },
+      ];
+      const result = simulatedAnnouncements(
+        [
+          simulated("INVOKE", 1n, { contract: REGISTRY, events }),
+          simulated("INVOKE", 1n, { contract: "0x2", events }),
+        ] as never,
+        REGISTRY
+      );
+
+      expect(result.map((a) => a.stealthAddress)).toEqual(["0x10", "0x20"]);
+    });
+  });
+
+  describe("Amora", () => {
+    it("should estimate a send with its predicted announcement", async () => {
+      const estimateInvokeFee = vi
+        .spyOn(Account.prototype, "estimateInvokeFee")
+        .mockResolvedValue(estimate(30n));
+      const amora = fakeAmora();
+      const account = new Account({} as never, SENDER, "0x1");
+      const stealthResult = amora.generateStealthAddress(encodeMetaAddress(generateKeys()));
+
+      const result = await amora.estimateSend(account, ETH, 10n, stealthResult, {}, { feeToken: "ETH" });
+
+      expect(estimateInvokeFee.mock.calls[0][0]).toEqual(
+        amora.buildSendCalls(ETH, 10n, stealthResult)
+      );
+      expect(estimateInvokeFee.mock.calls[0][1]).toEqual({ version: "0x1" });
+      expect(result.overallFee).toBe(30n);
+      expect(result.maxFee).toBe(60n);
+      expect(result.transactions.map((t) => t.type)).toEqual(["INVOKE"]);
+      expect(result.announcements).toHaveLength(1);
+      expect(result.announcements[0].ephemeralPubKey).toBe(stealthResult.ephemeralPubKey);
+    });
+
+    it("should estimate a batch send with one announcement per payment", async () => {
+      vi.spyOn(Account.prototype, "estimateInvokeFee").mockResolvedValue(estimate(30n));
+      const account = new Account({} as never, SENDER, "0x1");
+      const metaAddress = encodeMetaAddress(generateKeys());
+
+      const result = await fakeAmora().estimateBatchSend(account, [
+        { metaAddress, tokenAddress: STRK, amount: 1n },
+        { metaAddress, tokenAddress: STRK, amount: 2n },
+      ]);
+
+      expect(result.announcements.map((a) => a.decodedMetadata?.amount)).toEqual([1n, 2n]);
+    });
+
+    it("should send the stealth addresses a batch estimate previewed", async () => {
+      vi.spyOn(Account.prototype, "estimateInvokeFee").mockResolvedValue(estimate(30n));
+      const execute = vi
+        .spyOn(Account.prototype, "execute")
+        .mockResolvedValue({ transaction_hash: "0xe" });
+      const account = new Account({} as never, SENDER, "0x1");
+      const amora = fakeAmora();
+      const payments = [
+        { metaAddress: encodeMetaAddress(generateKeys()), tokenAddress: STRK, amount: 1n },
+        { metaAddress: encodeMetaAddress(generateKeys()), tokenAddress: STRK, amount: 2n },
+      ];
+
+      const preview = await amora.estimateBatchSend(account, payments);
+      const sent = await amora.batchSend(account, payments, {
+        stealthResults: preview.stealthResults,
+      });
+
+      expect(sent.stealthResults).toEqual(preview.stealthResults);
+      expect(preview.announcements.map((a) => BigInt(a.stealthAddress))).toEqual(
+        preview.stealthResults.map((r) => BigInt(r.stealthAddress))
+      );
+      expect(execute.mock.calls[0][0]).toEqual(
+        amora.buildBatchSendCalls(payments, preview.stealthResults).calls
+      );
+      expect(() => amora.buildBatchSendCalls(payments, preview.stealthResults.slice(1))).toThrow(
+        "Expected 2 stealth results, one per payment, got 1"
+      );
+    });
+
+    it("should estimate a registration", async () => {
+      const estimateInvokeFee = vi
+        .spyOn(Account.prototype, "estimateInvokeFee")
+        .mockResolvedValue(estimate(5n));
+      const account = new Account({} as never, SENDER, "0x1");
+      const keys = generateKeys();
+
+      const result = await fakeAmora().estimateRegister(account, keys);
+
+      const [call] = estimateInvokeFee.mock.calls[0][0] as Call[];
+      expect(call).toMatchObject({ entrypoint: "register_keys" });
+      expect(call.calldata).toEqual([
+        "0x" + keys.spendingKey.publicKey.toString(16),
+        "0x" + keys.viewingKey.publicKey.toString(16),
+      ]);
+      expect(result.overallFee).toBe(5n);
+      expect(result.announcements).toEqual([]);
+    });
+
+    it("should estimate an undeployed withdrawal of everything as deploy plus withdraw", async () => {
+      const estimateFeeBulk = vi
+        .spyOn(Account.prototype, "estimateFeeBulk")
+        .mockResolvedValue([estimate(40n), estimate(20n)]);
+
+      const result = await fakeAmora(1000n).estimateDeployAndWithdraw(123n, DESTINATION, ETH, "all");
+
+      const invocations = estimateFeeBulk.mock.calls[0][0];
+      expect(invocations.map((i) => i.type)).toEqual([
+        TransactionType.DEPLOY_ACCOUNT,
+        TransactionType.INVOKE,
+      ]);
+      expect(result.transactions.map((t) => t.type)).toEqual(["DEPLOY_ACCOUNT", "INVOKE"]);
+      expect(result.overallFee).toBe(60n);
+      expect(result.maxFee).toBe(120n);
+      // The maximum fees are left behind
+      expect(result.amount).toBe(880n);
+    });
+
+    it("should fail to estimate withdrawing everything the fees would consume", async () => {
+      vi.spyOn(Account.prototype, "estimateFeeBulk").mockResolvedValue([estimate(40n), estimate(20n)]);
+
+      await expect(
+        fakeAmora(100n).estimateDeployAndWithdraw(123n, DESTINATION, ETH, "all")
+      ).rejects.toThrow("Insufficient balance to cover fees");
+    });
+
+    it("should simulate a send and read the emitted announcement", async () => {
+      const simulate = vi.spyOn(Account.prototype, "simulateTransaction").mockResolvedValue([
+        simulated("INVOKE", 30n, {
+          contract: REGISTRY,
+          events: [{ order: 0, keys: [], data: ["0x10", SENDER, "0x4", "0x1", "0x0"] }],
+        }),
+      ] as never);
+      const amora = fakeAmora();
+      const account = new Account({} as never, SENDER, "0x1");
+      const stealthResult = amora.generateStealthAddress(encodeMetaAddress(generateKeys()));
+
+      const result = await amora.simulateSend(account, ETH, 10n, stealthResult);
+
+      expect(simulate.mock.calls[0][0]).toEqual([
+        { type: TransactionType.INVOKE, payload: amora.buildSendCalls(ETH, 10n, stealthResult) },
+      ]);
+      expect(result.succeeded).toBe(true);
+      expect(result.overallFee).toBe(30n);
+      expect(result.announcements.map((a) => a.stealthAddress)).toEqual(["0x10"]);
+    });
+
+    it("should report a reverted simulation", async () => {
+      vi.spyOn(Account.prototype, "simulateTransaction").mockResolvedValue([
+        simulated("INVOKE", 30n, "revert"),
+      ] as never);
+      const account = new Account({} as never, SENDER, "0x1");
+
+      const result = await fakeAmora().simulateRegister(account, generateKeys());
+
+      expect(result.succeeded).toBe(false);
+      expect(result.revertReason).toBe("u256_sub Overflow");
+      expect(result.announcements).toEqual([]);
+    });
+
+    it("should simulate an undeployed withdrawal with its deployment", async () => {
+      const simulate = vi.spyOn(Account.prototype, "simulateTransaction").mockResolvedValue([
+        simulated("DEPLOY_ACCOUNT", 40n, { contract: "0x2", events: [] }),
+        simulated("INVOKE", 20n, { contract: ETH, events: [] }),
+      ] as never);
+
+      const result = await fakeAmora(1000n).simulateDeployAndWithdraw(123n, DESTINATION, ETH, 500n);
+
+      const pubKey = derivePublicKey(123n);
+      const [deploy, invoke] = simulate.mock.calls[0][0];
+      expect(deploy).toMatchObject({
+        type: TransactionType.DEPLOY_ACCOUNT,
+        payload: { classHash: TEST_CLASS_HASH, addressSalt: pubKey.toString() },
+      });
+      expect(BigInt(((invoke.payload as Call[])[0].calldata as string[])[1])).toBe(500n);
+      expect(simulate.mock.instances[0].address).toBe(
+        computeStealthContractAddress(pubKey, TEST_CLASS_HASH)
+      );
+      expect(result).toMatchObject({ succeeded: true, overallFee: 60n, maxFee: 120n, amount: 500n });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Account, type Call } from "starknet";
+import {
+  ETH_TOKEN_ADDRESS,
+  STRK_TOKEN_ADDRESS,
+  feeTokenForUnit,
+  maxFeeOf,
+  reserveFees,
+  withdrawalFees,
+  withdrawalFeeOptions,
+} from "../src/fees";
+import { Amora } from "../src/contracts";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const DESTINATION = "0xdead";
+
+/**
+ * A fee estimate with the given unit, suggested max fee and L1 gas bounds
+ */
+function estimate(unit: "WEI" | "FRI", suggestedMaxFee: bigint, l1Amount = 0n, l1Price = 0n) {
+  const hex = (n: bigint) => "0x" + n.toString(16);
+  return {
+    unit,
+    overall_fee: suggestedMaxFee,
+    suggestedMaxFee,
+    resourceBounds: {
+      l1_gas: { max_amount: hex(l1Amount), max_price_per_unit: hex(l1Price) },
+      l2_gas: { max_amount: "0x0", max_price_per_unit: "0x0" },
+    },
+  } as never;
+}
+
+describe("fees", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("feeTokenForUnit", () => {
+    it("should map WEI to ETH and FRI to STRK", () => {
+      expect(feeTokenForUnit("WEI")).toBe(ETH_TOKEN_ADDRESS);
+      expect(feeTokenForUnit("FRI")).toBe(STRK_TOKEN_ADDRESS);
+      expect(() => feeTokenForUnit("USD")).toThrow("Unknown fee unit");
+    });
+  });
+
+  describe("maxFeeOf", () => {
+    it("should use the suggested max fee for WEI estimates", () => {
+      expect(maxFeeOf(estimate("WEI", 500n, 10n, 10n))).toBe(500n);
+    });
+
+    it("should use the resource bounds for FRI estimates", () => {
+      expect(maxFeeOf(estimate("FRI", 500n, 30n, 40n))).toBe(1200n);
+    });
+  });
+
+  describe("reserveFees", () => {
+    const fees = withdrawalFees(estimate("WEI", 30n), estimate("WEI", 70n));
+
+    it("should reserve deploy and withdraw fees from the fee token only", () => {
+      expect(fees.totalFee).toBe(100n);
+      expect(
+        reserveFees(
+          [
+            { token: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7", amount: 1000n },
+            { token: STRK_TOKEN_ADDRESS, amount: 5n },
+          ],
+          fees
+        )
+      ).toEqual([
+        { token: "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7", amount: 900n },
+        { token: STRK_TOKEN_ADDRESS, amount: 5n },
+      ]);
+    });
+
+    it("should reject a balance that cannot cover the fees", () => {
+      expect(() => reserveFees([{ token: ETH_TOKEN_ADDRESS, amount: 100n }], fees)).toThrow(
+        "Insufficient balance to cover fees: balance 100, estimated fees 100 (deploy 70 + withdraw 30)"
+      );
+    });
+  });
+
+  describe("withdrawalFeeOptions", () => {
+    it("should pay in STRK only when withdrawing STRK without ETH and no fee settings", () => {
+      expect(withdrawalFeeOptions([STRK_TOKEN_ADDRESS], {})).toEqual({ feeToken: "STRK" });
+      expect(withdrawalFeeOptions([STRK_TOKEN_ADDRESS, ETH_TOKEN_ADDRESS], {})).toEqual({});
+      expect(withdrawalFeeOptions([ETH_TOKEN_ADDRESS], {})).toEqual({});
+      expect(withdrawalFeeOptions([STRK_TOKEN_ADDRESS], { maxFee: 5n })).toEqual({ maxFee: 5n });
+    });
+  });
+
+  describe("Amora.deployAndWithdraw", () => {
+    function setup(balance: bigint, deployed: boolean) {
+      const provider = {
+        callContract: async () => ["0x" + balance.toString(16), "0x0"],
+        getClassHashAt: async () => {
+          if (deployed) return TEST_CLASS_HASH;
+          throw new Error("Contract not found");
+        },
+        waitForTransaction: vi.fn(async () => ({})),
+      };
+      const amora = new Amora({
+        provider: provider as never,
+        amoraAddress: "0x1",
+        accountClassHash: TEST_CLASS_HASH,
+      });
+
+      const deploy = vi
+        .spyOn(Account.prototype, "deployAccount")
+        .mockResolvedValue({ transaction_hash: "0xd", contract_address: "0x0" });
+      const execute = vi
+        .spyOn(Account.prototype, "execute")
+        .mockResolvedValue({ transaction_hash: "0xe" });
+      vi.spyOn(Account.prototype, "estimateFeeBulk").mockResolvedValue([
+        estimate("FRI", 0n, 10n, 4n),
+        estimate("FRI", 0n, 5n, 4n),
+      ]);
+      vi.spyOn(Account.prototype, "estimateInvokeFee").mockResolvedValue(
+        estimate("FRI", 0n, 5n, 4n)
+      );
+      const withdrawn = () => {
+        const [call] = execute.mock.calls[0][0] as Call[];
+        return BigInt((call.calldata as string[])[1]);
+      };
+      return { amora, provider, deploy, execute, withdrawn };
+    }
+
+    it("should deploy and withdraw the balance minus both fees", async () => {
+      const { amora, provider, deploy, execute, withdrawn } = setup(1000n, false);
+
+      await amora.deployAndWithdraw(123n, DESTINATION, STRK_TOKEN_ADDRESS, "all");
+
+      expect(withdrawn()).toBe(1000n - 40n - 20n);
+      expect(deploy.mock.calls[0][1]).toMatchObject({ resourceBounds: { l1_gas: { max_amount: "0xa" } } });
+      expect(execute.mock.calls[0][1]).toMatchObject({ resourceBounds: { l1_gas: { max_amount: "0x5" } } });
+      expect(provider.waitForTransaction).toHaveBeenCalledWith("0xd");
+    });
+
+    it("should reserve only the withdraw fee for a deployed account", async () => {
+      const { amora, deploy, withdrawn } = setup(1000n, true);
+
+      await amora.deployAndWithdraw(123n, DESTINATION, STRK_TOKEN_ADDRESS, "all");
+
+      expect(deploy).not.toHaveBeenCalled();
+      expect(withdrawn()).toBe(980n);
+    });
+
+    it("should withdraw the full balance of a token that does not pay fees", async () => {
+      const { amora, withdrawn } = setup(1000n, true);
+
+      await amora.deployAndWithdraw(123n, DESTINATION, ETH_TOKEN_ADDRESS, "all");
+
+      expect(withdrawn()).toBe(1000n);
+    });
+
+    it("should pay the fees of a STRK-only account in STRK by default", async () => {
+      const { amora, deploy, execute, withdrawn } = setup(1000n, false);
+      // The account holds no ETH: estimates follow the requested version
+      const estimateFeeBulk = vi
+        .spyOn(Account.prototype, "estimateFeeBulk")
+        .mockImplementation(async (_invocations, details) =>
+          details?.version === "0x100000000000000000000000000000003"
+            ? [estimate("FRI", 0n, 10n, 4n), estimate("FRI", 0n, 5n, 4n)]
+            : [estimate("WEI", 1n), estimate("WEI", 1n)]
+        );
+
+      await amora.deployAndWithdraw(123n, DESTINATION, STRK_TOKEN_ADDRESS, "all");
+
+      expect(estimateFeeBulk).toHaveBeenCalledTimes(1);
+      expect(withdrawn()).toBe(1000n - 40n - 20n);
+      expect(deploy.mock.calls[0][1]).toMatchObject({ version: "0x3" });
+      expect(execute.mock.calls[0][1]).toMatchObject({ version: "0x3" });
+    });
+
+    it("should fail clearly before deploying when fees exceed the balance", async () => {
+      const { amora, deploy, execute } = setup(50n, false);
+
+      await expect(
+        amora.deployAndWithdraw(123n, DESTINATION, STRK_TOKEN_ADDRESS, "all")
+      ).rejects.toThrow("Insufficient balance to cover fees");
+      expect(deploy).not.toHaveBeenCalled();
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+});
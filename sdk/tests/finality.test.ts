@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { RpcProvider } from "starknet";
+import {
+  fetchBlockStatus,
+  findLastBlockWithFinality,
+  isAtLeastFinality,
+  type BlockStatus,
+} from "../src/finality";
+
+function mockProvider(getBlockWithTxHashes: (block: number) => Promise<unknown>) {
+  return { getBlockWithTxHashes } as unknown as RpcProvider;
+}
+
+describe("finality", () => {
+  describe("isAtLeastFinality", () => {
+    it("should order PENDING < ACCEPTED_ON_L2 < ACCEPTED_ON_L1", () => {
+      expect(isAtLeastFinality("ACCEPTED_ON_L1", "ACCEPTED_ON_L2")).toBe(true);
+      expect(isAtLeastFinality("ACCEPTED_ON_L2", "ACCEPTED_ON_L2")).toBe(true);
+      expect(isAtLeastFinality("PENDING", "ACCEPTED_ON_L2")).toBe(false);
+      expect(isAtLeastFinality("ACCEPTED_ON_L2", "ACCEPTED_ON_L1")).toBe(false);
+    });
+  });
+
+  describe("fetchBlockStatus", () => {
+    it("should return the block hash and status", async () => {
+      const provider = mockProvider(async () => ({
+        block_hash: "0xabc",
+        status: "ACCEPTED_ON_L2",
+      }));
+
+      expect(await fetchBlockStatus(provider, 5)).toEqual({
+        blockNumber: 5,
+        blockHash: "0xabc",
+        finality: "ACCEPTED_ON_L2",
+      });
+    });
+
+    it("should return null for rejected or missing blocks", async () => {
+      const rejected = mockProvider(async () => ({ block_hash: "0x1", status: "REJECTED" }));
+      const missing = mockProvider(async () => {
+        throw new Error("RPC: starknet_getBlockWithTxHashes 24: Block not found");
+      });
+
+      expect(await fetchBlockStatus(rejected, 1)).toBeNull();
+      expect(await fetchBlockStatus(missing, 1)).toBeNull();
+    });
+
+    it("should rethrow other errors", async () => {
+      const provider = mockProvider(async () => {
+        throw new Error("network down");
+      });
+
+      await expect(fetchBlockStatus(provider, 1)).rejects.toThrow("network down");
+    });
+  });
+
+  describe("findLastBlockWithFinality", () => {
+    const statusUpTo =
+      (l1Block: number) =>
+      async (blockNumber: number): Promise<BlockStatus> => ({
+        blockNumber,
+        blockHash: "0x" + blockNumber.toString(16),
+        finality: blockNumber <= l1Block ? "ACCEPTED_ON_L1" : "ACCEPTED_ON_L2",
+      });
+
+    it("should find the highest L1-accepted block", async () => {
+      expect(await findLastBlockWithFinality(statusUpTo(777), 0, 1000, "ACCEPTED_ON_L1")).toBe(777);
+    });
+
+    it("should return fromBlock - 1 when no block matches", async () => {
+      expect(await findLastBlockWithFinality(statusUpTo(5), 10, 20, "ACCEPTED_ON_L1")).toBe(9);
+    });
+
+    it("should return toBlock when every block matches", async () => {
+      expect(await findLastBlockWithFinality(statusUpTo(50), 10, 20, "ACCEPTED_ON_L1")).toBe(20);
+    });
+  });
+});
@@ -1,11 +1,66 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { Account } from "starknet";
 import {
   generateKeyPair,
   generateKeys,
   keyPairFromPrivateKey,
   keysFromPrivateKeys,
+  generateMnemonic,
+  isValidMnemonic,
+  keysFromMnemonic,
+  keysFromSeed,
+  stealthKeyPath,
+  importKeyPair,
+  importKeys,
 } from "../src/keys";
-import { derivePublicKey } from "../src/crypto";
+import {
+  derivePublicKey,
+  normalizePrivateKey,
+  isNormalizedPrivateKey,
+  generatePrivateKey,
+  CURVE_ORDER,
+} from "../src/crypto";
+import { MetaAddressConflictError, NonNormalizedKeyError } from "../src/errors";
+import { SCHEME_ID_SECP256K1 } from "../src/schemes";
+import { encodeMetaAddress, parseMetaAddress } from "../src/meta-address";
+import { generateStealthAddress, scanAnnouncements } from "../src/stealth";
+import { Amora } from "../src/contracts";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+
+/**
+ * A private key whose public key has an odd y-coordinate
+ */
+function oddKey(): bigint {
+  // Negating a normalized key flips the parity of y
+  return CURVE_ORDER - generatePrivateKey();
+}
+
+/**
+ * Send a payment to keys and scan it back with the same keys
+ */
+function receive(keys: ReturnType<typeof generateKeys>) {
+  const stealth = generateStealthAddress(parseMetaAddress(encodeMetaAddress(keys)), TEST_CLASS_HASH);
+  const [payment] = scanAnnouncements(
+    [{ ...stealth, metadata: [] }],
+    keys.viewingKey.privateKey,
+    keys.spendingKey.publicKey,
+    keys.spendingKey.privateKey,
+    TEST_CLASS_HASH
+  );
+  return payment;
+}
+
+const TEST_MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+// Pinned so any change to the derivation scheme is caught (it would lose users' funds)
+const PINNED_SPENDING_KEY =
+  0x387e474936cfd1030373b4249269e95b4a8bd9dba6d3c793f83dfc55825e74en;
+const PINNED_VIEWING_KEY =
+  0x6c0b386dcca96156e111be21d8c74aaff1c7e0aa5f619650164b0d48982debn;
 
 describe("keys", () => {
   describe("generateKeyPair", () => {
@@ -77,4 +132,250 @@ describe("keys", () => {
       expect(keys.viewingKey.publicKey).toBe(derivePublicKey(viewingPrivate));
     });
   });
+
+  describe("importKeys", () => {
+    it("should keep normalized keys", () => {
+      const spending = generatePrivateKey();
+      const viewing = generatePrivateKey();
+
+      const imported = importKeys(spending, viewing);
+
+      expect(imported.keys).toEqual(keysFromPrivateKeys(spending, viewing));
+      expect(imported.wasNormalized).toEqual({ spendingKey: false, viewingKey: false });
+    });
+
+    it("should normalize keys with an odd y-coordinate", () => {
+      const spending = oddKey();
+      const viewing = generatePrivateKey();
+
+      const imported = importKeys(spending, viewing);
+
+      expect(isNormalizedPrivateKey(spending)).toBe(false);
+      expect(imported.keys.spendingKey.privateKey).toBe(CURVE_ORDER - spending);
+      expect(imported.keys.spendingKey.publicKey).toBe(derivePublicKey(spending));
+      expect(imported.wasNormalized).toEqual({ spendingKey: true, viewingKey: false });
+    });
+
+    it("should reject non-normalized keys on request", () => {
+      expect(() => importKeys(generatePrivateKey(), oddKey(), { parity: "reject" })).toThrow(
+        NonNormalizedKeyError
+      );
+      expect(() => importKeyPair(oddKey(), { parity: "reject" }, "spending private key")).toThrow(
+        "The spending private key is not normalized"
+      );
+    });
+
+    it("should make payments to a non-normalized key spendable", () => {
+      const spending = oddKey();
+      const viewing = generatePrivateKey();
+
+      const raw = receive(keysFromPrivateKeys(spending, viewing));
+      const imported = receive(importKeys(spending, viewing).keys);
+
+      expect(derivePublicKey(raw.stealthPrivateKey)).not.toBe(raw.stealthPubKey);
+      expect(derivePublicKey(imported.stealthPrivateKey)).toBe(imported.stealthPubKey);
+    });
+  });
+
+  describe("Amora key migration", () => {
+    const amora = new Amora({
+      provider: {} as never,
+      amoraAddress: "0x1",
+      accountClassHash: TEST_CLASS_HASH,
+    });
+    const account = new Account({} as never, "0xabc", "0x1");
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    /**
+     * Make the registry hold a meta-address of keys (or nothing)
+     */
+    function registered(keys: ReturnType<typeof generateKeys> | null) {
+      vi.spyOn(Amora.prototype, "getMetaAddress").mockResolvedValue(
+        keys && parseMetaAddress(encodeMetaAddress(keys))
+      );
+    }
+
+    it("should report a meta-address registered from a non-normalized key", async () => {
+      const keys = keysFromPrivateKeys(oddKey(), generatePrivateKey());
+      registered(keys);
+
+      expect(await amora.checkKeyParity("0xabc", keys)).toEqual({
+        registered: true,
+        matchesKeys: true,
+        spendingKeyNormalized: false,
+        viewingKeyNormalized: true,
+        needsMigration: true,
+      });
+    });
+
+    it("should not flag normalized or unregistered keys", async () => {
+      const keys = generateKeys();
+      registered(keys);
+      expect((await amora.checkKeyParity("0xabc", keys)).needsMigration).toBe(false);
+
+      registered(null);
+      const report = await amora.checkKeyParity("0xabc", keysFromPrivateKeys(oddKey(), 1n));
+      expect(report).toMatchObject({ registered: false, matchesKeys: false, needsMigration: false });
+    });
+
+    it("should migrate without re-registering an unchanged meta-address", async () => {
+      const execute = vi.spyOn(Account.prototype, "execute");
+      const keys = keysFromPrivateKeys(oddKey(), generatePrivateKey());
+      registered(keys);
+
+      const result = await amora.migrateKeys(account, keys);
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(result.transactionResponse).toBeUndefined();
+      expect(result.report.needsMigration).toBe(true);
+      expect(isNormalizedPrivateKey(result.keys.spendingKey.privateKey)).toBe(true);
+      expect(result.keys.spendingKey.publicKey).toBe(keys.spendingKey.publicKey);
+    });
+
+    it("should only flag a non-normalized spending key", async () => {
+      const keys = keysFromPrivateKeys(generatePrivateKey(), oddKey());
+      registered(keys);
+
+      const report = await amora.checkKeyParity("0xabc", keys);
+
+      expect(report).toMatchObject({ viewingKeyNormalized: false, needsMigration: false });
+    });
+
+    it("should check and migrate keys of another scheme on its own curve", async () => {
+      const ethKeys = generateKeys(SCHEME_ID_SECP256K1);
+      // Negating a normalized key flips the parity of y
+      const keys = {
+        ...ethKeys,
+        spendingKey: {
+          ...ethKeys.spendingKey,
+          privateKey: secp256k1.CURVE.n - ethKeys.spendingKey.privateKey,
+        },
+      };
+      // The registry records public keys only
+      vi.spyOn(Amora.prototype, "getMetaAddress").mockResolvedValue({
+        spendingPubKey: keys.spendingKey.publicKey,
+        viewingPubKey: keys.viewingKey.publicKey,
+      } as never);
+
+      expect(await amora.checkKeyParity("0xabc", ethKeys)).toMatchObject({
+        spendingKeyNormalized: true,
+        needsMigration: false,
+      });
+      const result = await amora.migrateKeys(account, keys);
+
+      expect(result.report).toMatchObject({ spendingKeyNormalized: false, needsMigration: true });
+      expect(result.keys).toEqual(ethKeys);
+    });
+
+    it("should not replace a meta-address of other keys", async () => {
+      const execute = vi.spyOn(Account.prototype, "execute");
+      registered(generateKeys());
+
+      const error = await amora
+        .migrateKeys(account, keysFromPrivateKeys(oddKey(), generatePrivateKey()))
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(MetaAddressConflictError);
+      expect(error.registrantAddress).toBe("0xabc");
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it("should register the normalized keys when the account has none registered", async () => {
+      const execute = vi
+        .spyOn(Account.prototype, "execute")
+        .mockResolvedValue({ transaction_hash: "0x1" });
+      const keys = keysFromPrivateKeys(oddKey(), generatePrivateKey());
+      registered(null);
+
+      const result = await amora.migrateKeys(account, keys, { feeToken: "STRK" });
+
+      expect(result.transactionResponse).toEqual({ transaction_hash: "0x1" });
+      const [calls, details] = execute.mock.calls[0];
+      expect((calls as { entrypoint: string; calldata: string[] }[])[0]).toMatchObject({
+        entrypoint: "register_keys",
+        calldata: [
+          "0x" + keys.spendingKey.publicKey.toString(16),
+          "0x" + keys.viewingKey.publicKey.toString(16),
+        ],
+      });
+      expect(details).toEqual({ version: "0x3" });
+    });
+  });
+
+  describe("generateMnemonic", () => {
+    it("should generate valid 12 and 24 word mnemonics", () => {
+      const short = generateMnemonic();
+      const long = generateMnemonic(256);
+
+      expect(short.split(" ")).toHaveLength(12);
+      expect(long.split(" ")).toHaveLength(24);
+      expect(isValidMnemonic(short)).toBe(true);
+      expect(isValidMnemonic(long)).toBe(true);
+      expect(generateMnemonic()).not.toBe(short);
+    });
+
+    it("should reject a bad checksum", () => {
+      expect(isValidMnemonic(TEST_MNEMONIC.replace(/about$/, "abandon"))).toBe(false);
+    });
+  });
+
+  describe("stealthKeyPath", () => {
+    it("should build versioned per-account paths", () => {
+      expect(stealthKeyPath("spending")).toBe("m/2645'/1195502025'/1917839802'/1'/0'/0");
+      expect(stealthKeyPath("viewing", 3)).toBe("m/2645'/1195502025'/1917839802'/1'/3'/1");
+    });
+  });
+
+  describe("keysFromMnemonic", () => {
+    it("should derive the same keys every time", () => {
+      const keys = keysFromMnemonic(TEST_MNEMONIC);
+
+      expect(keysFromMnemonic(TEST_MNEMONIC)).toEqual(keys);
+      expect(keysFromMnemonic(`  ${TEST_MNEMONIC.toUpperCase()} `)).toEqual(keys);
+      expect(keys.spendingKey.privateKey).toBe(PINNED_SPENDING_KEY);
+      expect(keys.viewingKey.privateKey).toBe(PINNED_VIEWING_KEY);
+    });
+
+    it("should derive normalized keys in the curve order", () => {
+      for (let accountIndex = 0; accountIndex < 4; accountIndex++) {
+        const keys = keysFromMnemonic(TEST_MNEMONIC, { accountIndex });
+        for (const { privateKey, publicKey } of [keys.spendingKey, keys.viewingKey]) {
+          expect(privateKey > 0n && privateKey < CURVE_ORDER).toBe(true);
+          expect(normalizePrivateKey(privateKey)).toBe(privateKey);
+          expect(publicKey).toBe(derivePublicKey(privateKey));
+        }
+      }
+    });
+
+    it("should derive independent keys per account and passphrase", () => {
+      const base = keysFromMnemonic(TEST_MNEMONIC);
+      const account1 = keysFromMnemonic(TEST_MNEMONIC, { accountIndex: 1 });
+      const withPassphrase = keysFromMnemonic(TEST_MNEMONIC, { passphrase: "secret" });
+
+      expect(base.spendingKey.privateKey).not.toBe(base.viewingKey.privateKey);
+      expect(account1.spendingKey.privateKey).not.toBe(base.spendingKey.privateKey);
+      expect(withPassphrase.spendingKey.privateKey).not.toBe(base.spendingKey.privateKey);
+    });
+
+    it("should reject invalid mnemonics, accounts and versions", () => {
+      expect(() => keysFromMnemonic("not a real mnemonic")).toThrow("Invalid mnemonic");
+      expect(() => keysFromMnemonic(TEST_MNEMONIC, { accountIndex: -1 })).toThrow(
+        "Invalid account index"
+      );
+      expect(() => keysFromMnemonic(TEST_MNEMONIC, { version: 2 })).toThrow(
+        "Unsupported key derivation version"
+      );
+    });
+  });
+
+  describe("keysFromSeed", () => {
+    it("should derive deterministically from a raw seed", () => {
+      const seed = new Uint8Array(64).fill(7);
+      expect(keysFromSeed(seed)).toEqual(keysFromSeed(seed));
+      expect(keysFromSeed(seed)).not.toEqual(keysFromMnemonic(TEST_MNEMONIC));
+    });
+  });
 });
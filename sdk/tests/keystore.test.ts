@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import {
+  encryptKeys,
+  decryptKeys,
+  KEYSTORE_VERSION,
+  type Keystore,
+} from "../src/keystore";
+import { generateKeys } from "../src/keys";
+import { SCHEME_ID_SECP256K1 } from "../src/schemes";
+
+// Keep the KDF cheap in tests
+const options = { iterations: 1000 };
+
+describe("keystore", () => {
+  const keys = generateKeys();
+
+  it("should round-trip full keys", async () => {
+    const json = await encryptKeys(keys, "correct horse", options);
+
+    expect(await decryptKeys(json, "correct horse")).toEqual(keys);
+  });
+
+  it("should not contain the private keys in plaintext", async () => {
+    const json = await encryptKeys(keys, "correct horse", options);
+
+    expect(json).not.toContain(keys.spendingKey.privateKey.toString(16));
+    expect(json).not.toContain(keys.viewingKey.privateKey.toString(16));
+  });
+
+  it("should write a versioned keystore with public keys and KDF parameters", async () => {
+    const keystore = JSON.parse(await encryptKeys(keys, "pw", options)) as Keystore;
+
+    expect(keystore.version).toBe(KEYSTORE_VERSION);
+    expect(keystore.type).toBe("full");
+    expect(BigInt(keystore.spendingPubKey)).toBe(keys.spendingKey.publicKey);
+    expect(BigInt(keystore.viewingPubKey)).toBe(keys.viewingKey.publicKey);
+    expect(keystore.crypto.kdf).toBe("pbkdf2");
+    expect(keystore.crypto.kdfparams.iterations).toBe(1000);
+    expect(keystore.crypto.cipher).toBe("aes-256-gcm");
+  });
+
+  it("should use a fresh salt and IV each time", async () => {
+    const a = JSON.parse(await encryptKeys(keys, "pw", options)) as Keystore;
+    const b = JSON.parse(await encryptKeys(keys, "pw", options)) as Keystore;
+
+    expect(a.crypto.kdfparams.salt).not.toBe(b.crypto.kdfparams.salt);
+    expect(a.crypto.cipherparams.iv).not.toBe(b.crypto.cipherparams.iv);
+    expect(a.crypto.ciphertext).not.toBe(b.crypto.ciphertext);
+  });
+
+  it("should encrypt only the viewing half for watch-only devices", async () => {
+    const json = await encryptKeys(keys, "pw", { ...options, viewingOnly: true });
+
+    expect(JSON.parse(json).type).toBe("viewing");
+    expect(await decryptKeys(json, "pw")).toEqual({
+      chain: "starknet",
+      viewingPrivateKey: keys.viewingKey.privateKey,
+      spendingPubKey: keys.spendingKey.publicKey,
+    });
+  });
+
+  it("should round-trip keys of another scheme with their scheme ID", async () => {
+    const ethKeys = generateKeys(SCHEME_ID_SECP256K1);
+    const json = await encryptKeys(ethKeys, "pw", options);
+    const viewingJson = await encryptKeys(ethKeys, "pw", { ...options, viewingOnly: true });
+
+    expect(BigInt(JSON.parse(json).schemeId)).toBe(SCHEME_ID_SECP256K1);
+    expect(await decryptKeys(json, "pw")).toEqual(ethKeys);
+    expect(await decryptKeys(viewingJson, "pw")).toMatchObject({
+      spendingPubKey: ethKeys.spendingKey.publicKey,
+      schemeId: SCHEME_ID_SECP256K1,
+    });
+
+    // The scheme is authenticated with the ciphertext
+    const tampered = { ...JSON.parse(json), schemeId: undefined };
+    await expect(decryptKeys(tampered, "pw")).rejects.toThrow("tampered");
+  });
+
+  it("should reject a wrong password", async () => {
+    const json = await encryptKeys(keys, "pw", options);
+
+    await expect(decryptKeys(json, "wrong")).rejects.toThrow("Invalid keystore password");
+  });
+
+  it("should detect a tampered header", async () => {
+    const keystore = JSON.parse(await encryptKeys(keys, "pw", options)) as Keystore;
+    keystore.type = "viewing";
+
+    await expect(decryptKeys(keystore, "pw")).rejects.toThrow("tampered");
+  });
+
+  it("should detect a tampered ciphertext", async () => {
+    const keystore = JSON.parse(await encryptKeys(keys, "pw", options)) as Keystore;
+    const last = keystore.crypto.ciphertext.slice(-1) === "0" ? "1" : "0";
+    keystore.crypto.ciphertext = keystore.crypto.ciphertext.slice(0, -1) + last;
+
+    await expect(decryptKeys(keystore, "pw")).rejects.toThrow();
+  });
+
+  it("should reject unsupported versions and malformed input", async () => {
+    const keystore = JSON.parse(await encryptKeys(keys, "pw", options)) as Keystore;
+
+    await expect(decryptKeys({ ...keystore, version: 2 }, "pw")).rejects.toThrow(
+      "Unsupported keystore version"
+    );
+    await expect(
+      decryptKeys({ ...keystore, crypto: { ...keystore.crypto, kdf: "scrypt" as "pbkdf2" } }, "pw")
+    ).rejects.toThrow("unsupported or missing crypto parameters");
+    await expect(decryptKeys("not json", "pw")).rejects.toThrow("not valid JSON");
+  });
+
+  it("should treat equivalent Unicode passwords as equal", async () => {
+    // Precomposed vs combining accent
+    const json = await encryptKeys(keys, "caf\u00e9", options);
+
+    expect(await decryptKeys(json, "cafe\u0301")).toEqual(keys);
+  });
+});
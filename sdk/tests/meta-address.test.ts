@@ -1,13 +1,33 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import {
   encodeMetaAddress,
   encodeMetaAddressFromPubKeys,
   parseMetaAddress,
   isValidMetaAddress,
+  networkFromChainId,
   META_ADDRESS_PREFIX,
   CHAIN_ID,
+  NETWORK_MAINNET,
+  NETWORK_SEPOLIA,
 } from "../src/meta-address";
 import { generateKeys } from "../src/keys";
+import { SCHEME_ID_STARK } from "../src/crypto";
+import { Amora } from "../src/contracts";
+import { NetworkMismatchError, UnresolvedNetworkError } from "../src/errors";
+
+const SEPOLIA_CHAIN_ID = "0x534e5f5345504f4c4941";
+
+/**
+ * Amora over a provider connected to Sepolia
+ */
+function sepoliaAmora() {
+  const provider = { getChainId: async () => SEPOLIA_CHAIN_ID };
+  return new Amora({
+    provider: provider as never,
+    amoraAddress: "0x1",
+    accountClassHash: "0x1234",
+  });
+}
 
 describe("meta-address", () => {
   describe("encodeMetaAddress", () => {
@@ -36,11 +56,11 @@ describe("meta-address", () => {
 
   describe("parseMetaAddress", () => {
     it("should parse a valid meta-address", () => {
-      const metaAddress = "st:starknet:0x123:0x456";
+      const metaAddress = "st:starknet:0xabc:0x456";
       const parsed = parseMetaAddress(metaAddress);
 
       expect(parsed.chain).toBe("starknet");
-      expect(parsed.spendingPubKey).toBe(0x123n);
+      expect(parsed.spendingPubKey).toBe(0xabcn);
       expect(parsed.viewingPubKey).toBe(0x456n);
     });
 
@@ -78,9 +98,134 @@ describe("meta-address", () => {
     });
   });
 
+  describe("v2", () => {
+    it("should encode the network and a checksum", () => {
+      const metaAddress = encodeMetaAddressFromPubKeys(0xabcn, 0x456n, {
+        network: NETWORK_SEPOLIA,
+      });
+
+      expect(metaAddress).toMatch(/^st:starknet:v2:SN_SEPOLIA:0xabc:0x456:[0-9a-f]{8}$/);
+      expect(parseMetaAddress(metaAddress)).toEqual({
+        chain: "starknet",
+        spendingPubKey: 0xabcn,
+        viewingPubKey: 0x456n,
+        network: NETWORK_SEPOLIA,
+      });
+    });
+
+    it("should round-trip a scheme ID", () => {
+      const keys = generateKeys();
+      const schemeId = BigInt(SCHEME_ID_STARK);
+      const metaAddress = encodeMetaAddress(keys, { network: NETWORK_MAINNET, schemeId });
+
+      expect(metaAddress.split(":")).toHaveLength(8);
+      expect(parseMetaAddress(metaAddress)).toMatchObject({
+        spendingPubKey: keys.spendingKey.publicKey,
+        network: NETWORK_MAINNET,
+        schemeId,
+      });
+    });
+
+    it("should reject a mistyped key or network", () => {
+      const metaAddress = encodeMetaAddressFromPubKeys(0xabcn, 0x456n, {
+        network: NETWORK_SEPOLIA,
+      });
+
+      expect(() => parseMetaAddress(metaAddress.replace("0xabc", "0xabd"))).toThrow(
+        "Invalid meta-address checksum"
+      );
+      expect(() => parseMetaAddress(metaAddress.replace("SN_SEPOLIA", "SN_MAIN"))).toThrow(
+        "Invalid meta-address checksum"
+      );
+    });
+
+    it("should reject malformed v2 meta-addresses", () => {
+      expect(() => parseMetaAddress("st:starknet:v2:SN_MAIN:0x1:0x2")).toThrow(
+        "Invalid meta-address format"
+      );
+      expect(() => parseMetaAddress("st:starknet:v2:SN MAIN:0x1:0x2:00000000")).toThrow(
+        "Invalid meta-address network"
+      );
+      expect(() => encodeMetaAddressFromPubKeys(1n, 2n, { schemeId: 1n })).toThrow(
+        "A scheme ID requires a v2 meta-address"
+      );
+    });
+
+    it("should name networks by chain ID", () => {
+      expect(networkFromChainId(SEPOLIA_CHAIN_ID)).toBe(NETWORK_SEPOLIA);
+      expect(networkFromChainId("0x534e5f4d41494e")).toBe(NETWORK_MAINNET);
+    });
+  });
+
+  describe("Amora network check", () => {
+    it("should send to meta-addresses of the connected network", async () => {
+      const amora = sepoliaAmora();
+      const keys = generateKeys();
+
+      const metaAddress = await amora.encodeMetaAddress(keys);
+
+      expect(parseMetaAddress(metaAddress).network).toBe(NETWORK_SEPOLIA);
+      expect(amora.generateStealthAddress(metaAddress).stealthAddress).toMatch(/^0x/);
+    });
+
+    it("should reject a meta-address of another network", async () => {
+      const amora = sepoliaAmora();
+      await amora.getNetwork();
+      const metaAddress = encodeMetaAddress(generateKeys(), { network: NETWORK_MAINNET });
+
+      expect(() => amora.generateStealthAddress(metaAddress)).toThrow(NetworkMismatchError);
+      await expect(
+        amora.batchSend({} as never, [{ metaAddress, tokenAddress: "0x1", amount: 1n }])
+      ).rejects.toMatchObject({ code: "NETWORK_MISMATCH", expected: "SN_SEPOLIA", actual: "SN_MAIN" });
+    });
+
+    it("should resolve the network before sending to a v2 meta-address", async () => {
+      const amora = sepoliaAmora();
+      const execute = vi.fn(async () => ({ transaction_hash: "0xe" }));
+      const account = { address: "0xabc", execute } as never;
+      const sepolia = amora.generateStealthAddress(
+        encodeMetaAddress(generateKeys(), { network: NETWORK_SEPOLIA })
+      );
+      const mainnet = amora.generateStealthAddress(
+        encodeMetaAddress(generateKeys(), { network: NETWORK_MAINNET })
+      );
+
+      expect(sepolia.network).toBe(NETWORK_SEPOLIA);
+      expect(() => amora.buildSendCalls("0x1", 1n, sepolia)).toThrow(UnresolvedNetworkError);
+      await amora.send(account, "0x1", 1n, sepolia);
+      expect(execute).toHaveBeenCalledTimes(1);
+      await expect(amora.send(account, "0x1", 1n, mainnet)).rejects.toThrow(NetworkMismatchError);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it("should check the network when generating once it is known", () => {
+      const metaAddress = encodeMetaAddress(generateKeys(), { network: NETWORK_SEPOLIA });
+
+      expect(
+        new Amora({
+          provider: {} as never,
+          amoraAddress: "0x1",
+          accountClassHash: "0x1234",
+          network: NETWORK_SEPOLIA,
+        }).generateStealthAddress(metaAddress).stealthAddress
+      ).toMatch(/^0x/);
+    });
+
+    it("should accept v1 meta-addresses on any network", () => {
+      expect(() => sepoliaAmora().generateStealthAddress(encodeMetaAddress(generateKeys()))).not.toThrow();
+    });
+
+    it("should reject unsupported schemes", async () => {
+      const amora = sepoliaAmora();
+      const metaAddress = await amora.encodeMetaAddress(generateKeys(), 0x1234n);
+
+      expect(() => amora.generateStealthAddress(metaAddress)).toThrow("Unsupported stealth scheme ID");
+    });
+  });
+
   describe("isValidMetaAddress", () => {
     it("should return true for valid meta-addresses", () => {
-      expect(isValidMetaAddress("st:starknet:0x123:0x456")).toBe(true);
+      expect(isValidMetaAddress("st:starknet:0xabc:0x456")).toBe(true);
     });
 
     it("should return false for invalid meta-addresses", () => {
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodeMetadata,
+  decodeMetadata,
+  tryDecodeMetadata,
+  isTaggedMetadata,
+  METADATA_TAG,
+  APP_TAG_START,
+} from "../src/metadata";
+import { encodeMemo } from "../src/memo";
+import { Amora } from "../src/contracts";
+import { generateKeys } from "../src/keys";
+import { encodeMetaAddress, parseMetaAddress } from "../src/meta-address";
+import { generateStealthAddress, scanAnnouncements } from "../src/stealth";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+
+describe("metadata", () => {
+  describe("encodeMetadata / decodeMetadata", () => {
+    it("should round-trip every field", () => {
+      const fields = {
+        token: STRK,
+        amount: (1n << 200n) + 7n,
+        memo: "Invoice #42 — thanks!",
+        invoiceRef: 42n,
+        nftTokenId: (1n << 255n) + 1n,
+        protocol: { version: 2, viewTagBits: 16, viewTag: 0xbeef },
+        appFields: [{ tag: APP_TAG_START + 1n, data: [1n, 2n, 3n] }],
+      };
+
+      expect(decodeMetadata(encodeMetadata(fields))).toEqual({ version: 1, ...fields });
+    });
+
+    it("should split u256 amounts into low and high felts", () => {
+      const amount = (5n << 128n) + 9n;
+      const felts = encodeMetadata({ amount });
+
+      expect(felts.slice(1)).toEqual([METADATA_TAG.AMOUNT, 2n, 9n, 5n]);
+    });
+
+    it("should tell tagged metadata from legacy metadata", () => {
+      expect(isTaggedMetadata(encodeMetadata({}))).toBe(true);
+      expect(isTaggedMetadata([BigInt(STRK), 100n])).toBe(false);
+      expect(isTaggedMetadata([])).toBe(false);
+    });
+
+    it("should skip unknown reserved tags", () => {
+      const felts = [...encodeMetadata({ invoiceRef: 7n }), 0x99n, 2n, 1n, 2n];
+
+      expect(decodeMetadata(felts)).toEqual({ version: 1, invoiceRef: 7n });
+    });
+
+    it("should reject reserved app tags", () => {
+      expect(() => encodeMetadata({ appFields: [{ tag: 3n, data: [] }] })).toThrow("reserved");
+    });
+
+    it("should reject out-of-range u256 values", () => {
+      expect(() => encodeMetadata({ amount: -1n })).toThrow("out of u256 range");
+      expect(() => encodeMetadata({ nftTokenId: 1n << 256n })).toThrow("out of u256 range");
+    });
+
+    it("should reject truncated and unsupported metadata", () => {
+      const felts = encodeMetadata({ token: STRK, amount: 1n });
+      const header = felts[0];
+
+      expect(() => decodeMetadata(felts.slice(0, -1))).toThrow("truncated");
+      expect(() => decodeMetadata([header + 1n])).toThrow("Unsupported metadata version");
+      expect(tryDecodeMetadata(felts.slice(0, -1))).toBeUndefined();
+    });
+  });
+
+  describe("legacy metadata", () => {
+    it("should decode [token, amount, ...extra]", () => {
+      const extra = encodeMemo("hello");
+
+      expect(decodeMetadata([BigInt(STRK), 100n, ...extra])).toEqual({
+        version: 0,
+        token: STRK,
+        amount: 100n,
+        extra,
+      });
+    });
+
+    it("should decode empty and partial legacy metadata", () => {
+      expect(decodeMetadata([])).toEqual({ version: 0 });
+      expect(decodeMetadata([BigInt(STRK)])).toEqual({ version: 0, token: STRK });
+    });
+  });
+
+  describe("wiring", () => {
+    const amora = new Amora({
+      provider: {} as never,
+      amoraAddress: "0x1",
+      accountClassHash: TEST_CLASS_HASH,
+    });
+    const keys = generateKeys();
+    const stealth = generateStealthAddress(
+      parseMetaAddress(encodeMetaAddress(keys)),
+      TEST_CLASS_HASH
+    );
+
+    // Announce calldata: [stealth_address, ephemeral_pubkey, view_tag, metadata_len, ...metadata]
+    const announcedMetadata = (calldata: string[]) => calldata.slice(4).map(BigInt);
+
+    it("should write tagged metadata in buildSendCalls", () => {
+      const [, announce] = amora.buildSendCalls(STRK, 1000n, stealth, {
+        memo: "coffee",
+        publicMemo: true,
+        invoiceRef: 9n,
+      });
+
+      expect(decodeMetadata(announcedMetadata(announce.calldata as string[]))).toEqual({
+        version: 1,
+        token: STRK,
+        amount: 1000n,
+        memo: "coffee",
+        invoiceRef: 9n,
+      });
+    });
+
+    it("should keep the legacy layout for raw felt metadata", () => {
+      const [, announce] = amora.buildSendCalls(STRK, 1000n, stealth, [7n]);
+
+      expect(announcedMetadata(announce.calldata as string[])).toEqual([
+        BigInt(STRK),
+        1000n,
+        7n,
+      ]);
+    });
+
+    it("should attach decoded metadata to scanned payments", () => {
+      const metadata = encodeMetadata({ token: STRK, amount: 5n, memo: "hi" });
+      const [payment] = scanAnnouncements(
+        [{ ...stealth, metadata }],
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+
+      expect(payment.metadata).toEqual({ version: 1, token: STRK, amount: 5n, memo: "hi" });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi } from "vitest";
+import { scanAnnouncementsForRecipients, type ScanRecipient } from "../src/multi-scan";
+import { generateKeys } from "../src/keys";
+import {
+  generateStealthAddress,
+  scanAnnouncements,
+  type Announcement,
+} from "../src/stealth";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import { exportViewingKey, importViewingKey, scanWithViewingKey } from "../src/viewing-key";
+import { ecdh, ecdhMany, derivePublicKey, generatePrivateKey } from "../src/crypto";
+import * as accountClasses from "../src/account-classes";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+
+function announce(keys: ReturnType<typeof generateKeys>, blockNumber: number): Announcement {
+  const meta = parseMetaAddress(encodeMetaAddress(keys));
+  const result = generateStealthAddress(meta, TEST_CLASS_HASH);
+  return {
+    stealthAddress: result.stealthAddress,
+    ephemeralPubKey: result.ephemeralPubKey,
+    viewTag: result.viewTag,
+    metadata: [],
+    blockNumber,
+  };
+}
+
+describe("multi-scan", () => {
+  describe("ecdhMany", () => {
+    it("should match ecdh for each private key", () => {
+      const publicKey = derivePublicKey(generatePrivateKey());
+      const privateKeys = [generatePrivateKey(), generatePrivateKey(), generatePrivateKey()];
+
+      expect(ecdhMany(privateKeys, publicKey)).toEqual(
+        privateKeys.map((k) => ecdh(k, publicKey))
+      );
+    });
+  });
+
+  describe("scanAnnouncementsForRecipients", () => {
+    const alice = generateKeys();
+    const bob = generateKeys();
+    const carol = generateKeys();
+    const announcements = [announce(alice, 1), announce(bob, 2), announce(alice, 3), announce(generateKeys(), 4)];
+
+    it("should tag matches by recipient ID", () => {
+      const recipients: ScanRecipient[] = [
+        { id: "alice", keys: alice },
+        { id: "bob", keys: bob },
+        { id: "carol", keys: carol },
+      ];
+
+      const matches = scanAnnouncementsForRecipients(announcements, recipients, TEST_CLASS_HASH);
+
+      expect(matches.map((m) => [m.recipientId, m.announcement.blockNumber])).toEqual([
+        ["alice", 1],
+        ["bob", 2],
+        ["alice", 3],
+      ]);
+    });
+
+    it("should agree with scanAnnouncements for full keys", () => {
+      const matches = scanAnnouncementsForRecipients(
+        announcements,
+        [{ id: "alice", keys: alice }],
+        TEST_CLASS_HASH
+      );
+      const expected = scanAnnouncements(
+        announcements,
+        alice.viewingKey.privateKey,
+        alice.spendingKey.publicKey,
+        alice.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+
+      expect(matches.map((m) => m.stealthPrivateKey)).toEqual(
+        expected.map((p) => p.stealthPrivateKey)
+      );
+    });
+
+    it("should support viewing keys without deriving private keys", () => {
+      const viewingKey = importViewingKey(exportViewingKey(bob));
+
+      const matches = scanAnnouncementsForRecipients(
+        announcements,
+        [{ id: "bob-watch", keys: viewingKey }],
+        TEST_CLASS_HASH
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].stealthPrivateKey).toBeUndefined();
+      expect(matches[0].stealthPubKey).toBe(
+        scanWithViewingKey(announcements, viewingKey, TEST_CLASS_HASH)[0].stealthPubKey
+      );
+    });
+
+    it("should only derive addresses for view tag matches", () => {
+      const spy = vi.spyOn(accountClasses, "matchAccountClass");
+      try {
+        scanAnnouncementsForRecipients(
+          announcements,
+          [
+            { id: "alice", keys: alice },
+            { id: "bob", keys: bob },
+            { id: "carol", keys: carol },
+          ],
+          TEST_CLASS_HASH
+        );
+
+        // 12 pairs, 3 real matches; false view tag hits are rare (1/256 each)
+        expect(spy.mock.calls.length).toBeGreaterThanOrEqual(3);
+        expect(spy.mock.calls.length).toBeLessThan(12);
+      } finally {
+        spy.mockRestore();
+      }
+    });
+
+    it("should return nothing for no recipients", () => {
+      expect(scanAnnouncementsForRecipients(announcements, [], TEST_CLASS_HASH)).toEqual([]);
+    });
+  });
+});
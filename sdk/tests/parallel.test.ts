@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import {
+  scanAnnouncementsParallel,
+  handleScanWorkerRequest,
+  runScanTask,
+  type ScanTask,
+  type ScanWorker,
+  type ScanWorkerFactory,
+} from "../src/parallel";
+import { generateKeys } from "../src/keys";
+import {
+  generateStealthAddress,
+  scanAnnouncements,
+  type Announcement,
+} from "../src/stealth";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+
+const keys = generateKeys();
+
+function makeAnnouncements(count: number): Announcement[] {
+  const announcements: Announcement[] = [];
+  for (let i = 0; i < count; i++) {
+    const recipient = i % 3 === 0 ? keys : generateKeys();
+    const meta = parseMetaAddress(encodeMetaAddress(recipient));
+    const stealth = generateStealthAddress(meta, TEST_CLASS_HASH);
+    announcements.push({
+      stealthAddress: stealth.stealthAddress,
+      ephemeralPubKey: stealth.ephemeralPubKey,
+      viewTag: stealth.viewTag,
+      metadata: [BigInt(i)],
+      blockNumber: i,
+    });
+  }
+  return announcements;
+}
+
+/**
+ * In-process worker factory that counts created workers and run tasks
+ */
+function inProcessFactory() {
+  const stats = { created: 0, tasks: 0, terminated: 0 };
+  const factory: ScanWorkerFactory = () => {
+    stats.created++;
+    const worker: ScanWorker = {
+      run: async (task: ScanTask) => {
+        stats.tasks++;
+        // Yield so tasks from different workers interleave
+        await new Promise((r) => setTimeout(r, 0));
+        return runScanTask(task);
+      },
+      terminate: () => {
+        stats.terminated++;
+      },
+    };
+    return worker;
+  };
+  return { factory, stats };
+}
+
+const scanSerial = (announcements: Announcement[]) =>
+  scanAnnouncements(
+    announcements,
+    keys.viewingKey.privateKey,
+    keys.spendingKey.publicKey,
+    keys.spendingKey.privateKey,
+    TEST_CLASS_HASH
+  );
+
+const scanParallel = (
+  announcements: Announcement[],
+  options: Parameters<typeof scanAnnouncementsParallel>[5]
+) =>
+  scanAnnouncementsParallel(
+    announcements,
+    keys.viewingKey.privateKey,
+    keys.spendingKey.publicKey,
+    keys.spendingKey.privateKey,
+    TEST_CLASS_HASH,
+    options
+  );
+
+describe("parallel", () => {
+  const announcements = makeAnnouncements(12);
+
+  it("should match the serial scan, in the same order", async () => {
+    const { factory, stats } = inProcessFactory();
+
+    const payments = await scanParallel(announcements, {
+      workers: 3,
+      batchSize: 2,
+      workerFactory: factory,
+    });
+
+    expect(payments).toEqual(scanSerial(announcements));
+    expect(payments).toHaveLength(4);
+    expect(stats.created).toBe(3);
+    expect(stats.tasks).toBe(6);
+    expect(stats.terminated).toBe(3);
+  });
+
+  it("should scan serially with a single worker", async () => {
+    const { factory, stats } = inProcessFactory();
+
+    const payments = await scanParallel(announcements, { workers: 1, workerFactory: factory });
+
+    expect(payments).toEqual(scanSerial(announcements));
+    expect(stats.created).toBe(0);
+  });
+
+  it("should fall back to serial scanning when workers cannot be created", async () => {
+    const payments = await scanParallel(announcements, {
+      workers: 4,
+      workerFactory: () => {
+        throw new Error("Worker is not defined");
+      },
+    });
+
+    expect(payments).toEqual(scanSerial(announcements));
+  });
+
+  it("should fall back to serial scanning when the worker script is missing", async () => {
+    const payments = await scanParallel(announcements, {
+      workers: 2,
+      workerUrl: "/nonexistent/scan-worker.js",
+    });
+
+    expect(payments).toEqual(scanSerial(announcements));
+  });
+
+  it("should propagate scan errors from workers", async () => {
+    const failing: ScanWorkerFactory = () => ({
+      run: async () => {
+        throw new Error("Invalid point: x-coordinate not on curve");
+      },
+      terminate: () => {},
+    });
+
+    await expect(
+      scanParallel(announcements, { workers: 2, workerFactory: failing })
+    ).rejects.toThrow("not on curve");
+  });
+
+  describe("handleScanWorkerRequest", () => {
+    it("should return matches for the request id", () => {
+      const response = handleScanWorkerRequest({
+        id: 7,
+        task: {
+          announcements,
+          viewingPrivateKey: keys.viewingKey.privateKey,
+          spendingPublicKey: keys.spendingKey.publicKey,
+          spendingPrivateKey: keys.spendingKey.privateKey,
+          accountClassHash: TEST_CLASS_HASH,
+        },
+      });
+
+      expect(response.id).toBe(7);
+      expect(response.payments).toEqual(scanSerial(announcements));
+    });
+
+    it("should report errors as messages", () => {
+      const response = handleScanWorkerRequest({
+        id: 1,
+        task: {
+          announcements,
+          viewingPrivateKey: keys.viewingKey.privateKey,
+          // x = 5 is not the x-coordinate of any curve point
+          spendingPublicKey: 5n,
+          spendingPrivateKey: keys.spendingKey.privateKey,
+          accountClassHash: TEST_CLASS_HASH,
+        },
+      });
+
+      expect(response.payments).toBeUndefined();
+      expect(response.error).toBeTypeOf("string");
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ec, hash, typedData as snTypedData, type Call } from "starknet";
+import { MockPaymaster, RpcPaymaster } from "../src/paymaster";
+import { Amora } from "../src/contracts";
+import { derivePublicKey } from "../src/crypto";
+import { computeStealthContractAddress, type StealthPayment } from "../src/stealth";
+import { defineAccountClass } from "../src/account-classes";
+import { InsufficientBalanceError, UnsupportedAccountClassError } from "../src/errors";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const ETH = "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+const DESTINATION = "0xdead";
+const STEALTH_KEY = 0x1234567n;
+
+const transferAmount = (call: Call) => BigInt((call.calldata as string[])[1]);
+
+/**
+ * The default STARK layout, declared with outside execution
+ */
+const outsideExecutionClass = defineAccountClass({
+  name: "snip9",
+  classHash: TEST_CLASS_HASH,
+  outsideExecution: true,
+  constructorCalldata: (stealthPubKey) => [stealthPubKey],
+});
+
+/**
+ * Amora with a paymaster, over a provider holding `balance` of every token
+ */
+function setup(
+  paymaster: MockPaymaster,
+  balance: bigint,
+  deployed = false,
+  accountClass = outsideExecutionClass
+) {
+  const provider = {
+    callContract: async () => ["0x" + balance.toString(16), "0x0"],
+    getClassHashAt: async () => {
+      if (deployed) return TEST_CLASS_HASH;
+      throw new Error("Contract not found");
+    },
+  };
+  return new Amora({
+    provider: provider as never,
+    amoraAddress: "0x1",
+    accountClasses: [accountClass],
+    paymaster,
+  });
+}
+
+describe("paymaster", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("MockPaymaster", () => {
+    it("should append its fee transfer in the gas token", async () => {
+      const paymaster = new MockPaymaster({ fee: 7n });
+      const call: Call = { contractAddress: STRK, entrypoint: "transfer", calldata: ["0x1", "0x2", "0x0"] };
+
+      const built = await paymaster.buildTransaction(
+        { type: "invoke", invoke: { userAddress: "0xabc", calls: [call] } },
+        { mode: "default", gasToken: STRK }
+      );
+      const { transactionHash } = await paymaster.executeTransaction(
+        { type: "invoke", invoke: { userAddress: "0xabc", typedData: built.typedData!, signature: ["0x1", "0x2"] } },
+        { mode: "default", gasToken: STRK }
+      );
+
+      expect(built.fee.suggestedMaxFeeInGasToken).toBe(7n);
+      expect(built.typedData?.domain.name).toBe("Account.execute_from_outside");
+      expect(transactionHash).toBe("0x1");
+      expect(paymaster.executions[0].calls).toHaveLength(2);
+      expect(paymaster.executions[0].calls[1]).toMatchObject({ contractAddress: STRK });
+      expect(transferAmount(paymaster.executions[0].calls[1])).toBe(7n);
+    });
+
+    it("should reject unknown typed data, unsupported tokens and paid plain deploys", async () => {
+      const paymaster = new MockPaymaster({ supportedTokens: [STRK] });
+      const deployment = { address: "0xabc", classHash: "0x1", salt: "0x2", calldata: ["0x2"], version: 1 as const };
+
+      await expect(
+        paymaster.executeTransaction(
+          { type: "invoke", invoke: { userAddress: "0xabc", typedData: {} as never, signature: ["0x1"] } },
+          { mode: "sponsored" }
+        )
+      ).rejects.toThrow("unknown typed data");
+      await expect(
+        paymaster.buildTransaction(
+          { type: "invoke", invoke: { userAddress: "0xabc", calls: [] } },
+          { mode: "default", gasToken: ETH }
+        )
+      ).rejects.toThrow("unsupported gas token");
+      await expect(
+        paymaster.buildTransaction({ type: "deploy", deployment }, { mode: "default", gasToken: STRK })
+      ).rejects.toThrow("must be sponsored");
+    });
+  });
+
+  describe("Amora with a paymaster", () => {
+    it("should deploy and withdraw all minus the fee in one signed transaction", async () => {
+      const paymaster = new MockPaymaster({ fee: 25n });
+      const amora = setup(paymaster, 1000n);
+
+      const response = await amora.deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, "all");
+
+      const pubKey = derivePublicKey(STEALTH_KEY);
+      const address = computeStealthContractAddress(pubKey, TEST_CLASS_HASH);
+      const [execution] = paymaster.executions;
+      expect(response.transaction_hash).toBe(execution.transactionHash);
+      expect(execution.type).toBe("deploy_and_invoke");
+      expect(execution.userAddress).toBe(address);
+      expect(execution.deployment).toMatchObject({
+        address,
+        classHash: TEST_CLASS_HASH,
+        salt: "0x" + pubKey.toString(16),
+        calldata: ["0x" + pubKey.toString(16)],
+      });
+      expect(execution.calls.map(transferAmount)).toEqual([975n, 25n]);
+      expect(execution.feeMode).toEqual({ mode: "default", gasToken: STRK });
+    });
+
+    it("should sign the outside execution with the stealth key", async () => {
+      const paymaster = new MockPaymaster();
+      const built = vi.spyOn(paymaster, "buildTransaction");
+      const amora = setup(paymaster, 1000n);
+
+      await amora.deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, 10n);
+
+      const address = computeStealthContractAddress(derivePublicKey(STEALTH_KEY), TEST_CLASS_HASH);
+      const { typedData } = await built.mock.results[0].value;
+      const [r, s] = paymaster.executions[0].signature!.map(BigInt);
+      const messageHash = snTypedData.getMessageHash(typedData, address);
+      const fullPubKey = ec.starkCurve.getPublicKey("0x" + STEALTH_KEY.toString(16), false);
+      expect(ec.starkCurve.verify(new ec.starkCurve.Signature(r, s), messageHash, fullPubKey)).toBe(true);
+    });
+
+    it("should send a plain invoke for a deployed account", async () => {
+      const paymaster = new MockPaymaster({ fee: 5n });
+      const amora = setup(paymaster, 1000n, true);
+
+      await amora.deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, 100n);
+
+      expect(paymaster.executions[0].type).toBe("invoke");
+      expect(paymaster.executions[0].deployment).toBeUndefined();
+      expect(paymaster.executions[0].calls.map(transferAmount)).toEqual([100n, 5n]);
+    });
+
+    it("should withdraw the full balance when sponsored", async () => {
+      const paymaster = new MockPaymaster({ fee: 25n });
+      const amora = setup(paymaster, 1000n);
+
+      await amora.deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, "all", {
+        feeMode: { mode: "sponsored" },
+      });
+
+      expect(paymaster.executions[0].calls.map(transferAmount)).toEqual([1000n]);
+    });
+
+    it("should fail when the balance cannot cover the paymaster fee", async () => {
+      const paymaster = new MockPaymaster({ fee: 25n });
+      const amora = setup(paymaster, 20n);
+
+      await expect(
+        amora.deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, "all")
+      ).rejects.toThrow("Insufficient balance to cover paymaster fee: balance 20, fee 25");
+      expect(paymaster.executions).toHaveLength(0);
+    });
+
+    it("should fail when the rebuilt withdrawal costs more than the reserved fee", async () => {
+      const paymaster = new MockPaymaster({ fee: 25n });
+      const build = paymaster.buildTransaction.bind(paymaster);
+      // The second quote, of the reduced withdrawal, comes in higher
+      let quotes = 0;
+      vi.spyOn(paymaster, "buildTransaction").mockImplementation(async (transaction, feeMode) => {
+        const built = await build(transaction, feeMode);
+        return quotes++ === 0
+          ? built
+          : { ...built, fee: { ...built.fee, suggestedMaxFeeInGasToken: 30n } };
+      });
+      const amora = setup(paymaster, 1000n);
+
+      await expect(amora.deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, "all")).rejects.toThrow(
+        InsufficientBalanceError
+      );
+      expect(paymaster.executions).toHaveLength(0);
+    });
+
+    it("should sweep each account in one paymaster transaction", async () => {
+      const paymaster = new MockPaymaster({ fee: 25n });
+      const amora = setup(paymaster, 1000n);
+      const pubKey = derivePublicKey(STEALTH_KEY);
+      const address = computeStealthContractAddress(pubKey, TEST_CLASS_HASH);
+      const payment = {
+        announcement: { stealthAddress: address, ephemeralPubKey: 1n, viewTag: 0, metadata: [] },
+        stealthPrivateKey: STEALTH_KEY,
+        stealthPubKey: pubKey,
+        accountClassHash: TEST_CLASS_HASH,
+      } as unknown as StealthPayment;
+
+      const { results, totals } = await amora.sweep([payment], DESTINATION, {
+        tokens: [STRK, ETH],
+      });
+
+      const [execution] = paymaster.executions;
+      expect(paymaster.executions).toHaveLength(1);
+      expect(execution.type).toBe("deploy_and_invoke");
+      expect(execution.calls.map(transferAmount)).toEqual([975n, 1000n, 25n]);
+      expect(results[0]).toMatchObject({ status: "swept", transactionHash: execution.transactionHash });
+      expect(results[0].deployTransactionHash).toBeUndefined();
+      expect(totals.get(STRK)).toBe(975n);
+      await expect(
+        amora.sweep([payment], DESTINATION, { transactionOptions: { feeToken: "STRK" } })
+      ).rejects.toThrow("do not apply");
+    });
+
+    it("should reject withdrawals from a class without outside execution", async () => {
+      const paymaster = new MockPaymaster();
+      const amora = setup(paymaster, 1000n, false, defineAccountClass({
+        ...outsideExecutionClass,
+        outsideExecution: false,
+      }));
+
+      const error = await amora
+        .deployAndWithdraw(STEALTH_KEY, DESTINATION, STRK, 10n)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(UnsupportedAccountClassError);
+      expect(error.message).toBe(
+        'Account class "snip9" does not implement outside execution (SNIP-9), ' +
+          "which paymaster withdrawals require"
+      );
+      expect(error.classHash).toBe(TEST_CLASS_HASH);
+      expect(paymaster.executions).toHaveLength(0);
+    });
+
+    it("should sponsor a plain deployment", async () => {
+      const paymaster = new MockPaymaster({ fee: 25n });
+      const amora = setup(paymaster, 0n);
+
+      const response = await amora.deployStealthAccount(STEALTH_KEY);
+
+      expect(paymaster.executions[0]).toMatchObject({
+        type: "deploy",
+        feeMode: { mode: "sponsored" },
+        calls: [],
+      });
+      expect(response.contract_address).toBe(paymaster.executions[0].deployment?.address);
+    });
+
+    it("should reject fee options for a sponsored deployment", async () => {
+      const paymaster = new MockPaymaster();
+      const amora = setup(paymaster, 0n);
+
+      await expect(
+        amora.deployStealthAccount(STEALTH_KEY, undefined, { feeToken: "STRK" })
+      ).rejects.toThrow("Paymaster deployments are sponsored");
+      expect(paymaster.executions).toHaveLength(0);
+    });
+  });
+
+  describe("RpcPaymaster", () => {
+    it("should speak the SNIP-29 JSON-RPC API", async () => {
+      const requests: { method: string; params: Record<string, unknown> }[] = [];
+      vi.stubGlobal("fetch", async (_url: string, init: { body: string }) => {
+        const request = JSON.parse(init.body);
+        requests.push(request);
+        const result =
+          request.method === "paymaster_buildTransaction"
+            ? {
+                type: "invoke",
+                typed_data: { domain: {} },
+                fee: {
+                  gas_token_price_in_strk: "0x1",
+                  estimated_fee_in_strk: "0x2",
+                  estimated_fee_in_gas_token: "0x2",
+                  suggested_max_fee_in_strk: "0x3",
+                  suggested_max_fee_in_gas_token: "0x3",
+                },
+              }
+            : { transaction_hash: "0xabc", tracking_id: "0x1" };
+        return { ok: true, json: async () => ({ jsonrpc: "2.0", id: request.id, result }) };
+      });
+      const paymaster = new RpcPaymaster({ nodeUrl: "https://paymaster.test" });
+      const feeMode = { mode: "default" as const, gasToken: STRK };
+
+      const built = await paymaster.buildTransaction(
+        {
+          type: "invoke",
+          invoke: {
+            userAddress: "0xabc",
+            calls: [{ contractAddress: STRK, entrypoint: "transfer", calldata: ["10", "1", "0"] }],
+          },
+        },
+        feeMode
+      );
+      const executed = await paymaster.executeTransaction(
+        { type: "invoke", invoke: { userAddress: "0xabc", typedData: built.typedData!, signature: ["0x1"] } },
+        feeMode
+      );
+
+      expect(requests[0].params).toEqual({
+        transaction: {
+          type: "invoke",
+          invoke: {
+            user_address: "0xabc",
+            calls: [{ to: STRK, selector: hash.getSelectorFromName("transfer"), calldata: ["0xa", "0x1", "0x0"] }],
+          },
+        },
+        parameters: { version: "0x1", fee_mode: { mode: "default", gas_token: STRK } },
+      });
+      expect(built.fee.suggestedMaxFeeInGasToken).toBe(3n);
+      expect(requests[1].method).toBe("paymaster_executeTransaction");
+      expect(executed).toEqual({ transactionHash: "0xabc", trackingId: "0x1" });
+    });
+
+    it("should surface JSON-RPC errors", async () => {
+      vi.stubGlobal("fetch", async () => ({
+        ok: true,
+        json: async () => ({ jsonrpc: "2.0", id: 1, error: { code: 163, message: "Invalid signature" } }),
+      }));
+
+      await expect(new RpcPaymaster({ nodeUrl: "https://paymaster.test" }).isAvailable()).rejects.toThrow(
+        "Paymaster error 163: Invalid signature"
+      );
+    });
+  });
+});
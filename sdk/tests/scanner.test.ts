@@ -0,0 +1,290 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Amora } from "../src/contracts";
+import {
+  AmoraScanner,
+  MemoryScanStore,
+  JsonFileScanStore,
+  serializeScanState,
+  deserializeScanState,
+  type ScanState,
+} from "../src/scanner";
+import { generateKeys } from "../src/keys";
+import { generateStealthAddress, type Announcement } from "../src/stealth";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import type { BlockStatus } from "../src/finality";
+import { schemeAccountClass } from "../src/account-classes";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+
+function makeAnnouncement(
+  keys: ReturnType<typeof generateKeys>,
+  blockNumber: number,
+  transactionHash: string,
+  eventIndex = 0
+): Announcement {
+  const meta = parseMetaAddress(encodeMetaAddress(keys));
+  const stealth = generateStealthAddress(meta, TEST_CLASS_HASH);
+  return {
+    stealthAddress: stealth.stealthAddress,
+    ephemeralPubKey: stealth.ephemeralPubKey,
+    viewTag: stealth.viewTag,
+    metadata: [],
+    blockNumber,
+    transactionHash,
+    eventIndex,
+  };
+}
+
+/**
+ * Fake Amora serving a fixed announcement list and recording fetched ranges
+ */
+function fakeAmora(
+  announcements: Announcement[],
+  latest: { block: number; fork?: number; l1Block?: number }
+) {
+  const fetched: [number, number][] = [];
+  const amora = {
+    stealthAccountClassHash: TEST_CLASS_HASH,
+    accountClassesFor: () => [schemeAccountClass(TEST_CLASS_HASH)],
+    getBlockNumber: async () => latest.block,
+    getBlockStatus: async (blockNumber: number): Promise<BlockStatus | null> =>
+      blockNumber > latest.block
+        ? null
+        : {
+            blockNumber,
+            blockHash: `0x${blockNumber.toString(16)}f${latest.fork ?? 0}`,
+            finality:
+              blockNumber <= (latest.l1Block ?? -1) ? "ACCEPTED_ON_L1" : "ACCEPTED_ON_L2",
+          },
+    fetchAnnouncements: async (fromBlock: number, toBlock: number) => {
+      fetched.push([fromBlock, toBlock]);
+      return announcements.filter(
+        (a) => a.blockNumber! >= fromBlock && a.blockNumber! <= toBlock
+      );
+    },
+  };
+  return { amora: amora as unknown as Amora, fetched };
+}
+
+describe("scanner", () => {
+  describe("scan state serialization", () => {
+    it("should round-trip bigints", () => {
+      const keys = generateKeys();
+      const announcement = makeAnnouncement(keys, 5, "0xabc");
+      const state: ScanState = {
+        lastScannedBlock: 10,
+        payments: [
+          {
+            announcement,
+            sharedSecret: 123n,
+            stealthPrivateKey: 2n ** 250n,
+            stealthPubKey: 456n,
+          },
+        ],
+      };
+
+      expect(deserializeScanState(serializeScanState(state))).toEqual(state);
+    });
+
+    it("should reject JSON that is not a scan state", () => {
+      expect(() => deserializeScanState('{"foo":1}')).toThrow("Invalid scan state");
+    });
+  });
+
+  describe("AmoraScanner", () => {
+    it("should only fetch blocks after the checkpoint", async () => {
+      const keys = generateKeys();
+      const latest = { block: 10 };
+      const { amora, fetched } = fakeAmora([], latest);
+      const scanner = new AmoraScanner(amora, keys, { startBlock: 3 });
+
+      await scanner.scan();
+      latest.block = 15;
+      await scanner.scan();
+      await scanner.scan();
+
+      expect(fetched).toEqual([
+        [3, 10],
+        [11, 15],
+      ]);
+      expect(await scanner.getLastScannedBlock()).toBe(15);
+    });
+
+    it("should return only new matches", async () => {
+      const keys = generateKeys();
+      const other = generateKeys();
+      const announcements = [
+        makeAnnouncement(keys, 1, "0x1"),
+        makeAnnouncement(other, 2, "0x2"),
+        makeAnnouncement(keys, 6, "0x6"),
+      ];
+      const { amora } = fakeAmora(announcements, { block: 100 });
+      const scanner = new AmoraScanner(amora, keys);
+
+      const first = await scanner.scan(4);
+      const second = await scanner.scan(10);
+
+      expect(first.map((p) => p.announcement.transactionHash)).toEqual(["0x1"]);
+      expect(second.map((p) => p.announcement.transactionHash)).toEqual(["0x6"]);
+      expect(await scanner.getPayments()).toHaveLength(2);
+    });
+
+    it("should drop duplicate announcements by transaction hash and event index", async () => {
+      const keys = generateKeys();
+      const announcement = makeAnnouncement(keys, 1, "0x1");
+      const { amora } = fakeAmora(
+        [announcement, { ...announcement }, makeAnnouncement(keys, 1, "0x1", 1)],
+        { block: 5 }
+      );
+      const scanner = new AmoraScanner(amora, keys);
+
+      const payments = await scanner.scan();
+
+      expect(payments.map((p) => p.announcement.eventIndex)).toEqual([0, 1]);
+    });
+
+    it("should resume from a shared store", async () => {
+      const keys = generateKeys();
+      const store = new MemoryScanStore();
+      const announcements = [makeAnnouncement(keys, 1, "0x1")];
+      const { amora, fetched } = fakeAmora(announcements, { block: 5 });
+
+      await new AmoraScanner(amora, keys, { store }).scan();
+      const resumed = new AmoraScanner(amora, keys, { store });
+
+      expect(await resumed.scan()).toEqual([]);
+      expect(await resumed.getPayments()).toHaveLength(1);
+      expect(fetched).toHaveLength(1);
+    });
+  });
+
+  describe("reorg handling", () => {
+    it("should record block hash and finality on new payments", async () => {
+      const keys = generateKeys();
+      const latest = { block: 10, l1Block: 2 };
+      const { amora } = fakeAmora(
+        [makeAnnouncement(keys, 2, "0x2"), makeAnnouncement(keys, 7, "0x7")],
+        latest
+      );
+      const scanner = new AmoraScanner(amora, keys);
+
+      const payments = await scanner.scan();
+
+      expect(payments.map((p) => p.announcement.finality)).toEqual([
+        "ACCEPTED_ON_L1",
+        "ACCEPTED_ON_L2",
+      ]);
+      expect(payments[1].announcement.blockHash).toBe("0x7f0");
+    });
+
+    it("should promote finality once blocks are accepted on L1", async () => {
+      const keys = generateKeys();
+      const latest = { block: 10, l1Block: 0 };
+      const { amora } = fakeAmora([makeAnnouncement(keys, 5, "0x5")], latest);
+      const scanner = new AmoraScanner(amora, keys);
+
+      await scanner.scan();
+      latest.l1Block = 8;
+      latest.block = 12;
+      await scanner.scan();
+
+      const [payment] = await scanner.getPayments();
+      expect(payment.announcement.finality).toBe("ACCEPTED_ON_L1");
+    });
+
+    it("should roll back and re-emit payments when a reorg replaces blocks", async () => {
+      const keys = generateKeys();
+      const latest = { block: 10, fork: 0, l1Block: 3 };
+      const announcements = [
+        makeAnnouncement(keys, 2, "0x2"),
+        makeAnnouncement(keys, 6, "0x6"),
+        makeAnnouncement(keys, 9, "0x9"),
+      ];
+      const { amora, fetched } = fakeAmora(announcements, latest);
+      const reorgs: [string[], number][] = [];
+      const scanner = new AmoraScanner(amora, keys, {
+        onReorg: (removed, fromBlock) =>
+          reorgs.push([removed.map((p) => p.announcement.transactionHash!), fromBlock]),
+      });
+
+      await scanner.scan();
+
+      // Non-final blocks are replaced; the payment at block 9 is dropped.
+      // Block 2 is the highest block known final, so rollback starts at 3.
+      latest.fork = 1;
+      announcements.pop();
+      const reemitted = await scanner.scan();
+
+      expect(reorgs).toEqual([[["0x6", "0x9"], 3]]);
+      expect(fetched[1]).toEqual([3, 10]);
+      expect(reemitted.map((p) => p.announcement.transactionHash)).toEqual(["0x6"]);
+      expect(
+        (await scanner.getPayments()).map((p) => p.announcement.transactionHash)
+      ).toEqual(["0x2", "0x6"]);
+    });
+
+    it("should roll back when the checkpoint block disappears", async () => {
+      const keys = generateKeys();
+      const latest = { block: 10 };
+      const { amora, fetched } = fakeAmora([makeAnnouncement(keys, 4, "0x4")], latest);
+      const scanner = new AmoraScanner(amora, keys);
+
+      await scanner.scan();
+      latest.block = 8;
+      await scanner.scan();
+
+      // Block 4 (a payment block) is unchanged, so rescanning starts after it
+      expect(fetched[1]).toEqual([5, 8]);
+      expect(await scanner.getPayments()).toHaveLength(1);
+    });
+
+    it("should only scan L1-accepted blocks when finality is ACCEPTED_ON_L1", async () => {
+      const keys = generateKeys();
+      const latest = { block: 20, l1Block: 13 };
+      const { amora, fetched } = fakeAmora(
+        [makeAnnouncement(keys, 12, "0xc"), makeAnnouncement(keys, 15, "0xf")],
+        latest
+      );
+      const scanner = new AmoraScanner(amora, keys, { finality: "ACCEPTED_ON_L1" });
+
+      const payments = await scanner.scan();
+
+      expect(fetched).toEqual([[0, 13]]);
+      expect(payments.map((p) => p.announcement.transactionHash)).toEqual(["0xc"]);
+      expect(await scanner.getLastScannedBlock()).toBe(13);
+    });
+  });
+
+  describe("JsonFileScanStore", () => {
+    it("should return null when the file does not exist", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "amora-scan-"));
+      try {
+        const store = new JsonFileScanStore(join(dir, "missing.json"));
+        expect(await store.load()).toBeNull();
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should persist state to disk", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "amora-scan-"));
+      try {
+        const path = join(dir, "state.json");
+        const keys = generateKeys();
+        const { amora } = fakeAmora([makeAnnouncement(keys, 2, "0x2")], { block: 9 });
+
+        await new AmoraScanner(amora, keys, { store: new JsonFileScanStore(path) }).scan();
+        const state = await new JsonFileScanStore(path).load();
+
+        expect(state?.lastScannedBlock).toBe(9);
+        expect(state?.payments[0].announcement.ephemeralPubKey).toBeTypeOf("bigint");
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi } from "vitest";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { Account, EthSigner } from "starknet";
+import {
+  SCHEME_ID_SECP256K1,
+  starkScheme,
+  secp256k1Scheme,
+  registerScheme,
+  getScheme,
+  isSupportedScheme,
+  getSchemes,
+} from "../src/schemes";
+import {
+  generateStealthAddress,
+  computeStealthContractAddress,
+  scanAnnouncements,
+  announcementScheme,
+  type Announcement,
+  type GenerateStealthAddressResult,
+} from "../src/stealth";
+import { generateKeys, keysFromPrivateKeys, importKeys } from "../src/keys";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import { exportViewingKey, importViewingKey, scanWithViewingKey } from "../src/viewing-key";
+import { scanAnnouncementsForRecipients } from "../src/multi-scan";
+import { encodeMetadata, decodeMetadata } from "../src/metadata";
+import { FIELD_PRIME, SCHEME_ID_STARK } from "../src/crypto";
+import {
+  NonNormalizedKeyError,
+  UnsupportedSchemeError,
+  UntaggedMetadataError,
+} from "../src/errors";
+import { Amora } from "../src/contracts";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const ETH_CLASS_HASH =
+  "0x0456789abcdef01234567890abcdef01234567890abcdef01234567890abcdef";
+
+/**
+ * Build the announcement a sender would publish for a stealth result
+ */
+const announce = (stealth: GenerateStealthAddressResult): Announcement => ({
+  stealthAddress: stealth.stealthAddress,
+  ephemeralPubKey: stealth.ephemeralPubKey,
+  viewTag: stealth.viewTag,
+  metadata: encodeMetadata({ schemeId: stealth.schemeId }),
+});
+
+describe("schemes", () => {
+  describe("registry", () => {
+    it("should look up the built-in schemes", () => {
+      expect(getScheme()).toBe(starkScheme);
+      expect(getScheme(BigInt(SCHEME_ID_STARK))).toBe(starkScheme);
+      expect(getScheme(SCHEME_ID_SECP256K1)).toBe(secp256k1Scheme);
+      expect(getSchemes()).toEqual([starkScheme, secp256k1Scheme]);
+    });
+
+    it("should reject unknown and colliding scheme IDs", () => {
+      expect(isSupportedScheme(0x42n)).toBe(false);
+      expect(() => getScheme(0x42n)).toThrow(UnsupportedSchemeError);
+      expect(() => getScheme(0x42n)).toThrow("Unsupported stealth scheme ID: 0x42");
+      expect(() => registerScheme({ ...secp256k1Scheme, name: "other" })).toThrow(
+        "already registered (secp256k1)"
+      );
+      expect(() => registerScheme(secp256k1Scheme)).not.toThrow();
+    });
+  });
+
+  describe("secp256k1", () => {
+    const keys = generateKeys(SCHEME_ID_SECP256K1);
+    const meta = parseMetaAddress(encodeMetaAddress(keys, { network: "SN_SEPOLIA" }));
+
+    it("should generate felt-sized spending keys and carry the scheme", () => {
+      expect(keys.schemeId).toBe(SCHEME_ID_SECP256K1);
+      expect(keys.spendingKey.publicKey < FIELD_PRIME).toBe(true);
+      expect(meta.schemeId).toBe(SCHEME_ID_SECP256K1);
+      expect(
+        keysFromPrivateKeys(
+          keys.spendingKey.privateKey,
+          keys.viewingKey.privateKey,
+          SCHEME_ID_SECP256K1
+        )
+      ).toEqual(keys);
+    });
+
+    it("should generate stealth addresses the recipient can scan and control", () => {
+      const stealth = generateStealthAddress(meta, ETH_CLASS_HASH);
+      const announcement = announce(stealth);
+
+      expect(stealth.schemeId).toBe(SCHEME_ID_SECP256K1);
+      expect(announcementScheme(announcement)).toBe(SCHEME_ID_SECP256K1);
+      expect(stealth.stealthAddress).toBe(
+        computeStealthContractAddress(
+          stealth.stealthPubKey,
+          ETH_CLASS_HASH,
+          undefined,
+          SCHEME_ID_SECP256K1
+        )
+      );
+
+      const [payment] = scanAnnouncements(
+        [announcement],
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        ETH_CLASS_HASH,
+        SCHEME_ID_SECP256K1
+      );
+      expect(payment.schemeId).toBe(SCHEME_ID_SECP256K1);
+      expect(payment.stealthPubKey).toBe(stealth.stealthPubKey);
+      expect(secp256k1Scheme.deriveStealthPublicKey(payment.stealthPrivateKey)).toBe(
+        stealth.stealthPubKey
+      );
+    });
+
+    it("should normalize or reject spending keys with an odd y-coordinate", () => {
+      // Negating a normalized key flips the parity of y
+      const oddKey = secp256k1.CURVE.n - keys.spendingKey.privateKey;
+      const viewing = keys.viewingKey.privateKey;
+
+      expect(() => keysFromPrivateKeys(oddKey, viewing, SCHEME_ID_SECP256K1)).toThrow(
+        NonNormalizedKeyError
+      );
+      expect(() =>
+        importKeys(oddKey, viewing, { parity: "reject", schemeId: SCHEME_ID_SECP256K1 })
+      ).toThrow(NonNormalizedKeyError);
+
+      const imported = importKeys(oddKey, viewing, { schemeId: SCHEME_ID_SECP256K1 });
+      expect(imported.keys).toEqual(keys);
+      expect(imported.wasNormalized).toEqual({ spendingKey: true, viewingKey: false });
+
+      const stealth = generateStealthAddress(meta, ETH_CLASS_HASH);
+      const [payment] = scanAnnouncements(
+        [announce(stealth)],
+        imported.keys.viewingKey.privateKey,
+        imported.keys.spendingKey.publicKey,
+        imported.keys.spendingKey.privateKey,
+        ETH_CLASS_HASH,
+        SCHEME_ID_SECP256K1
+      );
+      expect(secp256k1Scheme.deriveStealthPublicKey(payment.stealthPrivateKey)).toBe(
+        stealth.stealthPubKey
+      );
+    });
+
+    it("should build EthAccount calldata and an Ethereum signer", () => {
+      const stealth = generateStealthAddress(meta, ETH_CLASS_HASH);
+      const calldata = secp256k1Scheme.constructorCalldata(stealth.stealthPubKey);
+
+      expect(calldata).toHaveLength(4);
+      expect(calldata.every((felt) => felt < 1n << 128n)).toBe(true);
+      expect(secp256k1Scheme.signer(1n)).toBeInstanceOf(EthSigner);
+      expect(starkScheme.constructorCalldata(5n)).toEqual([5n]);
+    });
+
+    it("should only match announcements of the recipient's scheme", () => {
+      const starkKeys = generateKeys();
+      const starkMeta = parseMetaAddress(encodeMetaAddress(starkKeys));
+      const announcements = [
+        announce(generateStealthAddress(meta, ETH_CLASS_HASH)),
+        announce(generateStealthAddress(starkMeta, TEST_CLASS_HASH)),
+      ];
+
+      const starkPayments = scanAnnouncements(
+        announcements,
+        starkKeys.viewingKey.privateKey,
+        starkKeys.spendingKey.publicKey,
+        starkKeys.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+      const matches = scanAnnouncementsForRecipients(
+        announcements,
+        [
+          { id: "eth", keys, accountClassHash: ETH_CLASS_HASH },
+          { id: "stark", keys: starkKeys },
+        ],
+        TEST_CLASS_HASH
+      );
+
+      expect(starkPayments.map((p) => p.announcement)).toEqual([announcements[1]]);
+      expect(matches.map((m) => [m.recipientId, m.schemeId])).toEqual([
+        ["eth", SCHEME_ID_SECP256K1],
+        ["stark", undefined],
+      ]);
+    });
+
+    it("should export viewing keys with their scheme", () => {
+      const exported = exportViewingKey(keys);
+      const viewingKey = importViewingKey(exported);
+      const announcement = announce(generateStealthAddress(meta, ETH_CLASS_HASH));
+
+      expect(exported.split(":")).toHaveLength(5);
+      expect(viewingKey.schemeId).toBe(SCHEME_ID_SECP256K1);
+      expect(scanWithViewingKey([announcement], viewingKey, ETH_CLASS_HASH)).toHaveLength(1);
+      expect(exportViewingKey(generateKeys()).split(":")).toHaveLength(4);
+      expect(() => importViewingKey(`${exported.slice(0, exported.lastIndexOf(":"))}:0x42`)).toThrow(
+        "Invalid viewing key: Unsupported stealth scheme ID: 0x42"
+      );
+    });
+  });
+
+  describe("Amora", () => {
+    const amora = new Amora({
+      provider: {} as never,
+      amoraAddress: "0x1",
+      accountClassHash: TEST_CLASS_HASH,
+      accountClassHashes: { secp256k1: ETH_CLASS_HASH },
+      network: "SN_SEPOLIA",
+    });
+    const keys = generateKeys(SCHEME_ID_SECP256K1);
+
+    it("should pick the class hash of each scheme", () => {
+      expect(amora.accountClassHashFor()).toBe(TEST_CLASS_HASH);
+      expect(amora.accountClassHashFor(SCHEME_ID_SECP256K1)).toBe(ETH_CLASS_HASH);
+      expect(() =>
+        new Amora({
+          provider: {} as never,
+          amoraAddress: "0x1",
+          accountClassHash: TEST_CLASS_HASH,
+        }).accountClassHashFor(SCHEME_ID_SECP256K1)
+      ).toThrow("No stealth account class hash configured for the secp256k1 scheme");
+    });
+
+    it("should announce the scheme in the payment metadata", async () => {
+      const stealth = amora.generateStealthAddress(await amora.encodeMetaAddress(keys));
+      const [, announceCall] = amora.buildSendCalls("0x49d", 10n, stealth);
+      const metadata = (announceCall.calldata as string[]).slice(4).map(BigInt);
+
+      expect(decodeMetadata(metadata).schemeId).toBe(SCHEME_ID_SECP256K1);
+      expect(() => amora.buildSendCalls("0x49d", 10n, stealth, [])).toThrow(
+        "needs tagged metadata to carry its scheme field"
+      );
+      expect(() => amora.buildSendCalls("0x49d", 10n, stealth, [])).toThrow(UntaggedMetadataError);
+    });
+
+    it("should not register keys of other schemes", async () => {
+      const execute = vi.spyOn(Account.prototype, "execute");
+      const account = new Account({} as never, "0x123", "0x1");
+
+      await expect(amora.register(account, keys)).rejects.toThrow(
+        "Cannot register secp256k1 keys: the registry holds STARK keys only"
+      );
+      await expect(amora.simulateRegister(account, keys)).rejects.toMatchObject({
+        code: "UNREGISTRABLE_KEYS",
+        schemeId: SCHEME_ID_SECP256K1,
+      });
+      expect(execute).not.toHaveBeenCalled();
+      execute.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { Signer, constants, type Account, type Call, type TypedData } from "starknet";
+import {
+  getKeyDerivationTypedData,
+  keysFromSignature,
+} from "../src/signature-keys";
+import { normalizePrivateKey, derivePublicKey } from "../src/crypto";
+import { Amora } from "../src/contracts";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const ACCOUNT_ADDRESS =
+  "0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef";
+
+const signer = new Signer("0x1234567890abcdef");
+const sign = (typedData: TypedData) => signer.signMessage(typedData, ACCOUNT_ADDRESS);
+
+/**
+ * Minimal account that signs with the test signer and records executed calls
+ */
+function fakeAccount() {
+  const executed: Call[][] = [];
+  const account = {
+    address: ACCOUNT_ADDRESS,
+    signMessage: sign,
+    execute: async (calls: Call[]) => {
+      executed.push(calls);
+      return { transaction_hash: "0x1" };
+    },
+  };
+  return { account: account as unknown as Account, executed };
+}
+
+describe("signature-keys", () => {
+  const typedData = getKeyDerivationTypedData(constants.StarknetChainId.SN_SEPOLIA);
+
+  describe("getKeyDerivationTypedData", () => {
+    it("should bind the message to the chain", () => {
+      const mainnet = getKeyDerivationTypedData(constants.StarknetChainId.SN_MAIN);
+
+      expect(typedData.domain.chainId).toBe(constants.StarknetChainId.SN_SEPOLIA);
+      expect(mainnet.domain.chainId).toBe(constants.StarknetChainId.SN_MAIN);
+      expect(mainnet.message).toEqual(typedData.message);
+    });
+  });
+
+  describe("keysFromSignature", () => {
+    it("should derive the same keys from the same signature", async () => {
+      const keys = keysFromSignature(await sign(typedData));
+
+      expect(keysFromSignature(await sign(typedData))).toEqual(keys);
+    });
+
+    it("should derive distinct, normalized keys", async () => {
+      const keys = keysFromSignature(await sign(typedData));
+
+      expect(keys.spendingKey.privateKey).not.toBe(keys.viewingKey.privateKey);
+      for (const { privateKey, publicKey } of [keys.spendingKey, keys.viewingKey]) {
+        expect(normalizePrivateKey(privateKey)).toBe(privateKey);
+        expect(publicKey).toBe(derivePublicKey(privateKey));
+      }
+    });
+
+    it("should accept array and {r, s} signatures alike", () => {
+      const r = 0x1234n;
+      const s = 0x5678n;
+
+      expect(keysFromSignature({ r, s } as never)).toEqual(
+        keysFromSignature(["0x1234", "0x5678"])
+      );
+    });
+
+    it("should derive different keys on another chain", async () => {
+      const mainnet = getKeyDerivationTypedData(constants.StarknetChainId.SN_MAIN);
+
+      expect(keysFromSignature(await sign(mainnet))).not.toEqual(
+        keysFromSignature(await sign(typedData))
+      );
+    });
+
+    it("should reject an empty signature", () => {
+      expect(() => keysFromSignature([])).toThrow("Empty signature");
+    });
+  });
+
+  describe("Amora integration", () => {
+    const amora = new Amora({
+      provider: {
+        getChainId: async () => constants.StarknetChainId.SN_SEPOLIA,
+      } as never,
+      amoraAddress: "0x1",
+      accountClassHash: TEST_CLASS_HASH,
+    });
+
+    it("should derive keys from the account's signature", async () => {
+      const { account } = fakeAccount();
+
+      expect(await amora.deriveKeysFromAccount(account)).toEqual(
+        keysFromSignature(await sign(typedData))
+      );
+    });
+
+    it("should register the signature-derived meta-address by default", async () => {
+      const { account, executed } = fakeAccount();
+      const keys = keysFromSignature(await sign(typedData));
+
+      await amora.register(account);
+
+      expect(executed).toHaveLength(1);
+      expect(executed[0][0].entrypoint).toBe("register_keys");
+      expect(executed[0][0].calldata).toEqual([
+        "0x" + keys.spendingKey.publicKey.toString(16),
+        "0x" + keys.viewingKey.publicKey.toString(16),
+      ]);
+    });
+  });
+});
@@ -7,7 +7,9 @@ import {
   checkAnnouncementViewTag,
   verifyAndComputeStealthKey,
   scanAnnouncements,
+  announcementProtocol,
   type Announcement,
+  type GenerateStealthAddressResult,
 } from "../src/stealth";
 import { generateKeys, keysFromPrivateKeys } from "../src/keys";
 import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
@@ -16,7 +18,15 @@ import {
   derivePublicKey,
   ecdh,
   computeViewTag,
+  computeViewTagV2,
+  computeStealthTweak,
+  PROTOCOL_V2,
 } from "../src/crypto";
+import { encodeMetadata } from "../src/metadata";
+import { scanWithViewingKey, exportViewingKey, importViewingKey } from "../src/viewing-key";
+import { scanAnnouncementsForRecipients } from "../src/multi-scan";
+import { Amora } from "../src/contracts";
+import { InvalidProtocolError, UntaggedMetadataError } from "../src/errors";
 
 // Use a dummy class hash for testing
 const TEST_CLASS_HASH =
@@ -275,6 +285,151 @@ describe("stealth", () => {
     });
   });
 
+  describe("protocol v2", () => {
+    const keys = generateKeys();
+    const meta = parseMetaAddress(encodeMetaAddress(keys));
+
+    /**
+     * Build the announcement a sender would publish for a stealth result
+     */
+    const announce = (stealth: GenerateStealthAddressResult): Announcement => ({
+      stealthAddress: stealth.stealthAddress,
+      ephemeralPubKey: stealth.ephemeralPubKey,
+      viewTag: stealth.viewTag,
+      metadata: encodeMetadata({ protocol: stealth.protocol }),
+    });
+
+    it("should derive the view tag and tweak under separate domains", () => {
+      const sharedSecret = ecdh(generatePrivateKey(), meta.viewingPubKey);
+
+      expect(computeStealthTweak(sharedSecret, PROTOCOL_V2)).not.toBe(
+        computeStealthTweak(sharedSecret)
+      );
+      // v1 tags leak the low bits of the tweak; v2 tags do not
+      expect(computeViewTag(sharedSecret)).toBe(Number(computeStealthTweak(sharedSecret) & 0xffn));
+      expect(computeViewTagV2(sharedSecret, 32)).not.toBe(
+        Number(computeStealthTweak(sharedSecret, PROTOCOL_V2) & 0xffffffffn)
+      );
+      expect(computeViewTagV2(sharedSecret, 16) & 0xff).toBe(computeViewTagV2(sharedSecret));
+    });
+
+    it("should carry a wide view tag in the protocol field", () => {
+      const stealth = generateStealthAddress(meta, TEST_CLASS_HASH, {
+        version: PROTOCOL_V2,
+        viewTagBits: 16,
+      });
+
+      expect(stealth.protocol).toEqual({
+        version: 2,
+        viewTagBits: 16,
+        viewTag: computeViewTagV2(stealth.sharedSecret, 16),
+      });
+      expect(stealth.viewTag).toBe(stealth.protocol!.viewTag & 0xff);
+      expect(announcementProtocol(announce(stealth))).toEqual(stealth.protocol);
+    });
+
+    it("should scan v1 and v2 announcements side by side", () => {
+      const v1 = generateStealthAddress(meta, TEST_CLASS_HASH);
+      const v2 = generateStealthAddress(meta, TEST_CLASS_HASH, {
+        version: PROTOCOL_V2,
+        viewTagBits: 24,
+      });
+      const announcements = [announce(v1), announce(v2)];
+
+      const payments = scanAnnouncements(
+        announcements,
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+      const viewingKeyMatches = scanWithViewingKey(
+        announcements,
+        importViewingKey(exportViewingKey(keys)),
+        TEST_CLASS_HASH
+      );
+      const recipientMatches = scanAnnouncementsForRecipients(
+        announcements,
+        [{ id: "alice", keys }],
+        TEST_CLASS_HASH
+      );
+
+      expect(payments.map((p) => p.protocolVersion)).toEqual([1, 2]);
+      expect(viewingKeyMatches.map((m) => m.protocolVersion)).toEqual([1, 2]);
+      expect(recipientMatches.map((m) => m.protocolVersion)).toEqual([1, 2]);
+      expect(derivePublicKey(payments[1].stealthPrivateKey)).toBe(v2.stealthPubKey);
+      expect(recipientMatches[1].stealthPrivateKey).toBe(payments[1].stealthPrivateKey);
+      expect(
+        computeStealthPrivateKey(keys.spendingKey.privateKey, v2.sharedSecret, PROTOCOL_V2)
+      ).toBe(payments[1].stealthPrivateKey);
+    });
+
+    it("should skip v2 announcements with a mismatched or missing protocol field", () => {
+      const stealth = generateStealthAddress(meta, TEST_CLASS_HASH, {
+        version: PROTOCOL_V2,
+        viewTagBits: 16,
+      });
+      const protocol = stealth.protocol!;
+      const announcements = [
+        // Full tag disagrees with the on-chain tag
+        { ...announce(stealth), viewTag: (stealth.viewTag + 1) & 0xff },
+        // Unsupported version
+        { ...announce(stealth), metadata: encodeMetadata({ protocol: { ...protocol, version: 3 } }) },
+        // No protocol field: read as v1, so the address does not match
+        { ...announce(stealth), metadata: [] },
+      ];
+
+      expect(announcementProtocol(announcements[0])).toBeNull();
+      expect(announcementProtocol(announcements[1])).toBeNull();
+      expect(
+        scanAnnouncements(
+          announcements,
+          keys.viewingKey.privateKey,
+          keys.spendingKey.publicKey,
+          keys.spendingKey.privateKey,
+          TEST_CLASS_HASH
+        )
+      ).toEqual([]);
+    });
+
+    it("should reject unsupported protocol options", () => {
+      expect(() => generateStealthAddress(meta, TEST_CLASS_HASH, { version: 3 as never })).toThrow(
+        "Unsupported protocol version: 3"
+      );
+      expect(() => generateStealthAddress(meta, TEST_CLASS_HASH, { viewTagBits: 16 })).toThrow(
+        "Protocol v1 view tags are 8 bits wide"
+      );
+      expect(() =>
+        generateStealthAddress(meta, TEST_CLASS_HASH, { version: PROTOCOL_V2, viewTagBits: 33 })
+      ).toThrow("View tag width must be an integer in [8, 32]");
+      expect(() => generateStealthAddress(meta, TEST_CLASS_HASH, { viewTagBits: 7.5 })).toThrow(
+        InvalidProtocolError
+      );
+    });
+
+    it("should announce the protocol field from Amora", () => {
+      const amora = new Amora({
+        provider: {} as never,
+        amoraAddress: "0x1",
+        accountClassHash: TEST_CLASS_HASH,
+        protocol: { version: PROTOCOL_V2, viewTagBits: 16 },
+      });
+      const stealth = amora.generateStealthAddress(meta);
+      const [, announceCall] = amora.buildSendCalls("0x2", 5n, stealth);
+      // Announce calldata: [stealth_address, ephemeral_pubkey, view_tag, metadata_len, ...metadata]
+      const metadata = (announceCall.calldata as string[]).slice(4).map(BigInt);
+
+      expect(stealth.protocol?.viewTagBits).toBe(16);
+      expect(metadata).toEqual(
+        encodeMetadata({ token: "0x2", amount: 5n, protocol: stealth.protocol })
+      );
+      expect(() => amora.buildSendCalls("0x2", 5n, stealth, [])).toThrow(
+        "needs tagged metadata"
+      );
+      expect(() => amora.buildSendCalls("0x2", 5n, stealth, [])).toThrow(UntaggedMetadataError);
+    });
+  });
+
   describe("computeStealthPrivateKey", () => {
     it("should compute a valid private key", () => {
       const spendingPrivate = generatePrivateKey();
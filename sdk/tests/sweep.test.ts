@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Account, type Call } from "starknet";
+import { planSweep } from "../src/sweep";
+import { Amora } from "../src/contracts";
+import { generateKeys } from "../src/keys";
+import { encodeMetaAddress, parseMetaAddress } from "../src/meta-address";
+import { generateStealthAddress, scanAnnouncements, type StealthPayment } from "../src/stealth";
+import { encodeMetadata } from "../src/metadata";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const ETH = "0x49d36570d4e46f48e99674bd3fcc84644ddd6b96f7c741b1562b82f9e004dc7";
+const DESTINATION = "0xdead";
+
+const keys = generateKeys();
+const meta = parseMetaAddress(encodeMetaAddress(keys));
+
+/**
+ * Scan payments sent to fresh stealth addresses, optionally reusing an address
+ */
+function makePayments(tokens: (string | undefined)[]): StealthPayment[] {
+  const announcements = tokens.map((token) => {
+    const stealth = generateStealthAddress(meta, TEST_CLASS_HASH);
+    return {
+      ...stealth,
+      metadata: token === undefined ? [] : encodeMetadata({ token, amount: 1n }),
+    };
+  });
+  return scanAnnouncements(
+    announcements,
+    keys.viewingKey.privateKey,
+    keys.spendingKey.publicKey,
+    keys.spendingKey.privateKey,
+    TEST_CLASS_HASH
+  );
+}
+
+/**
+ * Amora over a provider with the given balances ("token:account"), deployed
+ * accounts and accounts whose balances cannot be read
+ */
+function fakeAmora(
+  balances: Record<string, bigint>,
+  deployed: string[] = [],
+  unreadable: string[] = []
+) {
+  const provider = {
+    callContract: async (call: Call) => {
+      const account = (call.calldata as string[])[0];
+      if (unreadable.includes(account)) throw new Error("RPC down");
+      const balance = balances[`${call.contractAddress}:${account}`] ?? 0n;
+      return ["0x" + balance.toString(16), "0x0"];
+    },
+    getClassHashAt: async (address: string) => {
+      if (deployed.includes(address)) return TEST_CLASS_HASH;
+      throw new Error("Contract not found");
+    },
+    waitForTransaction: async () => ({}),
+  };
+  return new Amora({
+    provider: provider as never,
+    amoraAddress: "0x1",
+    accountClassHash: TEST_CLASS_HASH,
+  });
+}
+
+/**
+ * A WEI fee estimate with the given maximum fee
+ */
+function estimate(maxFee: bigint) {
+  const zero = { max_amount: "0x0", max_price_per_unit: "0x0" };
+  return {
+    unit: "WEI",
+    overall_fee: maxFee,
+    suggestedMaxFee: maxFee,
+    resourceBounds: { l1_gas: zero, l2_gas: zero },
+  } as never;
+}
+
+/**
+ * Record deployments and executed multicalls instead of sending transactions
+ */
+function mockAccounts(failFor: string[] = [], fee = 0n) {
+  const deployedAccounts: string[] = [];
+  const executed: { address: string; calls: Call[] }[] = [];
+  vi.spyOn(Account.prototype, "estimateInvokeFee").mockResolvedValue(estimate(fee));
+  vi.spyOn(Account.prototype, "estimateFeeBulk").mockResolvedValue([
+    estimate(fee),
+    estimate(fee),
+  ]);
+  vi.spyOn(Account.prototype, "deployAccount").mockImplementation(async function (this: Account) {
+    deployedAccounts.push(this.address);
+    return { transaction_hash: "0xd" + deployedAccounts.length, contract_address: this.address };
+  });
+  vi.spyOn(Account.prototype, "execute").mockImplementation(async function (
+    this: Account,
+    calls
+  ) {
+    if (failFor.includes(this.address)) throw new Error("insufficient fee balance");
+    executed.push({ address: this.address, calls: calls as Call[] });
+    return { transaction_hash: "0xe" + executed.length };
+  });
+  return { deployedAccounts, executed };
+}
+
+const addr = (p: StealthPayment) =>
+  "0x" + p.announcement.stealthAddress.toLowerCase().replace(/^0x0*/, "");
+
+describe("sweep", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("planSweep", () => {
+    it("should group payments by stealth account and withdraw each balance once", () => {
+      const [a, b] = makePayments([STRK, ETH]);
+      const shared = { ...b, announcement: { ...b.announcement } };
+
+      const groups = planSweep(
+        [a, b, shared],
+        [
+          { payment: a, stealthAddress: addr(a), token: STRK, balance: 5n },
+          { payment: b, stealthAddress: addr(b), token: ETH, balance: 7n },
+          { payment: shared, stealthAddress: addr(b), token: ETH, balance: 7n },
+          { payment: shared, stealthAddress: addr(b), token: STRK, balance: 0n },
+        ]
+      );
+
+      expect(groups).toHaveLength(2);
+      expect(groups[0].transfers).toEqual([{ token: STRK, amount: 5n }]);
+      expect(groups[1].payments).toEqual([b, shared]);
+      expect(groups[1].transfers).toEqual([{ token: ETH, amount: 7n }]);
+    });
+  });
+
+  describe("Amora.sweep", () => {
+    it("should withdraw every token of an account in one multicall", async () => {
+      const [payment] = makePayments([STRK]);
+      const amora = fakeAmora({
+        [`${STRK}:${addr(payment)}`]: 100n,
+        [`${ETH}:${addr(payment)}`]: 3n,
+      });
+      const { deployedAccounts, executed } = mockAccounts();
+
+      const { results, totals } = await amora.sweep([payment], DESTINATION, {
+        tokens: [STRK, ETH],
+      });
+
+      expect(deployedAccounts).toHaveLength(1);
+      expect(executed).toHaveLength(1);
+      expect(executed[0].calls.map((c) => c.contractAddress)).toEqual([STRK, ETH]);
+      expect(results[0]).toMatchObject({
+        status: "swept",
+        transactionHash: "0xe1",
+        deployTransactionHash: "0xd1",
+        transfers: [
+          { token: STRK, amount: 100n },
+          { token: ETH, amount: 3n },
+        ],
+      });
+      expect(totals).toEqual(new Map([[STRK, 100n], [ETH, 3n]]));
+    });
+
+    it("should deploy only accounts that are not deployed and skip empty ones", async () => {
+      const [fresh, existing, empty] = makePayments([STRK, STRK, STRK]);
+      const amora = fakeAmora(
+        { [`${STRK}:${addr(fresh)}`]: 1n, [`${STRK}:${addr(existing)}`]: 2n },
+        [existing.announcement.stealthAddress]
+      );
+      const { deployedAccounts, executed } = mockAccounts();
+
+      const { results } = await amora.sweep([fresh, existing, empty], DESTINATION);
+
+      expect(deployedAccounts).toHaveLength(1);
+      expect(executed).toHaveLength(2);
+      expect(results.map((r) => r.status)).toEqual(["swept", "swept", "empty"]);
+      expect(results[1].deployTransactionHash).toBeUndefined();
+    });
+
+    it("should report partial failures and carry on", async () => {
+      const [ok, bad, noToken] = makePayments([STRK, STRK, undefined]);
+      const amora = fakeAmora({ [`${STRK}:${addr(ok)}`]: 1n, [`${STRK}:${addr(bad)}`]: 2n });
+      mockAccounts([bad.announcement.stealthAddress]);
+      const onAccount = vi.fn();
+
+      const { results, totals } = await amora.sweep([ok, bad, noToken], DESTINATION, {
+        onAccount,
+      });
+
+      expect(results.map((r) => r.status)).toEqual(["swept", "failed", "skipped"]);
+      expect(results[1].error?.message).toBe("insufficient fee balance");
+      expect(results[1].transfers).toEqual([]);
+      expect(totals).toEqual(new Map([[STRK, 1n]]));
+      expect(onAccount).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fail only the accounts whose balances could not be read", async () => {
+      const [ok, unread] = makePayments([STRK, STRK]);
+      const amora = fakeAmora(
+        { [`${STRK}:${addr(ok)}`]: 1n, [`${STRK}:${addr(unread)}`]: 2n },
+        [],
+        [addr(unread)]
+      );
+      const { executed } = mockAccounts();
+
+      const { results, totals } = await amora.sweep([ok, unread], DESTINATION);
+
+      expect(results.map((r) => r.status)).toEqual(["swept", "failed"]);
+      expect(results[1].error?.message).toBe("RPC down");
+      expect(executed.map((e) => e.address)).toEqual([ok.announcement.stealthAddress]);
+      expect(totals).toEqual(new Map([[STRK, 1n]]));
+    });
+
+    it("should leave the account's fees behind in the fee token", async () => {
+      const [payment, poor] = makePayments([ETH, ETH]);
+      const amora = fakeAmora({
+        [`${ETH}:${addr(payment)}`]: 1000n,
+        [`${STRK}:${addr(payment)}`]: 50n,
+        [`${ETH}:${addr(poor)}`]: 15n,
+      });
+      const { executed } = mockAccounts([], 10n);
+
+      const { results, totals } = await amora.sweep([payment, poor], DESTINATION, {
+        tokens: [ETH, STRK],
+      });
+
+      // Deploy fee 10 + withdraw fee 10 reserved from ETH only
+      expect(results[0].transfers).toEqual([
+        { token: ETH, amount: 980n },
+        { token: STRK, amount: 50n },
+      ]);
+      expect(results[1].status).toBe("failed");
+      expect(results[1].error?.message).toMatch(/^Insufficient balance to cover fees/);
+      expect(executed).toHaveLength(1);
+      expect(totals).toEqual(new Map([[ETH, 980n], [STRK, 50n]]));
+    });
+
+    it("should claim 40 payments with one call", async () => {
+      const payments = makePayments(Array.from({ length: 40 }, () => STRK));
+      const amora = fakeAmora(
+        Object.fromEntries(payments.map((p) => [`${STRK}:${addr(p)}`, 10n]))
+      );
+      const { executed } = mockAccounts();
+
+      const { results, totals } = await amora.sweep(payments, DESTINATION);
+
+      expect(results.every((r) => r.status === "swept")).toBe(true);
+      expect(executed).toHaveLength(40);
+      expect(totals.get(STRK)).toBe(400n);
+    });
+  });
+});
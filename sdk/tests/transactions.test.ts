@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { Account, type Call } from "starknet";
+import { toTransactionDetails } from "../src/transactions";
+import { Amora } from "../src/contracts";
+import { generateKeys } from "../src/keys";
+import { encodeMetaAddress } from "../src/meta-address";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const STRK = "0x4718f5a0fc34cc1af16a1cdee98ffb20c31f5cd61d6ab07201858f4287c938d";
+const DESTINATION = "0xdead";
+
+const L1_BOUND = { maxAmount: 100n, maxPricePerUnit: 3n };
+
+/**
+ * A FRI fee estimate bounded by `l1Amount` L1 gas at price 1
+ */
+function estimate(l1Amount: bigint) {
+  return {
+    unit: "FRI",
+    overall_fee: l1Amount,
+    suggestedMaxFee: l1Amount,
+    resourceBounds: {
+      l1_gas: { max_amount: "0x" + l1Amount.toString(16), max_price_per_unit: "0x1" },
+      l2_gas: { max_amount: "0x0", max_price_per_unit: "0x0" },
+    },
+  } as never;
+}
+
+/**
+ * Amora over a provider where every account holds `balance` and none is deployed
+ */
+function fakeAmora(balance = 0n) {
+  const provider = {
+    callContract: async () => ["0x" + balance.toString(16), "0x0"],
+    getClassHashAt: async () => {
+      throw new Error("Contract not found");
+    },
+    waitForTransaction: async () => ({}),
+  };
+  return new Amora({
+    provider: provider as never,
+    amoraAddress: "0x1",
+    accountClassHash: TEST_CLASS_HASH,
+  });
+}
+
+describe("transactions", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("toTransactionDetails", () => {
+    it("should leave the account's defaults alone without options", () => {
+      expect(toTransactionDetails()).toEqual({});
+    });
+
+    it("should send v3 transactions for STRK fees", () => {
+      expect(toTransactionDetails({ feeToken: "STRK" })).toEqual({ version: "0x3" });
+      expect(toTransactionDetails({ feeToken: "ETH" })).toEqual({ version: "0x1" });
+    });
+
+    it("should convert resource bounds and tip", () => {
+      expect(
+        toTransactionDetails({
+          resourceBounds: { l1Gas: L1_BOUND, l2Gas: { maxAmount: 0n, maxPricePerUnit: 16n } },
+          tip: 5n,
+        })
+      ).toEqual({
+        version: "0x3",
+        resourceBounds: {
+          l1_gas: { max_amount: "0x64", max_price_per_unit: "0x3" },
+          l2_gas: { max_amount: "0x0", max_price_per_unit: "0x10" },
+        },
+        tip: 5n,
+      });
+    });
+
+    it("should reject mixed v1 and v3 fee settings", () => {
+      expect(() => toTransactionDetails({ feeToken: "ETH", tip: 1n })).toThrow(
+        "Resource bounds and tip require STRK fees"
+      );
+      expect(() => toTransactionDetails({ feeToken: "STRK", maxFee: 1n })).toThrow(
+        "maxFee only applies to ETH fees"
+      );
+    });
+  });
+
+  describe("Amora", () => {
+    it("should pass transaction options to send and batchSend", async () => {
+      const execute = vi
+        .spyOn(Account.prototype, "execute")
+        .mockResolvedValue({ transaction_hash: "0x1" });
+      const account = new Account({} as never, "0xabc", "0x1");
+      const amora = fakeAmora();
+      const metaAddress = encodeMetaAddress(generateKeys());
+
+      await amora.send(account, STRK, 10n, amora.generateStealthAddress(metaAddress), {}, {
+        feeToken: "STRK",
+        tip: 2n,
+      });
+      await amora.batchSend(account, [{ metaAddress, tokenAddress: STRK, amount: 10n }], {
+        resourceBounds: { l1Gas: L1_BOUND },
+      });
+
+      expect(execute.mock.calls[0][1]).toEqual({ version: "0x3", tip: 2n });
+      expect(execute.mock.calls[1][1]).toMatchObject({
+        version: "0x3",
+        resourceBounds: { l1_gas: { max_amount: "0x64", max_price_per_unit: "0x3" } },
+      });
+    });
+
+    it("should deploy a stealth account with a v3 transaction", async () => {
+      const deploy = vi
+        .spyOn(Account.prototype, "deployAccount")
+        .mockResolvedValue({ transaction_hash: "0xd", contract_address: "0x0" });
+
+      await fakeAmora().deployStealthAccount(123n, undefined, { feeToken: "STRK" });
+
+      expect(deploy.mock.calls[0][1]).toEqual({ version: "0x3" });
+    });
+
+    it("should claim a STRK-only payment with v3 transactions", async () => {
+      const deploy = vi
+        .spyOn(Account.prototype, "deployAccount")
+        .mockResolvedValue({ transaction_hash: "0xd", contract_address: "0x0" });
+      const execute = vi
+        .spyOn(Account.prototype, "execute")
+        .mockResolvedValue({ transaction_hash: "0xe" });
+      const estimateFeeBulk = vi
+        .spyOn(Account.prototype, "estimateFeeBulk")
+        .mockResolvedValue([estimate(40n), estimate(20n)]);
+
+      await fakeAmora(1000n).deployAndWithdraw(123n, DESTINATION, STRK, "all", {
+        feeToken: "STRK",
+      });
+
+      expect(estimateFeeBulk.mock.calls[0][1]?.version).toBe(
+        "0x100000000000000000000000000000003"
+      );
+      expect(deploy.mock.calls[0][1]).toMatchObject({ version: "0x3" });
+      expect(execute.mock.calls[0][1]).toMatchObject({ version: "0x3" });
+      const [call] = execute.mock.calls[0][0] as Call[];
+      expect(BigInt((call.calldata as string[])[1])).toBe(940n);
+    });
+
+    it("should reserve fees under explicit resource bounds", async () => {
+      vi.spyOn(Account.prototype, "deployAccount").mockResolvedValue({
+        transaction_hash: "0xd",
+        contract_address: "0x0",
+      });
+      const execute = vi
+        .spyOn(Account.prototype, "execute")
+        .mockResolvedValue({ transaction_hash: "0xe" });
+      vi.spyOn(Account.prototype, "estimateFeeBulk").mockResolvedValue([
+        estimate(40n),
+        estimate(20n),
+      ]);
+
+      await fakeAmora(1000n).deployAndWithdraw(123n, DESTINATION, STRK, "all", {
+        resourceBounds: { l1Gas: L1_BOUND },
+      });
+
+      // 300 reserved for each of the deployment and the withdrawal
+      const [call] = execute.mock.calls[0][0] as Call[];
+      expect(BigInt((call.calldata as string[])[1])).toBe(400n);
+      expect(execute.mock.calls[0][1]).toMatchObject({
+        resourceBounds: { l1_gas: { max_amount: "0x64" } },
+      });
+    });
+  });
+});
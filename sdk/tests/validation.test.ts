@@ -0,0 +1,191 @@
+import { describe, it, expect } from "vitest";
+import {
+  validatePrivateKey,
+  validatePublicKey,
+  validateFelt,
+  validateAnnouncement,
+  ephemeralPointOf,
+  isValidPrivateKey,
+  isValidPublicKey,
+} from "../src/validation";
+import { CURVE_ORDER, FIELD_PRIME, derivePublicKey, generatePrivateKey } from "../src/crypto";
+import {
+  InvalidMetaAddressError,
+  InvalidPointError,
+  InvalidViewingKeyError,
+  MalformedAnnouncementError,
+  OutOfRangeError,
+} from "../src/errors";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import { importViewingKey, exportViewingKey, scanWithViewingKey } from "../src/viewing-key";
+import { generateKeys, keysFromPrivateKeys } from "../src/keys";
+import { parseAnnouncementEvent } from "../src/announcements";
+import { scanAnnouncementsForRecipients } from "../src/multi-scan";
+import { generateStealthAddress, scanAnnouncements, type Announcement } from "../src/stealth";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+
+// x = 5 is not the x-coordinate of any curve point
+const OFF_CURVE = 5n;
+
+describe("validation", () => {
+  describe("validatePrivateKey", () => {
+    it("should accept keys in [1, CURVE_ORDER)", () => {
+      expect(() => validatePrivateKey(1n)).not.toThrow();
+      expect(() => validatePrivateKey(CURVE_ORDER - 1n)).not.toThrow();
+      expect(isValidPrivateKey(generatePrivateKey())).toBe(true);
+    });
+
+    it("should reject zero and keys at or above the curve order", () => {
+      for (const key of [0n, -1n, CURVE_ORDER, CURVE_ORDER + 1n]) {
+        expect(isValidPrivateKey(key)).toBe(false);
+        expect(() => validatePrivateKey(key, "spending private key")).toThrow(
+          "Invalid spending private key: must be in [1, CURVE_ORDER)"
+        );
+      }
+      expect(() => validatePrivateKey(CURVE_ORDER)).toThrow(OutOfRangeError);
+    });
+  });
+
+  describe("validatePublicKey", () => {
+    it("should return the point of a valid key", () => {
+      const publicKey = derivePublicKey(generatePrivateKey());
+
+      expect(validatePublicKey(publicKey).x).toBe(publicKey);
+      expect(isValidPublicKey(publicKey)).toBe(true);
+    });
+
+    it("should reject the identity, out-of-field and off-curve keys", () => {
+      expect(() => validatePublicKey(0n)).toThrow("Invalid public key: x-coordinate 0 is the identity");
+      expect(() => validatePublicKey(FIELD_PRIME)).toThrow("x-coordinate out of field range");
+      expect(() => validatePublicKey(-1n)).toThrow("x-coordinate out of field range");
+      expect(() => validatePublicKey(OFF_CURVE, "viewing public key")).toThrow(
+        "Invalid viewing public key: x-coordinate not on curve"
+      );
+      expect(() => validatePublicKey(OFF_CURVE)).toThrow(InvalidPointError);
+      expect(isValidPublicKey(OFF_CURVE)).toBe(false);
+    });
+  });
+
+  describe("validateFelt", () => {
+    it("should reject values outside [0, FIELD_PRIME)", () => {
+      expect(() => validateFelt(0n)).not.toThrow();
+      expect(() => validateFelt(FIELD_PRIME - 1n)).not.toThrow();
+      expect(() => validateFelt(FIELD_PRIME, "amount")).toThrow("Invalid amount: out of felt252 range");
+      expect(() => validateFelt(-1n)).toThrow(OutOfRangeError);
+    });
+  });
+
+  describe("validateAnnouncement", () => {
+    const valid: Announcement = {
+      stealthAddress: "0x123",
+      ephemeralPubKey: 4n,
+      viewTag: 7,
+      metadata: [1n],
+    };
+
+    it("should return the ephemeral point of a valid announcement", () => {
+      expect(validateAnnouncement(valid).x).toBe(4n);
+      expect(ephemeralPointOf(valid)?.x).toBe(4n);
+    });
+
+    it("should reject invalid fields", () => {
+      expect(() => validateAnnouncement({ ...valid, ephemeralPubKey: OFF_CURVE })).toThrow(
+        "Invalid ephemeral public key: x-coordinate not on curve"
+      );
+      expect(() => validateAnnouncement({ ...valid, viewTag: 256 })).toThrow("Invalid view tag");
+      expect(() => validateAnnouncement({ ...valid, metadata: [1n, FIELD_PRIME] })).toThrow(
+        "Invalid metadata felt 1: out of felt252 range"
+      );
+      expect(ephemeralPointOf({ ...valid, ephemeralPubKey: 0n })).toBeNull();
+    });
+  });
+
+  describe("parsers", () => {
+    it("should reject meta-addresses with keys off the curve", () => {
+      const error = (() => {
+        try {
+          parseMetaAddress(`st:starknet:0x${OFF_CURVE.toString(16)}:0x456`);
+        } catch (e) {
+          return e as InvalidMetaAddressError;
+        }
+      })();
+
+      expect(error).toBeInstanceOf(InvalidMetaAddressError);
+      expect(error?.message).toBe("Invalid spending public key: x-coordinate not on curve");
+      expect(error?.cause).toBeInstanceOf(InvalidPointError);
+    });
+
+    it("should reject viewing keys with out-of-range or off-curve keys", () => {
+      const keys = generateKeys();
+      const spendingHex = "0x" + keys.spendingKey.publicKey.toString(16);
+
+      expect(() => importViewingKey(`vk:starknet:0x${CURVE_ORDER.toString(16)}:${spendingHex}`)).toThrow(
+        InvalidViewingKeyError
+      );
+      expect(() => importViewingKey("vk:starknet:0x1:0x5")).toThrow(
+        "Invalid viewing key: Invalid spending public key: x-coordinate not on curve"
+      );
+      expect(importViewingKey(exportViewingKey(keys)).spendingPubKey).toBe(keys.spendingKey.publicKey);
+    });
+
+    it("should reject private keys outside the curve order", () => {
+      expect(() => keysFromPrivateKeys(0n, 1n)).toThrow(OutOfRangeError);
+      expect(() => keysFromPrivateKeys(1n, CURVE_ORDER)).toThrow("Invalid viewing private key");
+    });
+
+    it("should reject announcement events with an invalid ephemeral key", () => {
+      const event = { data: ["0xabc", "0x1", "0x5", "0x2a", "0x0"] };
+
+      expect(() => parseAnnouncementEvent(event)).toThrow(MalformedAnnouncementError);
+      expect(() => parseAnnouncementEvent(event)).toThrow(
+        "Malformed announcement event: Invalid ephemeral public key: x-coordinate not on curve"
+      );
+    });
+  });
+
+  describe("scanning", () => {
+    it("should skip invalid announcements instead of throwing", () => {
+      const keys = generateKeys();
+      const stealth = generateStealthAddress(
+        parseMetaAddress(encodeMetaAddress(keys)),
+        TEST_CLASS_HASH
+      );
+      const payment: Announcement = {
+        stealthAddress: stealth.stealthAddress,
+        ephemeralPubKey: stealth.ephemeralPubKey,
+        viewTag: stealth.viewTag,
+        metadata: [],
+      };
+      const announcements: Announcement[] = [
+        { ...payment, ephemeralPubKey: OFF_CURVE },
+        { ...payment, ephemeralPubKey: 0n },
+        { ...payment, ephemeralPubKey: FIELD_PRIME + stealth.ephemeralPubKey },
+        payment,
+      ];
+
+      const payments = scanAnnouncements(
+        announcements,
+        keys.viewingKey.privateKey,
+        keys.spendingKey.publicKey,
+        keys.spendingKey.privateKey,
+        TEST_CLASS_HASH
+      );
+      const viewingKeyMatches = scanWithViewingKey(
+        announcements,
+        importViewingKey(exportViewingKey(keys)),
+        TEST_CLASS_HASH
+      );
+      const recipientMatches = scanAnnouncementsForRecipients(
+        announcements,
+        [{ id: "alice", keys }],
+        TEST_CLASS_HASH
+      );
+
+      expect(payments.map((p) => p.announcement)).toEqual([payment]);
+      expect(viewingKeyMatches.map((m) => m.announcement)).toEqual([payment]);
+      expect(recipientMatches.map((m) => m.announcement)).toEqual([payment]);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import { describe, it, expect } from "vitest";
+import type { Amora } from "../src/contracts";
+import {
+  AmoraWatcher,
+  isEventSubscriptionSource,
+  type EventSubscriptionHandlers,
+  type EventSubscriptionSource,
+} from "../src/watcher";
+import { generateKeys } from "../src/keys";
+import {
+  generateStealthAddress,
+  scanAnnouncements,
+  type Announcement,
+  type StealthPayment,
+} from "../src/stealth";
+import { parseMetaAddress, encodeMetaAddress } from "../src/meta-address";
+import type { AnnouncementEvent } from "../src/announcements";
+
+const TEST_CLASS_HASH =
+  "0x01234567890abcdef01234567890abcdef01234567890abcdef01234567890ab";
+const REGISTRY = "0x0388dfa21daf46e8d230f02df0bee78e42f93b33920db171d0f96d9d30f7a7b2";
+
+const keys = generateKeys();
+
+function makeAnnouncement(blockNumber: number, transactionHash: string): Announcement {
+  const meta = parseMetaAddress(encodeMetaAddress(keys));
+  const stealth = generateStealthAddress(meta, TEST_CLASS_HASH);
+  return {
+    stealthAddress: stealth.stealthAddress,
+    ephemeralPubKey: stealth.ephemeralPubKey,
+    viewTag: stealth.viewTag,
+    metadata: [],
+    blockNumber,
+    transactionHash,
+    eventIndex: 0,
+  };
+}
+
+function toEvent(a: Announcement): AnnouncementEvent {
+  return {
+    data: [
+      a.stealthAddress,
+      "0x1",
+      "0x" + a.ephemeralPubKey.toString(16),
+      "0x" + a.viewTag.toString(16),
+      "0x0",
+    ],
+    block_number: a.blockNumber,
+    transaction_hash: a.transactionHash,
+  };
+}
+
+/**
+ * Fake Amora whose chain grows as the test pushes announcements
+ */
+function fakeChain() {
+  const chain = { latest: 0, announcements: [] as Announcement[], failNext: 0 };
+  const amora = {
+    registryAddress: REGISTRY,
+    getBlockNumber: async () => {
+      if (chain.failNext > 0) {
+        chain.failNext--;
+        throw new Error("rpc down");
+      }
+      return chain.latest;
+    },
+    fetchAnnouncements: async (fromBlock: number, toBlock: number) =>
+      chain.announcements.filter(
+        (a) => a.blockNumber! >= fromBlock && a.blockNumber! <= toBlock
+      ),
+  };
+  return { chain, amora: amora as unknown as Amora };
+}
+
+const match = (announcements: Announcement[]) =>
+  scanAnnouncements(
+    announcements,
+    keys.viewingKey.privateKey,
+    keys.spendingKey.publicKey,
+    keys.spendingKey.privateKey,
+    TEST_CLASS_HASH
+  );
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error("timed out");
+    await new Promise((r) => setTimeout(r, 5));
+  }
+}
+
+describe("watcher", () => {
+  describe("isEventSubscriptionSource", () => {
+    it("should detect objects with subscribeEvents", () => {
+      expect(isEventSubscriptionSource({ subscribeEvents: async () => () => {} })).toBe(true);
+      expect(isEventSubscriptionSource({})).toBe(false);
+      expect(isEventSubscriptionSource(null)).toBe(false);
+    });
+  });
+
+  describe("polling", () => {
+    it("should emit payments from new blocks as they land", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 5;
+      chain.announcements.push(makeAnnouncement(3, "0x3"));
+      const payments: StealthPayment[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        { fromBlock: 0, pollInterval: 5, onPayment: (p) => payments.push(p) },
+        null
+      );
+
+      await waitFor(() => payments.length === 1);
+      chain.announcements.push(makeAnnouncement(7, "0x7"));
+      chain.latest = 8;
+      await waitFor(() => payments.length === 2);
+      watcher.stop();
+
+      expect(payments.map((p) => p.announcement.transactionHash)).toEqual(["0x3", "0x7"]);
+      expect(watcher.nextBlock).toBe(9);
+      expect(watcher.isRunning).toBe(false);
+    });
+
+    it("should start after the current block when no fromBlock is given", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 5;
+      chain.announcements.push(makeAnnouncement(4, "0x4"));
+      const payments: StealthPayment[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        { pollInterval: 5, onPayment: (p) => payments.push(p) },
+        null
+      );
+
+      await waitFor(() => watcher.nextBlock === 6);
+      chain.announcements.push(makeAnnouncement(6, "0x6"));
+      chain.latest = 6;
+      await waitFor(() => payments.length === 1);
+      watcher.stop();
+
+      expect(payments[0].announcement.transactionHash).toBe("0x6");
+    });
+
+    it("should report errors and retry", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 2;
+      chain.failNext = 2;
+      chain.announcements.push(makeAnnouncement(1, "0x1"));
+      const errors: unknown[] = [];
+      const payments: StealthPayment[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        {
+          fromBlock: 0,
+          pollInterval: 2,
+          onPayment: (p) => payments.push(p),
+          onError: (e) => errors.push(e),
+        },
+        null
+      );
+
+      await waitFor(() => payments.length === 1);
+      watcher.stop();
+
+      expect(errors).toHaveLength(2);
+    });
+
+    it("should emit the rest of a batch when onPayment throws", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 2;
+      chain.announcements.push(makeAnnouncement(1, "0x1"), makeAnnouncement(2, "0x2"));
+      const errors: unknown[] = [];
+      const payments: StealthPayment[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        {
+          fromBlock: 0,
+          pollInterval: 2,
+          onPayment: (p) => {
+            payments.push(p);
+            if (payments.length === 1) throw new Error("handler failed");
+          },
+          onError: (e) => errors.push(e),
+        },
+        null
+      );
+
+      await waitFor(() => payments.length === 2);
+      watcher.stop();
+
+      expect(payments.map((p) => p.announcement.transactionHash)).toEqual(["0x1", "0x2"]);
+      expect(errors).toEqual([new Error("handler failed")]);
+    });
+  });
+
+  describe("subscription", () => {
+    function fakeSubscription() {
+      const state = {
+        handlers: null as EventSubscriptionHandlers | null,
+        fromBlocks: [] as number[],
+        unsubscribed: 0,
+      };
+      const source: EventSubscriptionSource = {
+        subscribeEvents: async (filter, handlers) => {
+          state.fromBlocks.push(filter.fromBlock);
+          state.handlers = handlers;
+          return () => {
+            state.unsubscribed++;
+          };
+        },
+      };
+      return { state, source };
+    }
+
+    it("should catch up and then emit pushed events once", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 4;
+      chain.announcements.push(makeAnnouncement(2, "0x2"));
+      const { state, source } = fakeSubscription();
+      const payments: StealthPayment[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        { fromBlock: 0, onPayment: (p) => payments.push(p) },
+        source
+      );
+
+      await waitFor(() => state.handlers !== null);
+      const pushed = makeAnnouncement(5, "0x5");
+      state.handlers!.onEvent(toEvent(pushed));
+      state.handlers!.onEvent(toEvent(pushed));
+      watcher.stop();
+
+      expect(state.fromBlocks).toEqual([5]);
+      expect(payments.map((p) => p.announcement.transactionHash)).toEqual(["0x2", "0x5"]);
+      expect(state.unsubscribed).toBe(1);
+    });
+
+    it("should emit every announcement of a pushed transaction", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 4;
+      const { state, source } = fakeSubscription();
+      const payments: StealthPayment[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        { fromBlock: 0, onPayment: (p) => payments.push(p) },
+        source
+      );
+
+      await waitFor(() => state.handlers !== null);
+      // A batch send announces two payments in one transaction
+      const first = toEvent(makeAnnouncement(5, "0x5"));
+      const second = toEvent(makeAnnouncement(5, "0x5"));
+      state.handlers!.onEvent(first);
+      state.handlers!.onEvent(second);
+      state.handlers!.onEvent(first);
+      watcher.stop();
+
+      expect(payments.map((p) => p.announcement.eventIndex)).toEqual([0, 1]);
+    });
+
+    it("should resubscribe from the last seen block after a failure", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 4;
+      const { state, source } = fakeSubscription();
+      const errors: unknown[] = [];
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        { fromBlock: 0, pollInterval: 2, onPayment: () => {}, onError: (e) => errors.push(e) },
+        source
+      );
+
+      await waitFor(() => state.handlers !== null);
+      state.handlers!.onEvent(toEvent(makeAnnouncement(6, "0x6")));
+      state.handlers!.onError(new Error("socket closed"));
+      await waitFor(() => state.fromBlocks.length === 2);
+      watcher.stop();
+
+      expect(errors).toHaveLength(1);
+      expect(state.fromBlocks).toEqual([5, 6]);
+    });
+
+    it("should close a subscription that opens after the watcher stopped", async () => {
+      const { chain, amora } = fakeChain();
+      chain.latest = 4;
+      let open!: () => void;
+      let unsubscribed = 0;
+      const source: EventSubscriptionSource = {
+        subscribeEvents: async () => {
+          await new Promise<void>((resolve) => {
+            open = resolve;
+          });
+          return () => {
+            unsubscribed++;
+          };
+        },
+      };
+
+      const watcher = new AmoraWatcher(
+        amora,
+        match,
+        { fromBlock: 0, onPayment: () => {} },
+        source
+      );
+
+      await waitFor(() => open !== undefined);
+      watcher.stop();
+      open();
+      await waitFor(() => unsubscribed === 1);
+    });
+
+    it("should throw when the subscription transport is forced without a source", () => {
+      const { amora } = fakeChain();
+      expect(
+        () =>
+          new AmoraWatcher(amora, match, { transport: "subscription", onPayment: () => {} }, null)
+      ).toThrow("no event subscription is available");
+    });
+  });
+});